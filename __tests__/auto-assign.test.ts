@@ -0,0 +1,108 @@
+import { hasSkills, proposeAssignments } from "@/lib/auto-assign";
+import type { Employee, Release, Task } from "@/lib/types";
+
+const makeEmployee = (id: string, skills: string[]): Employee => ({
+  id,
+  name: id,
+  position: "",
+  skills,
+  capacityPeriods: [
+    {
+      id: `${id}-p`,
+      startDate: "2025-01-01",
+      endDate: "2025-12-31",
+      hoursPerDay: 8,
+    },
+  ],
+});
+
+const makeTask = (
+  id: string,
+  estimatedHours: number,
+  requiredSkills?: string[],
+): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours,
+  status: "pending",
+  blockerTaskIds: [],
+  assignedEmployeeId: null,
+  requiredSkills,
+});
+
+describe("hasSkills", () => {
+  it("сравнивает навыки без учёта регистра и пробелов", () => {
+    expect(hasSkills({ skills: ["Frontend "] }, ["frontend"])).toBe(true);
+    expect(hasSkills({ skills: ["frontend"] }, ["frontend", "ios"])).toBe(
+      false,
+    );
+    expect(hasSkills({}, [])).toBe(true);
+  });
+});
+
+describe("proposeAssignments", () => {
+  const roster = [
+    makeEmployee("alice", ["frontend"]),
+    makeEmployee("bob", ["backend"]),
+  ];
+  const release: Release = {
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-06",
+    customHolidays: [],
+    members: roster.map((e) => ({ employeeId: e.id, allocationPercent: 100 })),
+    tasks: [
+      makeTask("api", 16, ["backend"]),
+      makeTask("docs", 8),
+      makeTask("app", 8, ["ios"]),
+      { ...makeTask("done", 8), assignedEmployeeId: "alice" },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  };
+
+  it("подбирает исполнителей по навыкам и свободной ёмкости", () => {
+    const result = proposeAssignments(release, [release], roster);
+
+    expect(result.proposals.map((p) => [p.taskId, p.employeeId])).toEqual([
+      ["api", "bob"],
+      // Bob is busy with the API, Alice is free after her own task
+      ["docs", "alice"],
+    ]);
+    expect(result.unassignable).toEqual([
+      { taskId: "app", reason: "no_skill_match" },
+    ]);
+  });
+
+  it("оставляет назначенные задачи как есть", () => {
+    const result = proposeAssignments(release, [release], roster);
+
+    expect(result.proposals.some((p) => p.taskId === "done")).toBe(false);
+  });
+
+  it("учитывает занятость людей в релизах с более высоким приоритетом", () => {
+    const docsOnly: Release = {
+      ...release,
+      priority: 2,
+      tasks: [makeTask("docs", 8)],
+    };
+    const urgent: Release = {
+      ...release,
+      id: "r0",
+      priority: 1,
+      tasks: [
+        { ...makeTask("fix", 16), assignedEmployeeId: "alice" },
+        { ...makeTask("api-fix", 8), assignedEmployeeId: "bob" },
+      ],
+    };
+
+    const result = proposeAssignments(docsOnly, [docsOnly, urgent], roster);
+
+    // Bob is free a day earlier than Alice once the urgent release is booked
+    expect(result.proposals).toEqual([
+      expect.objectContaining({ taskId: "docs", employeeId: "bob" }),
+    ]);
+    expect(result.proposals[0].startDate).toEqual(new Date(2025, 0, 7));
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  calculateVariance,
+  captureBaseline,
+  findSlipCauses,
+} from "@/lib/baseline";
+import { DEFAULT_WORK_CALENDAR } from "@/lib/date-utils";
+import { calculatePortfolioSchedule } from "@/lib/portfolio";
+import type { Baseline, Employee, Release, Task } from "@/lib/types";
+
+const makeEmployee = (id: string): Employee => ({
+  id,
+  name: id,
+  position: "",
+  capacityPeriods: [
+    {
+      id: `${id}-p`,
+      startDate: "2025-01-01",
+      endDate: "2025-12-31",
+      hoursPerDay: 8,
+    },
+  ],
+});
+const roster = [makeEmployee("alice"), makeEmployee("bob")];
+
+const makeTask = (
+  id: string,
+  priority: number,
+  estimatedHours: number,
+  assignedEmployeeId = "alice",
+): Task => ({
+  id,
+  name: id,
+  priority,
+  estimatedHours,
+  status: "pending",
+  blockerTaskIds: [],
+  assignedEmployeeId,
+});
+
+const makeRelease = (tasks: Task[], id = "r1", priority = 1): Release => ({
+  id,
+  name: id,
+  startDate: "2025-01-06",
+  customHolidays: [],
+  priority,
+  members: roster.map((e) => ({ employeeId: e.id, allocationPercent: 100 })),
+  tasks,
+  createdAt: "2025-01-01",
+  updatedAt: "2025-01-01",
+});
+
+// The release's schedule among `releases`, as the timeline shows it
+const schedule = (release: Release, releases: Release[] = [release]) =>
+  calculatePortfolioSchedule(
+    releases.map((r) => (r.id === release.id ? release : r)),
+    roster,
+  ).releases[release.id];
+
+const makeBaseline = (
+  release: Release,
+  releases: Release[] = [release],
+): Baseline => ({
+  id: "b1",
+  name: "Baseline",
+  ...captureBaseline(release.tasks, schedule(release, releases)),
+  createdAt: "2025-01-06",
+});
+
+// One person from Monday 6th: a Mon-Tue, b Wed-Thu, c Fri, e Mon 13th
+const planned = makeRelease([
+  makeTask("a", 0, 16),
+  makeTask("b", 1, 16),
+  makeTask("c", 2, 8),
+  makeTask("e", 3, 8),
+]);
+
+// b grew by a day, e was dropped and d added, so c is on Mon 13th and d
+// takes Tue-Wed
+const current = makeRelease([
+  makeTask("a", 0, 16),
+  makeTask("b", 1, 24),
+  makeTask("c", 2, 8),
+  makeTask("d", 3, 16),
+]);
+
+describe("captureBaseline", () => {
+  it("сохраняет рассчитанные даты задач и релиза", () => {
+    const baseline = makeBaseline(planned);
+
+    expect(baseline.releaseDate).toBe("2025-01-13");
+    expect(baseline.tasks[1]).toEqual({
+      taskId: "b",
+      name: "b",
+      startDate: "2025-01-08",
+      endDate: "2025-01-09",
+      estimatedHours: 16,
+      assignedEmployeeId: "alice",
+      blockerTaskIds: [],
+    });
+  });
+});
+
+describe("calculateVariance", () => {
+  it("считает сдвиг в рабочих днях и отмечает добавленные и удалённые задачи", () => {
+    const variance = calculateVariance(
+      makeBaseline(planned),
+      schedule(current),
+      DEFAULT_WORK_CALENDAR,
+    );
+    const byId = new Map(variance.tasks.map((t) => [t.taskId, t]));
+
+    expect(variance.releaseSlip).toBe(2);
+    expect(byId.get("a")).toMatchObject({ startSlip: 0, endSlip: 0 });
+    expect(byId.get("b")).toMatchObject({ startSlip: 0, endSlip: 1 });
+    // Friday 10th to Monday 13th is one working day
+    expect(byId.get("c")).toMatchObject({ startSlip: 1, endSlip: 1 });
+    expect(byId.get("d")).toMatchObject({ change: "added", endSlip: null });
+    expect(variance.tasks[variance.tasks.length - 1]).toMatchObject({
+      taskId: "e",
+      change: "removed",
+    });
+  });
+});
+
+describe("findSlipCauses", () => {
+  it("без изменений причин нет", () => {
+    expect(
+      findSlipCauses(planned, [planned], roster, makeBaseline(planned)),
+    ).toEqual([]);
+  });
+
+  it("называет изменения, сдвинувшие дату релиза, по убыванию", () => {
+    expect(
+      findSlipCauses(current, [current], roster, makeBaseline(planned)),
+    ).toEqual([
+      { kind: "added", taskId: "d", name: "d", days: 2 },
+      { kind: "estimate", taskId: "b", name: "b", days: 1 },
+      { kind: "removed", taskId: "e", name: "e", days: -1 },
+    ]);
+  });
+
+  it("учитывает людей, занятых в других релизах", () => {
+    // Bob is on a more urgent release until Wednesday, so the task added for
+    // him ends on Thursday, after Alice's work
+    const urgent = makeRelease([makeTask("u", 0, 24, "bob")], "r0", 0);
+    const before = makeRelease([makeTask("a", 0, 16)]);
+    const after = makeRelease([
+      makeTask("a", 0, 16),
+      makeTask("d", 1, 8, "bob"),
+    ]);
+
+    expect(
+      findSlipCauses(
+        after,
+        [after, urgent],
+        roster,
+        makeBaseline(before, [before, urgent]),
+      ),
+    ).toEqual([{ kind: "added", taskId: "d", name: "d", days: 2 }]);
+  });
+});
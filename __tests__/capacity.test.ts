@@ -0,0 +1,150 @@
+import {
+  findCapacityPeriodOverlaps,
+  getCapacityTimeline,
+  getEmployeeHoursForDate,
+  getPlannableHours,
+} from "@/lib/capacity";
+import type { CapacityPeriod, Employee } from "@/lib/types";
+
+const fullTime: CapacityPeriod = {
+  id: "full",
+  startDate: "2025-01-01",
+  endDate: "2025-12-31",
+  hoursPerDay: 8,
+};
+const partTime: CapacityPeriod = {
+  id: "part",
+  startDate: "2025-03-01",
+  endDate: "2025-03-31",
+  hoursPerDay: 4,
+};
+const vacation: CapacityPeriod = {
+  id: "vacation",
+  startDate: "2025-02-01",
+  endDate: "2025-04-30",
+  hoursPerDay: 0,
+};
+
+const makeEmployee = (capacityPeriods: CapacityPeriod[]): Employee => ({
+  id: "e1",
+  name: "Alice",
+  position: "",
+  capacityPeriods,
+});
+
+// 2025-03-03 is a Monday
+const monday = new Date("2025-03-03T00:00:00");
+
+describe("getEmployeeHoursForDate", () => {
+  it("берёт более короткий период независимо от порядка", () => {
+    expect(
+      getEmployeeHoursForDate(makeEmployee([fullTime, partTime]), monday),
+    ).toBe(4);
+    expect(
+      getEmployeeHoursForDate(makeEmployee([partTime, fullTime]), monday),
+    ).toBe(4);
+  });
+
+  it("находит период по локальной дате в любое время суток", () => {
+    // Outside UTC the ISO string of one of these is on another day: early
+    // morning east of UTC, late evening west of it
+    const oneDay = {
+      ...partTime,
+      startDate: "2025-03-03",
+      endDate: "2025-03-03",
+    };
+    const employee = makeEmployee([oneDay]);
+
+    expect(getEmployeeHoursForDate(employee, new Date(2025, 2, 3, 0, 30))).toBe(
+      4,
+    );
+    expect(
+      getEmployeeHoursForDate(employee, new Date(2025, 2, 3, 23, 30)),
+    ).toBe(4);
+  });
+
+  it("период без часов всегда важнее", () => {
+    expect(
+      getEmployeeHoursForDate(
+        makeEmployee([partTime, vacation, fullTime]),
+        monday,
+      ),
+    ).toBe(0);
+  });
+});
+
+describe("findCapacityPeriodOverlaps", () => {
+  it("сообщает пересечения и какой период действует", () => {
+    expect(findCapacityPeriodOverlaps([fullTime, partTime, vacation])).toEqual([
+      {
+        periodId: "part",
+        overriddenPeriodId: "full",
+        startDate: "2025-03-01",
+        endDate: "2025-03-31",
+      },
+      {
+        periodId: "vacation",
+        overriddenPeriodId: "full",
+        startDate: "2025-02-01",
+        endDate: "2025-04-30",
+      },
+      {
+        periodId: "vacation",
+        overriddenPeriodId: "part",
+        startDate: "2025-03-01",
+        endDate: "2025-03-31",
+      },
+    ]);
+  });
+});
+
+describe("getCapacityTimeline", () => {
+  it("делит время на отрезки действующих периодов", () => {
+    const timeline = getCapacityTimeline({
+      capacityPeriods: [fullTime, vacation],
+    });
+
+    expect(timeline.map((s) => [s.startDate, s.endDate, s.period?.id])).toEqual(
+      [
+        ["2025-01-01", "2025-01-31", "full"],
+        ["2025-02-01", "2025-04-30", "vacation"],
+        ["2025-05-01", "2025-12-31", "full"],
+      ],
+    );
+  });
+});
+
+describe("getPlannableHours", () => {
+  const employee: Employee = {
+    ...makeEmployee([fullTime]),
+    focusFactor: 0.75,
+    overhead: [
+      {
+        id: "standup",
+        description: "Standup",
+        weekdays: [1, 2, 3, 4, 5],
+        hoursPerDay: 0.5,
+      },
+      {
+        id: "on-call",
+        description: "On-call",
+        weekdays: [1],
+        hoursPerDay: 3.5,
+        everyWeeks: 2,
+        startDate: "2025-03-03",
+      },
+    ],
+  };
+
+  it("вычитает накладные часы, затем применяет фокус-фактор", () => {
+    // Monday of an on-call week: (8 - 0.5 - 3.5) * 0.75
+    expect(getPlannableHours(employee, monday, 8)).toBe(3);
+    // The Monday after is not an on-call week
+    expect(
+      getPlannableHours(employee, new Date("2025-03-10T00:00:00"), 8),
+    ).toBe(5.625);
+    expect(
+      getPlannableHours(employee, new Date("2025-03-17T00:00:00"), 8),
+    ).toBe(3);
+  });
+});
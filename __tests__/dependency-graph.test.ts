@@ -0,0 +1,143 @@
+import {
+  findCyclicBlockerIds,
+  findDependencyCycles,
+  findStronglyConnectedComponents,
+  wouldCreateCycle,
+} from "@/lib/dependency-graph";
+import type { Task } from "@/lib/types";
+
+const makeTask = (
+  id: string,
+  blockerTaskIds: string[] = [],
+  parentId?: string,
+): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours: 8,
+  status: "pending",
+  blockerTaskIds,
+  assignedEmployeeId: null,
+  parentId,
+});
+
+describe("findStronglyConnectedComponents", () => {
+  it("не возвращает компонент для ацикличного графа", () => {
+    const tasks = [makeTask("A"), makeTask("B", ["A"]), makeTask("C", ["B"])];
+    expect(findStronglyConnectedComponents(tasks)).toEqual([]);
+  });
+
+  it("находит самозависимость и раздельные циклы", () => {
+    const tasks = [
+      makeTask("A", ["A"]),
+      makeTask("B", ["C"]),
+      makeTask("C", ["B"]),
+      makeTask("D", ["C"]),
+    ];
+    const components = findStronglyConnectedComponents(tasks).map((c) =>
+      [...c].sort(),
+    );
+    expect(components).toHaveLength(2);
+    expect(components).toContainEqual(["A"]);
+    expect(components).toContainEqual(["B", "C"]);
+  });
+});
+
+describe("findDependencyCycles", () => {
+  it("возвращает упорядоченный путь цикла и его рёбра", () => {
+    // A blocks B, B blocks C, C blocks A; D only waits on the loop
+    const tasks = [
+      makeTask("A", ["C"]),
+      makeTask("B", ["A"]),
+      makeTask("C", ["B"]),
+      makeTask("D", ["C"]),
+    ];
+    const [cycle] = findDependencyCycles(tasks);
+
+    expect(cycle.path).toEqual(["A", "B", "C"]);
+    expect(cycle.edges).toEqual([
+      { blockerTaskId: "A", taskId: "B" },
+      { blockerTaskId: "B", taskId: "C" },
+      { blockerTaskId: "C", taskId: "A" },
+    ]);
+    expect([...cycle.componentTaskIds].sort()).toEqual(["A", "B", "C"]);
+  });
+
+  it("путь замыкается: каждое ребро ведёт к следующей задаче", () => {
+    const tasks = [
+      makeTask("A", ["D"]),
+      makeTask("B", ["A"]),
+      makeTask("C", ["B", "A"]),
+      makeTask("D", ["C"]),
+    ];
+    const [cycle] = findDependencyCycles(tasks);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+
+    for (const edge of cycle.edges) {
+      expect(byId.get(edge.taskId)!.blockerTaskIds).toContain(
+        edge.blockerTaskId,
+      );
+    }
+    expect(cycle.path).toEqual(["A", "C", "D"]);
+  });
+
+  it("находит цикл через наследование от эпика и называет введённые связи", () => {
+    // Epic E waits on B, and B waits on E's child A
+    const tasks = [
+      makeTask("E", ["B"]),
+      makeTask("A", [], "E"),
+      makeTask("B", ["A"]),
+    ];
+    const [cycle] = findDependencyCycles(tasks);
+
+    expect([...cycle.componentTaskIds].sort()).toEqual(["A", "B"]);
+    expect(cycle.edges).toContainEqual({ blockerTaskId: "B", taskId: "E" });
+    expect(cycle.edges).toContainEqual({ blockerTaskId: "A", taskId: "B" });
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  it("запрещает блокер, который транзитивно ждёт задачу", () => {
+    const tasks = [makeTask("A"), makeTask("B", ["A"]), makeTask("C", ["B"])];
+
+    expect(wouldCreateCycle(tasks, "A", "C")).toBe(true);
+    expect(wouldCreateCycle(tasks, "A", "A")).toBe(true);
+    expect(wouldCreateCycle(tasks, "C", "A")).toBe(false);
+  });
+
+  it("учитывает связи, которые наследуются от эпиков", () => {
+    // B waits on A, a child of epic E
+    const tasks = [
+      makeTask("E"),
+      makeTask("A", [], "E"),
+      makeTask("B", ["A"]),
+      makeTask("C"),
+    ];
+
+    expect(wouldCreateCycle(tasks, "E", "B")).toBe(true);
+    expect(wouldCreateCycle(tasks, "E", "C")).toBe(false);
+    // D waits on the whole epic, so A cannot wait on D
+    expect(wouldCreateCycle([...tasks, makeTask("D", ["E"])], "A", "D")).toBe(
+      true,
+    );
+  });
+});
+
+describe("findCyclicBlockerIds", () => {
+  it("не считает собственные подзадачи эпика циклом", () => {
+    // A2 waits on its sibling A1; both sit under E
+    const tasks = [
+      makeTask("E"),
+      makeTask("A1", [], "E"),
+      makeTask("A2", ["A1"], "E"),
+      makeTask("B", ["E"]),
+    ];
+
+    expect([...findCyclicBlockerIds(tasks, "E")].sort()).toEqual(["B", "E"]);
+    expect([...findCyclicBlockerIds(tasks, "A1")].sort()).toEqual([
+      "A1",
+      "A2",
+      "B",
+    ]);
+  });
+});
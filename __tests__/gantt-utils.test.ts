@@ -4,7 +4,9 @@ import {
   formatGanttDate,
   getDateRange,
 } from "@/lib/gantt-calculator";
-import type { Task, Employee, Release } from "@/lib/types";
+import type { Task, Employee, StaffedRelease } from "@/lib/types";
+import { DEFAULT_WORK_CALENDAR, toUTCDateOnly } from "@/lib/date-utils";
+import { createCapacityCalendars } from "@/lib/capacity";
 
 describe("orderTasksByDependenciesAndPriority", () => {
   it("сортирует задачи по приоритету без зависимостей", () => {
@@ -104,7 +106,7 @@ describe("calculateGanttData", () => {
   ];
 
   it("расписывает простую задачу без зависимостей", () => {
-    const release: Release = {
+    const release: StaffedRelease = {
       id: "r1",
       name: "Rel",
       startDate: "2025-01-01",
@@ -132,7 +134,7 @@ describe("calculateGanttData", () => {
   });
 
   it("помечает задачу как unscheduled при отсутствии capacity", () => {
-    const release: Release = {
+    const release: StaffedRelease = {
       id: "r1",
       name: "Rel",
       startDate: "2025-01-01",
@@ -158,7 +160,7 @@ describe("calculateGanttData", () => {
   });
 
   it("ставит external_blocker при зависимости от неизвестной задачи", () => {
-    const release: Release = {
+    const release: StaffedRelease = {
       id: "r1",
       name: "Rel",
       startDate: "2025-01-01",
@@ -186,7 +188,7 @@ describe("calculateGanttData", () => {
 
 describe("utils", () => {
   it("formatGanttDate форматирует дату", () => {
-    const d = new Date("2025-01-15");
+    const d = new Date("2025-01-15T00:00:00");
     expect(formatGanttDate(d)).toBe("Jan 15");
   });
 
@@ -209,3 +211,1001 @@ describe("utils", () => {
     expect(range.end > new Date("2025-01-20")).toBe(true);
   });
 });
+
+describe("critical path", () => {
+  const employees: Employee[] = [
+    {
+      id: "e1",
+      name: "Alice",
+      capacityPeriods: [
+        {
+          id: "p1",
+          startDate: "2025-01-01",
+          endDate: "2025-12-31",
+          hoursPerDay: 8,
+        },
+      ],
+      position: "",
+    },
+  ];
+
+  const makeRelease = (tasks: Task[]): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    customHolidays: [],
+    employees,
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  it("отмечает цепочку блокеров как критический путь и считает резерв", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        {
+          id: "a",
+          name: "A",
+          priority: 0,
+          estimatedHours: 8,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: "e1",
+        },
+        {
+          id: "b",
+          name: "B",
+          priority: 1,
+          estimatedHours: 16,
+          status: "pending",
+          blockerTaskIds: ["a"],
+          assignedEmployeeId: "e1",
+        },
+        {
+          id: "c",
+          name: "C",
+          priority: 2,
+          estimatedHours: 8,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: null,
+        },
+      ]),
+    );
+
+    const byId = new Map(result.tasks.map((t) => [t.id, t]));
+    expect(result.criticalPath).toEqual(["a", "b"]);
+    expect(byId.get("a")!.totalFloat).toBe(0);
+    expect(byId.get("b")!.isCritical).toBe(true);
+    expect(byId.get("c")!.isCritical).toBe(false);
+    expect(byId.get("c")!.totalFloat).toBe(1);
+    expect(byId.get("c")!.freeFloat).toBe(1);
+  });
+
+  it("учитывает очередь задач одного исполнителя", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        {
+          id: "x",
+          name: "X",
+          priority: 0,
+          estimatedHours: 8,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: "e1",
+        },
+        {
+          id: "y",
+          name: "Y",
+          priority: 1,
+          estimatedHours: 8,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: "e1",
+        },
+      ]),
+    );
+
+    expect(result.criticalPath).toEqual(["x", "y"]);
+  });
+});
+
+describe("dependency types", () => {
+  const fullTime = (id: string, name: string): Employee => ({
+    id,
+    name,
+    position: "",
+    capacityPeriods: [
+      {
+        id: `${id}-p`,
+        startDate: "2025-01-01",
+        endDate: "2025-12-31",
+        hoursPerDay: 8,
+      },
+    ],
+  });
+
+  const schedule = (blockerHours: number, dependent: Partial<Task>) => {
+    const release: StaffedRelease = {
+      id: "r1",
+      name: "Rel",
+      startDate: "2025-01-01",
+      customHolidays: [],
+      employees: [fullTime("e1", "Alice"), fullTime("e2", "Bob")],
+      tasks: [
+        {
+          id: "a",
+          name: "A",
+          priority: 0,
+          estimatedHours: blockerHours,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: "e1",
+        },
+        {
+          id: "b",
+          name: "B",
+          priority: 1,
+          estimatedHours: 8,
+          status: "pending",
+          blockerTaskIds: ["a"],
+          assignedEmployeeId: "e2",
+          ...dependent,
+        },
+      ],
+      createdAt: "2025-01-01",
+      updatedAt: "2025-01-01",
+    };
+    const b = calculateGanttData(release).tasks.find((t) => t.id === "b")!;
+    return {
+      start: b.startDate && toUTCDateOnly(b.startDate),
+      end: b.endDate && toUTCDateOnly(b.endDate),
+    };
+  };
+
+  it("старые blockerTaskIds работают как finish-to-start без лага", () => {
+    expect(schedule(8, {}).start).toBe("2025-01-02");
+  });
+
+  it("учитывает лаг в рабочих днях, в том числе отрицательный", () => {
+    expect(
+      schedule(8, {
+        dependencies: [{ taskId: "a", type: "finish-to-start", lagDays: 2 }],
+      }).start,
+    ).toBe("2025-01-06");
+    expect(
+      schedule(16, {
+        dependencies: [{ taskId: "a", type: "finish-to-start", lagDays: -1 }],
+      }).start,
+    ).toBe("2025-01-02");
+  });
+
+  it("start-to-start и finish-to-finish", () => {
+    expect(
+      schedule(24, {
+        dependencies: [{ taskId: "a", type: "start-to-start", lagDays: 1 }],
+      }).start,
+    ).toBe("2025-01-02");
+    expect(
+      schedule(24, {
+        dependencies: [{ taskId: "a", type: "finish-to-finish", lagDays: 0 }],
+      }),
+    ).toEqual({ start: "2025-01-03", end: "2025-01-03" });
+  });
+});
+
+describe("date constraints", () => {
+  const employees: Employee[] = [
+    {
+      id: "e1",
+      name: "Alice",
+      position: "",
+      capacityPeriods: [
+        {
+          id: "p1",
+          startDate: "2025-01-01",
+          endDate: "2025-12-31",
+          hoursPerDay: 8,
+        },
+      ],
+    },
+  ];
+
+  const scheduleOne = (overrides: Partial<Task>, extra: Task[] = []) => {
+    const release: StaffedRelease = {
+      id: "r1",
+      name: "Rel",
+      startDate: "2025-01-01",
+      customHolidays: [],
+      employees,
+      tasks: [
+        ...extra,
+        {
+          id: "t",
+          name: "T",
+          priority: 5,
+          estimatedHours: 16,
+          status: "pending",
+          blockerTaskIds: [],
+          assignedEmployeeId: "e1",
+          ...overrides,
+        },
+      ],
+      createdAt: "2025-01-01",
+      updatedAt: "2025-01-01",
+    };
+    return calculateGanttData(release).tasks.find((t) => t.id === "t")!;
+  };
+
+  it("не начинает задачу раньше startNoEarlierThan", () => {
+    const task = scheduleOne({ startNoEarlierThan: "2025-01-08" });
+    expect(task.startDate && toUTCDateOnly(task.startDate)).toBe("2025-01-08");
+    expect(task.violations).toBeUndefined();
+  });
+
+  it("сообщает о сорванном дедлайне вместо молчаливого сдвига", () => {
+    const task = scheduleOne({ finishNoLaterThan: "2025-01-01" });
+    expect(task.endDate && toUTCDateOnly(task.endDate)).toBe("2025-01-02");
+    expect(task.violations).toEqual(["deadline_missed"]);
+  });
+
+  it("сообщает, когда mustStartOn недостижим", () => {
+    const busy: Task = {
+      id: "busy",
+      name: "Busy",
+      priority: 0,
+      estimatedHours: 24,
+      status: "pending",
+      blockerTaskIds: [],
+      assignedEmployeeId: "e1",
+    };
+    const task = scheduleOne({ mustStartOn: "2025-01-02" }, [busy]);
+    expect(task.startDate && toUTCDateOnly(task.startDate)).toBe("2025-01-06");
+    expect(task.violations).toEqual(["must_start_missed"]);
+  });
+});
+
+describe("planning horizon", () => {
+  const makeRelease = (
+    periodEnd: string,
+    estimatedHours: number,
+    planningHorizonEnd?: string,
+  ): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    planningHorizonEnd,
+    customHolidays: [],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: periodEnd,
+            hoursPerDay: 4,
+          },
+        ],
+      },
+    ],
+    tasks: [
+      {
+        id: "t1",
+        name: "Long",
+        priority: 0,
+        estimatedHours,
+        status: "pending",
+        blockerTaskIds: [],
+        assignedEmployeeId: "e1",
+      },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  it("планирует дальше 12 месяцев, если есть capacity", () => {
+    const result = calculateGanttData(makeRelease("2027-12-31", 2000));
+    expect(result.tasks[0].unscheduledReason).toBeUndefined();
+    expect(result.releaseDate!.getFullYear()).toBe(2026);
+  });
+
+  it("не обрывает часы по умолчанию через год", () => {
+    const release = makeRelease("2025-01-31", 2000);
+    release.employees[0] = {
+      ...release.employees[0],
+      capacityPeriods: [],
+      defaultHoursPerDay: 4,
+    };
+    const result = calculateGanttData(release);
+
+    // 500 working days from January 2025
+    expect(result.tasks[0].unscheduledReason).toBeUndefined();
+    expect(toUTCDateOnly(result.releaseDate!)).toBe("2026-12-01");
+  });
+
+  // One person with open-ended default hours
+  const withDefaultHours = (tasks: Task[]): StaffedRelease => {
+    const release = makeRelease("2025-01-31", 8);
+    return {
+      ...release,
+      startDate: "2025-01-06",
+      employees: [
+        { ...release.employees[0], capacityPeriods: [], defaultHoursPerDay: 8 },
+      ],
+      tasks,
+    };
+  };
+
+  it("дотягивает горизонт до фиксированного начала задачи", () => {
+    const [task] = makeRelease("2025-01-31", 8).tasks;
+    const result = calculateGanttData(
+      withDefaultHours([{ ...task, mustStartOn: "2027-06-01" }]),
+    );
+
+    expect(result.tasks[0].unscheduledReason).toBeUndefined();
+    expect(toUTCDateOnly(result.tasks[0].startDate!)).toBe("2027-06-01");
+  });
+
+  it("дотягивает горизонт до целевой даты вехи", () => {
+    const [task] = makeRelease("2025-01-31", 8).tasks;
+    const result = calculateGanttData(
+      withDefaultHours([
+        {
+          ...task,
+          id: "m",
+          name: "Milestone",
+          type: "milestone",
+          estimatedHours: 0,
+          assignedEmployeeId: null,
+          targetDate: "2027-06-01",
+        },
+        { ...task, blockerTaskIds: ["m"] },
+      ]),
+    );
+    const after = result.tasks.find((t) => t.id === "t1")!;
+
+    expect(after.unscheduledReason).toBeUndefined();
+    expect(toUTCDateOnly(after.startDate!)).toBe("2027-06-02");
+  });
+
+  it("сообщает beyond_horizon, когда упираемся в заданный горизонт", () => {
+    const result = calculateGanttData(
+      makeRelease("2025-12-31", 400, "2025-01-31"),
+    );
+    expect(result.tasks[0].unscheduledReason).toBe("beyond_horizon");
+  });
+
+  it("сообщает beyond_horizon, когда выведенный горизонт обрезает часы по умолчанию", () => {
+    const release = makeRelease("2025-01-31", 400);
+    const employee = {
+      ...release.employees[0],
+      capacityPeriods: [],
+      defaultHoursPerDay: 8,
+    };
+    // Calendars derived for less work than the release has
+    const result = calculateGanttData(
+      { ...release, employees: [employee] },
+      {
+        capacityCalendars: createCapacityCalendars(
+          [employee],
+          release.startDate,
+          new Date("2025-01-31T00:00:00"),
+          DEFAULT_WORK_CALENDAR,
+        ),
+      },
+    );
+
+    expect(result.tasks[0].unscheduledReason).toBe("beyond_horizon");
+  });
+
+  it("оставляет no_capacity, если за горизонтом тоже нет часов", () => {
+    const result = calculateGanttData(
+      makeRelease("2025-01-31", 400, "2025-01-31"),
+    );
+    expect(result.tasks[0].unscheduledReason).toBe("no_capacity");
+  });
+});
+
+describe("weekly patterns", () => {
+  const makeRelease = (
+    startDate: string,
+    weekdayHours: number[],
+    estimatedHours: number,
+  ): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate,
+    customHolidays: [],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+            weekdayHours,
+          },
+        ],
+      },
+    ],
+    tasks: [
+      {
+        id: "t1",
+        name: "Task",
+        priority: 0,
+        estimatedHours,
+        status: "pending",
+        blockerTaskIds: [],
+        assignedEmployeeId: "e1",
+      },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  it("берёт часы по дням недели вместо часов в день", () => {
+    // Mon-Thu 8h, Fri 4h: 36h in the first week
+    const result = calculateGanttData(
+      makeRelease("2025-01-06", [0, 8, 8, 8, 8, 4, 0], 40),
+    );
+    const [task] = result.tasks;
+
+    expect(toUTCDateOnly(task.startDate!)).toBe("2025-01-06");
+    expect(toUTCDateOnly(task.endDate!)).toBe("2025-01-13");
+  });
+
+  it("планирует на выходной, если он рабочий по графику", () => {
+    // Tue-Sat
+    const result = calculateGanttData(
+      makeRelease("2025-01-10", [0, 0, 8, 8, 8, 8, 8], 16),
+    );
+    const [task] = result.tasks;
+
+    expect(toUTCDateOnly(task.endDate!)).toBe("2025-01-11");
+    expect(task.trace!.nonWorkingDays).toEqual([]);
+  });
+});
+
+describe("schedule trace", () => {
+  const release: StaffedRelease = {
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    customHolidays: ["2025-01-06"],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-01-02",
+            hoursPerDay: 8,
+          },
+          {
+            id: "p2",
+            startDate: "2025-01-03",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+          },
+        ],
+      },
+    ],
+    tasks: [
+      {
+        id: "a",
+        name: "A",
+        priority: 0,
+        estimatedHours: 16,
+        status: "pending",
+        blockerTaskIds: [],
+        assignedEmployeeId: "e1",
+      },
+      {
+        id: "b",
+        name: "B",
+        priority: 1,
+        estimatedHours: 16,
+        status: "pending",
+        blockerTaskIds: [],
+        assignedEmployeeId: "e1",
+      },
+      {
+        id: "c",
+        name: "C",
+        priority: 2,
+        estimatedHours: 8,
+        status: "pending",
+        blockerTaskIds: ["a"],
+        assignedEmployeeId: null,
+      },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  };
+
+  const trace = (id: string) =>
+    calculateGanttData(release).tasks.find((t) => t.id === id)!.trace!;
+
+  it("показывает дни, занятые задачами с более высоким приоритетом", () => {
+    const b = trace("b");
+    expect(b.driver).toBe("release_start");
+    expect(b.fullyAllocatedDays).toEqual([
+      { date: "2025-01-01", taskIds: ["a"] },
+      { date: "2025-01-02", taskIds: ["a"] },
+    ]);
+    expect(b.nonWorkingDays).toEqual([
+      { date: "2025-01-04", reason: "weekend" },
+      { date: "2025-01-05", reason: "weekend" },
+      { date: "2025-01-06", reason: "holiday" },
+    ]);
+    expect(b.capacityPeriods).toEqual([
+      { periodId: "p2", description: undefined, hours: 16 },
+    ]);
+  });
+
+  it("указывает блокер, определивший ранний старт", () => {
+    const c = trace("c");
+    expect(c.driver).toBe("blocker");
+    expect(c.bindingDependency?.taskId).toBe("a");
+    expect(toUTCDateOnly(c.earliestStart)).toBe("2025-01-03");
+    expect(c.fullyAllocatedDays).toEqual([]);
+  });
+});
+
+describe("actual dates", () => {
+  const makeRelease = (tasks: Task[]): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    customHolidays: [],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+          },
+        ],
+      },
+    ],
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  const base: Task = {
+    id: "t1",
+    name: "T1",
+    priority: 0,
+    estimatedHours: 16,
+    status: "pending",
+    blockerTaskIds: [],
+    assignedEmployeeId: "e1",
+  };
+  const today = new Date("2025-01-13T00:00:00");
+  const iso = (d?: Date) => d && toUTCDateOnly(d);
+
+  it("фиксирует завершённую задачу на фактических датах", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        {
+          ...base,
+          status: "completed",
+          actualStartDate: "2025-01-02",
+          actualEndDate: "2025-01-08",
+        },
+        { ...base, id: "t2", priority: 1, blockerTaskIds: ["t1"] },
+      ]),
+      { today },
+    );
+    const [done, next] = result.tasks;
+
+    expect(iso(done.startDate)).toBe("2025-01-02");
+    expect(iso(done.endDate)).toBe("2025-01-08");
+    expect(done.trace?.driver).toBe("actual_dates");
+    expect(iso(next.startDate)).toBe("2025-01-13");
+  });
+
+  it("планирует только остаток задачи в работе, начиная с сегодня", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        {
+          ...base,
+          status: "in-progress",
+          actualStartDate: "2025-01-06",
+          workLog: [
+            { id: "w1", date: "2025-01-06", employeeId: "e1", hours: 8 },
+          ],
+        },
+      ]),
+      { today },
+    );
+    const [task] = result.tasks;
+
+    expect(iso(task.startDate)).toBe("2025-01-06");
+    expect(iso(task.endDate)).toBe("2025-01-13");
+  });
+
+  it("не планирует открытые задачи в прошлом", () => {
+    const result = calculateGanttData(makeRelease([base]), { today });
+    const [task] = result.tasks;
+
+    expect(iso(task.startDate)).toBe("2025-01-13");
+    expect(task.trace?.driver).toBe("today");
+  });
+});
+
+describe("milestones", () => {
+  const makeRelease = (tasks: Task[]): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    customHolidays: [],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+          },
+        ],
+      },
+    ],
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  const work: Task = {
+    id: "a",
+    name: "Work",
+    priority: 0,
+    estimatedHours: 16,
+    status: "pending",
+    blockerTaskIds: [],
+    assignedEmployeeId: "e1",
+  };
+  const freeze: Task = {
+    id: "m",
+    name: "Code freeze",
+    type: "milestone",
+    targetDate: "2025-01-02",
+    priority: 1,
+    estimatedHours: 0,
+    status: "pending",
+    blockerTaskIds: ["a"],
+    assignedEmployeeId: null,
+  };
+  const after: Task = {
+    ...work,
+    id: "b",
+    name: "Stabilize",
+    priority: 2,
+    estimatedHours: 8,
+    blockerTaskIds: ["m"],
+  };
+  const iso = (d?: Date) => d && toUTCDateOnly(d);
+
+  it("ставит веху в последний день блокера без длительности", () => {
+    const result = calculateGanttData(makeRelease([work, freeze, after]));
+    const milestone = result.tasks.find((t) => t.id === "m")!;
+    const successor = result.tasks.find((t) => t.id === "b")!;
+
+    expect(milestone.isMilestone).toBe(true);
+    expect(iso(milestone.startDate)).toBe("2025-01-02");
+    expect(iso(milestone.endDate)).toBe("2025-01-02");
+    expect(milestone.violations).toBeUndefined();
+    expect(iso(successor.startDate)).toBe("2025-01-03");
+    expect(result.criticalPath).toEqual(["a", "m", "b"]);
+  });
+
+  it("сообщает о сдвиге вехи позже целевой даты", () => {
+    const result = calculateGanttData(
+      makeRelease([work, { ...freeze, targetDate: "2025-01-01" }]),
+    );
+    const milestone = result.tasks.find((t) => t.id === "m")!;
+
+    expect(milestone.violations).toEqual(["milestone_slipped"]);
+  });
+
+  it("веха без блокеров стоит на своей целевой дате", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        { ...freeze, blockerTaskIds: [], targetDate: "2025-01-15" },
+      ]),
+    );
+    const [milestone] = result.tasks;
+
+    expect(iso(milestone.startDate)).toBe("2025-01-15");
+    expect(milestone.trace?.driver).toBe("target_date");
+  });
+});
+
+describe("epics", () => {
+  const makeRelease = (tasks: Task[]): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    customHolidays: [],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+          },
+        ],
+      },
+    ],
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  const task = (
+    id: string,
+    priority: number,
+    estimatedHours: number,
+    overrides: Partial<Task> = {},
+  ): Task => ({
+    id,
+    name: id,
+    priority,
+    estimatedHours,
+    status: "pending",
+    blockerTaskIds: [],
+    assignedEmployeeId: "e1",
+    ...overrides,
+  });
+  const iso = (d?: Date) => d && toUTCDateOnly(d);
+
+  const epic = task("E", 0, 0, { assignedEmployeeId: null });
+  const first = task("a", 1, 16, { parentId: "E" });
+  const second = task("c", 2, 8, { parentId: "E" });
+  const after = task("b", 3, 8, { blockerTaskIds: ["E"] });
+
+  it("сворачивает часы и даты детей в эпик", () => {
+    const result = calculateGanttData(
+      makeRelease([epic, first, second, after]),
+    );
+    const summary = result.tasks.find((t) => t.id === "E")!;
+
+    expect(summary.isEpic).toBe(true);
+    expect(summary.estimatedHours).toBe(24);
+    expect(iso(summary.startDate)).toBe("2025-01-01");
+    expect(iso(summary.endDate)).toBe("2025-01-03");
+    expect(result.tasks.map((t) => t.id)).toEqual(["E", "a", "c", "b"]);
+    expect(result.tasks.find((t) => t.id === "a")!.depth).toBe(1);
+  });
+
+  it("зависимость от эпика ждёт всех его детей", () => {
+    const result = calculateGanttData(
+      makeRelease([epic, first, second, after]),
+    );
+    const successor = result.tasks.find((t) => t.id === "b")!;
+
+    // Friday is taken by the last child, so the weekend pushes it to Monday
+    expect(iso(successor.startDate)).toBe("2025-01-06");
+    expect(result.releaseDate && iso(result.releaseDate)).toBe("2025-01-06");
+  });
+
+  it("взвешивает прогресс эпика по часам детей", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        epic,
+        first,
+        { ...second, status: "completed", actualEndDate: "2025-01-01" },
+      ]),
+    );
+    const summary = result.tasks.find((t) => t.id === "E")!;
+
+    expect(summary.progress).toBe(33);
+  });
+});
+
+describe("split tasks", () => {
+  const makeEmployee = (id: string, hoursPerDay: number): Employee => ({
+    id,
+    name: id,
+    position: "",
+    capacityPeriods: [
+      {
+        id: `${id}-p`,
+        startDate: "2025-01-01",
+        endDate: "2025-12-31",
+        hoursPerDay,
+      },
+    ],
+  });
+  const makeRelease = (tasks: Task[]): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-06",
+    customHolidays: [],
+    employees: [makeEmployee("alice", 8), makeEmployee("bob", 4)],
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+  const split: Task = {
+    id: "split",
+    name: "Split",
+    priority: 0,
+    estimatedHours: 32,
+    status: "pending",
+    blockerTaskIds: [],
+    assignedEmployeeId: "alice",
+    assignments: [
+      { employeeId: "alice", sharePercent: 50 },
+      { employeeId: "bob", sharePercent: 50 },
+    ],
+  };
+  const iso = (date?: Date) => toUTCDateOnly(date!);
+
+  it("планирует долю каждого по его календарю", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        split,
+        {
+          ...split,
+          id: "next",
+          assignments: undefined,
+          estimatedHours: 8,
+          priority: 1,
+        },
+      ]),
+    );
+    const task = result.tasks.find((t) => t.id === "split")!;
+
+    // Alice does 16h in two days, Bob needs four
+    expect(iso(task.startDate)).toBe("2025-01-06");
+    expect(iso(task.endDate)).toBe("2025-01-09");
+    expect(
+      task.assigneeSegments!.map((s) => [
+        s.employeeId,
+        s.hours,
+        iso(s.endDate),
+      ]),
+    ).toEqual([
+      ["alice", 16, "2025-01-07"],
+      ["bob", 16, "2025-01-09"],
+    ]);
+    // Alice is free again once her share is done
+    expect(iso(result.tasks.find((t) => t.id === "next")!.startDate)).toBe(
+      "2025-01-08",
+    );
+  });
+
+  it("отдаёт часы тому, кто свободен", () => {
+    const result = calculateGanttData(
+      makeRelease([
+        { ...split, estimatedHours: 36, splitByAvailability: true },
+      ]),
+    );
+    const [task] = result.tasks;
+
+    // 12h a day between the two of them
+    expect(iso(task.endDate)).toBe("2025-01-08");
+    expect(task.assigneeSegments!.map((s) => s.hours)).toEqual([24, 12]);
+  });
+});
+
+describe("target end date", () => {
+  const employees: Employee[] = [
+    {
+      id: "e1",
+      name: "Alice",
+      capacityPeriods: [
+        {
+          id: "p1",
+          startDate: "2025-01-01",
+          endDate: "2025-12-31",
+          hoursPerDay: 8,
+        },
+      ],
+      position: "",
+    },
+  ];
+
+  const tasks: Task[] = [
+    {
+      id: "a",
+      name: "A",
+      priority: 0,
+      estimatedHours: 8,
+      status: "pending",
+      blockerTaskIds: [],
+      assignedEmployeeId: "e1",
+    },
+    {
+      id: "b",
+      name: "B",
+      priority: 1,
+      estimatedHours: 16,
+      status: "pending",
+      blockerTaskIds: ["a"],
+      assignedEmployeeId: "e1",
+    },
+  ];
+
+  const makeRelease = (targetEndDate?: string): StaffedRelease => ({
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-01-01",
+    targetEndDate,
+    customHolidays: [],
+    employees,
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+
+  it("без целевой даты не считает поздние даты", () => {
+    const result = calculateGanttData(makeRelease());
+
+    expect(result.target).toBeUndefined();
+    expect(result.tasks.every((t) => !t.latestStart)).toBe(true);
+  });
+
+  it("считает поздние даты начала от цели и запас", () => {
+    const result = calculateGanttData(makeRelease("2025-01-10"));
+    const byId = new Map(result.tasks.map((t) => [t.id, t]));
+
+    expect(result.target).toEqual({
+      targetDate: new Date("2025-01-10T00:00:00"),
+      feasible: true,
+      daysLate: -5,
+    });
+    expect(byId.get("b")!.latestFinish).toEqual(
+      new Date("2025-01-10T00:00:00"),
+    );
+    expect(byId.get("b")!.latestStart).toEqual(new Date("2025-01-09T00:00:00"));
+    expect(byId.get("a")!.latestStart).toEqual(new Date("2025-01-08T00:00:00"));
+  });
+
+  it("переносит цель с выходного на последний рабочий день", () => {
+    const result = calculateGanttData(makeRelease("2025-01-05"));
+
+    expect(result.target!.targetDate).toEqual(new Date("2025-01-03T00:00:00"));
+    expect(result.target!.feasible).toBe(true);
+    expect(result.target!.daysLate).toBe(0);
+  });
+
+  it("считает отставание и отмечает задачи, которые уже должны были начаться", () => {
+    const result = calculateGanttData(makeRelease("2025-01-02"), {
+      today: new Date("2025-01-03T00:00:00"),
+    });
+    const byId = new Map(result.tasks.map((t) => [t.id, t]));
+
+    expect(result.releaseDate).toEqual(new Date("2025-01-07T00:00:00"));
+    expect(result.target!.feasible).toBe(false);
+    expect(result.target!.daysLate).toBe(3);
+    expect(byId.get("a")!.latestStartPassed).toBe(true);
+    expect(byId.get("b")!.latestStartPassed).toBe(true);
+  });
+});
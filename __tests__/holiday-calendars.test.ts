@@ -0,0 +1,190 @@
+import { getReleaseCalendar, parseIcsCalendar } from "@/lib/holiday-calendars";
+import { addWorkingDays, isWorkingDay, toUTCDateOnly } from "@/lib/date-utils";
+import { calculateGanttData } from "@/lib/gantt-calculator";
+import type { HolidayCalendar, StaffedRelease } from "@/lib/types";
+
+const germany: HolidayCalendar = {
+  id: "de",
+  name: "Germany",
+  holidays: [
+    { date: "2025-01-01", name: "Neujahr" },
+    { date: "2025-04-18", name: "Karfreitag" },
+  ],
+};
+
+describe("getReleaseCalendar", () => {
+  it("объединяет свои праздники с общими календарями", () => {
+    const calendar = getReleaseCalendar(
+      {
+        customHolidays: ["2025-03-03"],
+        holidayCalendarIds: ["de", "missing"],
+      },
+      [germany],
+    );
+
+    expect(calendar.workingWeekdays).toEqual([1, 2, 3, 4, 5]);
+    expect(calendar.holidays).toEqual([
+      "2025-01-01",
+      "2025-03-03",
+      "2025-04-18",
+    ]);
+  });
+
+  it("без рабочих дней возвращается к неделе пн–пт", () => {
+    const calendar = getReleaseCalendar({
+      customHolidays: [],
+      workingWeekdays: [],
+    });
+
+    expect(calendar.workingWeekdays).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("рабочие дни считаются по неделе вс–чт", () => {
+    const calendar = getReleaseCalendar({
+      customHolidays: [],
+      workingWeekdays: [0, 1, 2, 3, 4],
+    });
+
+    // 2025-01-03 is a Friday, 2025-01-05 a Sunday
+    expect(isWorkingDay(new Date("2025-01-03T00:00:00"), calendar)).toBe(false);
+    expect(isWorkingDay(new Date("2025-01-05T00:00:00"), calendar)).toBe(true);
+    expect(
+      toUTCDateOnly(
+        addWorkingDays(new Date("2025-01-02T00:00:00"), 1, calendar),
+      ),
+    ).toBe("2025-01-05");
+  });
+});
+
+describe("parseIcsCalendar", () => {
+  it("читает название, даты и многодневные события", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "X-WR-CALNAME:Company",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20251224",
+      "DTEND;VALUE=DATE:20251227",
+      "SUMMARY:Winter\\, break",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART:20250501T000000Z",
+      "SUMMARY:Labour",
+      "  Day",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    expect(parseIcsCalendar(ics)).toEqual({
+      name: "Company",
+      holidays: [
+        { date: "2025-05-01", name: "Labour Day" },
+        { date: "2025-12-24", name: "Winter, break" },
+        { date: "2025-12-25", name: "Winter, break" },
+        { date: "2025-12-26", name: "Winter, break" },
+      ],
+    });
+  });
+});
+
+describe("calculateGanttData с календарём релиза", () => {
+  const release: StaffedRelease = {
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-04-16",
+    customHolidays: [],
+    workingWeekdays: [0, 1, 2, 3, 4],
+    holidayCalendarIds: ["de"],
+    employees: [
+      {
+        id: "e1",
+        name: "Alice",
+        position: "",
+        capacityPeriods: [
+          {
+            id: "p1",
+            startDate: "2025-01-01",
+            endDate: "2025-12-31",
+            hoursPerDay: 8,
+          },
+        ],
+      },
+    ],
+    tasks: [
+      {
+        id: "t1",
+        name: "Task",
+        priority: 0,
+        estimatedHours: 24,
+        status: "pending",
+        blockerTaskIds: [],
+        assignedEmployeeId: "e1",
+      },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  };
+
+  it("пропускает пятницу-праздник и субботу, работает в воскресенье", () => {
+    // Wed 16, Thu 17, then Friday is Karfreitag and Saturday is off
+    const [task] = calculateGanttData(release, {
+      holidayCalendars: [germany],
+    }).tasks;
+
+    expect(toUTCDateOnly(task.endDate!)).toBe("2025-04-20");
+    expect(task.trace!.nonWorkingDays).toEqual([
+      { date: "2025-04-18", reason: "holiday" },
+      { date: "2025-04-19", reason: "weekend" },
+    ]);
+  });
+});
+
+describe("праздники сотрудника", () => {
+  const makeEmployee = (id: string, holidayCalendarIds?: string[]) => ({
+    id,
+    name: id,
+    position: "",
+    holidayCalendarIds,
+    capacityPeriods: [
+      {
+        id: `${id}-p`,
+        startDate: "2025-01-01",
+        endDate: "2025-12-31",
+        hoursPerDay: 8,
+      },
+    ],
+  });
+  const makeTask = (id: string, assignedEmployeeId: string) => ({
+    id,
+    name: id,
+    priority: 0,
+    estimatedHours: 16,
+    status: "pending" as const,
+    blockerTaskIds: [],
+    assignedEmployeeId,
+  });
+
+  const release: StaffedRelease = {
+    id: "r1",
+    name: "Rel",
+    startDate: "2025-04-17",
+    customHolidays: [],
+    employees: [makeEmployee("berlin", ["de"]), makeEmployee("remote")],
+    tasks: [makeTask("a", "berlin"), makeTask("b", "remote")],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  };
+
+  it("снимает праздник только у сотрудника с этим календарём", () => {
+    const result = calculateGanttData(release, {
+      holidayCalendars: [germany],
+    });
+    const end = (id: string) =>
+      toUTCDateOnly(result.tasks.find((t) => t.id === id)!.endDate!);
+
+    expect(end("a")).toBe("2025-04-21");
+    expect(end("b")).toBe("2025-04-18");
+    expect(
+      result.tasks.find((t) => t.id === "a")!.trace!.nonWorkingDays[0],
+    ).toEqual({ date: "2025-04-18", reason: "holiday" });
+  });
+});
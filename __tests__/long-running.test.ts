@@ -0,0 +1,40 @@
+import { runInSlices, runToEnd, type Steps } from "@/lib/long-running";
+
+function* count(total: number): Steps<string> {
+  for (let done = 1; done <= total; done++) {
+    yield { done, total };
+  }
+  return "done";
+}
+
+describe("runToEnd", () => {
+  it("проходит все шаги и возвращает результат", () => {
+    expect(runToEnd(count(3))).toBe("done");
+  });
+});
+
+describe("runInSlices", () => {
+  it("сообщает прогресс между порциями и возвращает результат", async () => {
+    const progress: number[] = [];
+    const result = await runInSlices(count(3), {
+      sliceMs: 0,
+      onProgress: ({ done }) => progress.push(done),
+    });
+
+    expect(result).toBe("done");
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  it("возвращает null после отмены", async () => {
+    const controller = new AbortController();
+    const result = runInSlices(count(1000), {
+      sliceMs: 0,
+      signal: controller.signal,
+      onProgress: ({ done }) => {
+        if (done === 2) controller.abort();
+      },
+    });
+
+    await expect(result).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  calculatePortfolioSchedule,
+  orderReleasesForScheduling,
+} from "@/lib/portfolio";
+import type { Employee, Release, Task } from "@/lib/types";
+import { toUTCDateOnly } from "@/lib/date-utils";
+
+const makeEmployee = (id: string, name: string): Employee => ({
+  id,
+  name,
+  position: "",
+  capacityPeriods: [
+    {
+      id: `${id}-p`,
+      startDate: "2025-01-01",
+      endDate: "2025-12-31",
+      hoursPerDay: 8,
+    },
+  ],
+});
+
+const makeTask = (
+  id: string,
+  assignedEmployeeId: string | null,
+  blockerTaskIds: string[] = [],
+): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours: 8,
+  status: "pending",
+  blockerTaskIds,
+  assignedEmployeeId,
+});
+
+const makeRelease = (
+  id: string,
+  memberIds: string[],
+  tasks: Task[],
+  priority?: number,
+  allocationPercent = 100,
+): Release => ({
+  id,
+  name: id,
+  startDate: "2025-01-01",
+  customHolidays: [],
+  priority,
+  members: memberIds.map((employeeId) => ({ employeeId, allocationPercent })),
+  tasks,
+  createdAt: "2025-01-01",
+  updatedAt: "2025-01-01",
+});
+
+const iso = (d?: Date) => d && toUTCDateOnly(d);
+
+describe("orderReleasesForScheduling", () => {
+  it("ставит релизы по приоритету, без приоритета — в конец", () => {
+    const releases = [
+      makeRelease("none", [], []),
+      makeRelease("second", [], [], 2),
+      makeRelease("first", [], [], 1),
+    ];
+
+    expect(orderReleasesForScheduling(releases).map((r) => r.id)).toEqual([
+      "first",
+      "second",
+      "none",
+    ]);
+  });
+
+  it("релиз, ждущий задачу другого релиза, идёт после него", () => {
+    const releases = [
+      makeRelease("urgent", [], [makeTask("u", null, ["l"])], 1),
+      makeRelease("later", [], [makeTask("l", null)], 2),
+    ];
+
+    expect(orderReleasesForScheduling(releases).map((r) => r.id)).toEqual([
+      "later",
+      "urgent",
+    ]);
+  });
+});
+
+describe("calculatePortfolioSchedule", () => {
+  const roster = [makeEmployee("alice", "Alice"), makeEmployee("bob", "Bob")];
+
+  it("делит день человека между релизами по приоритету", () => {
+    const result = calculatePortfolioSchedule(
+      [
+        makeRelease("B", ["alice"], [makeTask("b", "alice")], 2),
+        makeRelease("A", ["alice"], [makeTask("a", "alice")], 1),
+      ],
+      roster,
+    );
+
+    expect(result.releaseOrder).toEqual(["A", "B"]);
+    expect(iso(result.releases.A.tasks[0].startDate)).toBe("2025-01-01");
+    expect(iso(result.releases.B.tasks[0].startDate)).toBe("2025-01-02");
+  });
+
+  it("ограничивает релиз его долей загрузки человека", () => {
+    const result = calculatePortfolioSchedule(
+      [
+        makeRelease("A", ["alice"], [makeTask("a", "alice")], 1, 50),
+        makeRelease("B", ["alice"], [makeTask("b", "alice")], 2, 50),
+      ],
+      roster,
+    );
+
+    // 4h a day each, so both releases work side by side for two days
+    expect(iso(result.releases.A.tasks[0].endDate)).toBe("2025-01-02");
+    expect(iso(result.releases.B.tasks[0].startDate)).toBe("2025-01-01");
+    expect(iso(result.releases.B.tasks[0].endDate)).toBe("2025-01-02");
+  });
+
+  it("разрешает блокер из другого релиза", () => {
+    const result = calculatePortfolioSchedule(
+      [
+        makeRelease("B", ["bob"], [makeTask("b", "bob", ["a"])], 1),
+        makeRelease("A", ["alice"], [makeTask("a", "alice")], 2),
+      ],
+      roster,
+    );
+    const [dependent] = result.releases.B.tasks;
+
+    expect(dependent.unscheduledReason).toBeUndefined();
+    expect(iso(dependent.startDate)).toBe("2025-01-02");
+  });
+
+  it("хватает часов по умолчанию на работу всех релизов человека", () => {
+    const carol: Employee = {
+      ...makeEmployee("carol", "Carol"),
+      capacityPeriods: [],
+      defaultHoursPerDay: 8,
+    };
+    const long = (id: string): Task => ({
+      ...makeTask(id, "carol"),
+      estimatedHours: 1600,
+    });
+    const result = calculatePortfolioSchedule(
+      [
+        makeRelease("A", ["carol"], [long("a")], 1),
+        makeRelease("B", ["carol"], [long("b")], 2),
+      ],
+      [carol],
+    );
+    const [last] = result.releases.B.tasks;
+
+    // 400 working days, well past a year and past what B alone needs
+    expect(last.unscheduledReason).toBeUndefined();
+    expect(iso(last.endDate)).toBe("2026-07-14");
+  });
+});
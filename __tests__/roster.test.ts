@@ -0,0 +1,88 @@
+import { migrateLegacyEmployees, staffRelease } from "@/lib/roster";
+import type { Employee, ProjectData, Release } from "@/lib/types";
+
+const makeEmployee = (
+  id: string,
+  name: string,
+  startDate: string,
+): Employee => ({
+  id,
+  name,
+  position: "Developer",
+  capacityPeriods: [
+    { id: `${id}-p`, startDate, endDate: "2025-12-31", hoursPerDay: 8 },
+  ],
+});
+
+const makeLegacyRelease = (id: string, employees: Employee[]): Release =>
+  ({
+    id,
+    name: id,
+    startDate: "2025-01-01",
+    customHolidays: [],
+    employees,
+    tasks: [
+      {
+        id: `${id}-t`,
+        name: "Task",
+        priority: 0,
+        estimatedHours: 8,
+        status: "in-progress",
+        blockerTaskIds: [],
+        assignedEmployeeId: employees[0].id,
+        workLog: [
+          {
+            id: "w",
+            date: "2025-01-02",
+            employeeId: employees[0].id,
+            hours: 2,
+          },
+        ],
+      },
+    ],
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  }) as unknown as Release;
+
+describe("migrateLegacyEmployees", () => {
+  it("сливает сотрудников с одинаковым именем в одного в ростере", () => {
+    const data = {
+      releases: [
+        makeLegacyRelease("r1", [makeEmployee("a1", "Alice", "2025-01-01")]),
+        makeLegacyRelease("r2", [makeEmployee("a2", " alice", "2025-06-01")]),
+      ],
+      activeReleaseId: "r1",
+    } as unknown as ProjectData;
+
+    const migrated = migrateLegacyEmployees(data);
+
+    expect(migrated.roster).toHaveLength(1);
+    expect(migrated.roster[0].id).toBe("a1");
+    expect(migrated.roster[0].capacityPeriods).toHaveLength(2);
+    for (const release of migrated.releases) {
+      expect(release.members).toEqual([
+        { employeeId: "a1", allocationPercent: 100 },
+      ]);
+      expect("employees" in release).toBe(false);
+      expect(release.tasks[0].assignedEmployeeId).toBe("a1");
+      expect(release.tasks[0].workLog![0].employeeId).toBe("a1");
+    }
+  });
+});
+
+describe("staffRelease", () => {
+  it("масштабирует мощность участника по доле загрузки", () => {
+    const roster = [
+      { ...makeEmployee("a1", "Alice", "2025-01-01"), defaultHoursPerDay: 6 },
+    ];
+    const release = {
+      ...makeLegacyRelease("r1", roster),
+      members: [{ employeeId: "a1", allocationPercent: 50 }],
+    };
+
+    const [employee] = staffRelease(release, roster).employees;
+
+    expect(employee.capacityPeriods[0].hoursPerDay).toBe(4);
+    expect(employee.defaultHoursPerDay).toBe(3);
+  });
+});
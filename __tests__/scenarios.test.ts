@@ -0,0 +1,127 @@
+import {
+  applyScenario,
+  createScenarioChanges,
+  removeTasks,
+} from "@/lib/scenarios";
+import type { Employee, Release, Task } from "@/lib/types";
+
+const makeEmployee = (id: string): Employee => ({
+  id,
+  name: id,
+  position: "Dev",
+  capacityPeriods: [
+    {
+      id: `${id}-p`,
+      startDate: "2025-01-01",
+      endDate: "2025-12-31",
+      hoursPerDay: 8,
+    },
+  ],
+});
+
+const makeTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours: 8,
+  status: "pending",
+  blockerTaskIds: [],
+  assignedEmployeeId: "anna",
+  ...overrides,
+});
+
+const roster = [makeEmployee("anna"), makeEmployee("ben")];
+const release: Release = {
+  id: "r1",
+  name: "Rel",
+  startDate: "2025-01-06",
+  customHolidays: ["2025-01-08"],
+  members: [
+    { employeeId: "anna", allocationPercent: 100 },
+    { employeeId: "ben", allocationPercent: 50 },
+  ],
+  tasks: [
+    makeTask("search", { estimatedHours: 0 }),
+    makeTask("index", { parentId: "search" }),
+    makeTask("ui", { blockerTaskIds: ["index"] }),
+  ],
+  createdAt: "2025-01-01",
+  updatedAt: "2025-01-01",
+};
+
+describe("applyScenario", () => {
+  it("без изменений возвращает тот же план", () => {
+    const plan = applyScenario(release, roster, createScenarioChanges());
+
+    expect(plan.release.tasks).toEqual(release.tasks);
+    expect(plan.release.members).toEqual(release.members);
+    expect(plan.roster).toEqual(roster);
+  });
+
+  it("добавляет людей, отпуск и убирает участников только в сценарии", () => {
+    const contractor = { ...makeEmployee("carl"), capacityPeriods: [] };
+    const plan = applyScenario(release, roster, {
+      ...createScenarioChanges(),
+      addedEmployees: [contractor],
+      removedEmployeeIds: ["ben"],
+      addedCapacityPeriods: [
+        {
+          employeeId: "anna",
+          period: {
+            id: "leave",
+            startDate: "2025-01-06",
+            endDate: "2025-01-10",
+            hoursPerDay: 0,
+          },
+        },
+      ],
+    });
+
+    expect(plan.release.members).toEqual([
+      { employeeId: "anna", allocationPercent: 100 },
+      { employeeId: "carl", allocationPercent: 100 },
+    ]);
+    expect(plan.roster.map((e) => e.id)).toEqual(["anna", "ben", "carl"]);
+    expect(plan.roster[0].capacityPeriods.map((p) => p.id)).toEqual([
+      "anna-p",
+      "leave",
+    ]);
+    expect(roster[0].capacityPeriods).toHaveLength(1);
+  });
+
+  it("меняет поля задач, убирает задачи и праздники", () => {
+    const plan = applyScenario(release, roster, {
+      ...createScenarioChanges(),
+      taskUpdates: [{ taskId: "ui", estimatedHours: 16 }],
+      removedTaskIds: ["index"],
+      addedHolidays: ["2025-01-09"],
+      removedHolidays: ["2025-01-08"],
+    });
+
+    expect(plan.release.tasks.map((t) => t.id)).toEqual(["search", "ui"]);
+    expect(plan.release.tasks[1]).toMatchObject({
+      estimatedHours: 16,
+      blockerTaskIds: [],
+    });
+    expect(plan.release.customHolidays).toEqual(["2025-01-09"]);
+    expect(release.tasks).toHaveLength(3);
+  });
+});
+
+describe("removeTasks", () => {
+  it("поднимает детей удалённого эпика к его родителю", () => {
+    const tasks = removeTasks(
+      [
+        makeTask("top"),
+        makeTask("epic", { parentId: "top" }),
+        makeTask("child", { parentId: "epic" }),
+      ],
+      ["epic"],
+    );
+
+    expect(tasks.map((t) => [t.id, t.parentId])).toEqual([
+      ["top", undefined],
+      ["child", "top"],
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+import { orderTasksByDependenciesAndPriority } from "@/lib/gantt-calculator";
+import { compareSchedulingStrategies } from "@/lib/portfolio";
+import { SCHEDULING_STRATEGIES } from "@/lib/scheduling-strategies";
+import type { Employee, Release, Task } from "@/lib/types";
+import { toUTCDateOnly } from "@/lib/date-utils";
+
+const makeTask = (
+  id: string,
+  estimatedHours: number,
+  priority: number,
+  extra: Partial<Task> = {},
+): Task => ({
+  id,
+  name: id,
+  priority,
+  estimatedHours,
+  status: "pending",
+  blockerTaskIds: [],
+  assignedEmployeeId: null,
+  ...extra,
+});
+
+describe("стратегии планирования", () => {
+  const tasks = [
+    makeTask("big", 16, 0),
+    makeTask("small", 4, 1),
+    makeTask("head", 4, 2),
+    makeTask("tail", 16, 3, {
+      blockerTaskIds: ["head"],
+      finishNoLaterThan: "2025-01-08",
+    }),
+    makeTask("deadline", 8, 4, { finishNoLaterThan: "2025-01-10" }),
+  ];
+  const order = (id: keyof typeof SCHEDULING_STRATEGIES) =>
+    orderTasksByDependenciesAndPriority(
+      tasks,
+      SCHEDULING_STRATEGIES[id].createComparator(tasks),
+    ).map((t) => t.id);
+
+  it("по приоритету следует порядку списка", () => {
+    expect(order("priority")).toEqual([
+      "big",
+      "small",
+      "head",
+      "tail",
+      "deadline",
+    ]);
+  });
+
+  it("короткие задачи идут первыми", () => {
+    expect(order("shortest-first")).toEqual([
+      "small",
+      "head",
+      "deadline",
+      "big",
+      "tail",
+    ]);
+  });
+
+  it("критический путь учитывает работу после задачи", () => {
+    expect(order("critical-path")).toEqual([
+      "head",
+      "big",
+      "tail",
+      "deadline",
+      "small",
+    ]);
+  });
+
+  it("ранний срок наследуется от последователей", () => {
+    expect(order("earliest-deadline")).toEqual([
+      "head",
+      "tail",
+      "deadline",
+      "big",
+      "small",
+    ]);
+  });
+});
+
+describe("compareSchedulingStrategies", () => {
+  const makeEmployee = (id: string): Employee => ({
+    id,
+    name: id,
+    position: "",
+    capacityPeriods: [
+      {
+        id: `${id}-p`,
+        startDate: "2025-01-01",
+        endDate: "2025-12-31",
+        hoursPerDay: 8,
+      },
+    ],
+  });
+  const roster = [makeEmployee("alice"), makeEmployee("bob")];
+  const makeRelease = (
+    id: string,
+    tasks: Task[],
+    priority?: number,
+  ): Release => ({
+    id,
+    name: id,
+    startDate: "2025-01-06",
+    customHolidays: [],
+    priority,
+    members: roster.map((e) => ({ employeeId: e.id, allocationPercent: 100 })),
+    tasks,
+    createdAt: "2025-01-01",
+    updatedAt: "2025-01-01",
+  });
+  const release = makeRelease(
+    "r1",
+    [
+      makeTask("big", 16, 0, { assignedEmployeeId: "alice" }),
+      makeTask("head", 8, 1, { assignedEmployeeId: "alice" }),
+      makeTask("tail", 16, 2, {
+        assignedEmployeeId: "bob",
+        blockerTaskIds: ["head"],
+      }),
+    ],
+    1,
+  );
+  const dateOf = (
+    outcomes: ReturnType<typeof compareSchedulingStrategies>,
+    strategy: string,
+  ) =>
+    toUTCDateOnly(outcomes.find((o) => o.strategy === strategy)!.releaseDate!);
+
+  it("сравнивает даты релиза всех стратегий", () => {
+    const outcomes = compareSchedulingStrategies(release, [release], roster);
+
+    expect(outcomes).toHaveLength(4);
+    // Bob waits for Alice's blocker unless it goes first
+    expect(dateOf(outcomes, "priority")).toBe("2025-01-10");
+    expect(dateOf(outcomes, "critical-path")).toBe("2025-01-08");
+  });
+
+  it("учитывает время людей, занятых в других релизах", () => {
+    // Bob is on a more urgent release until Wednesday
+    const urgent = makeRelease(
+      "r0",
+      [makeTask("other", 24, 0, { assignedEmployeeId: "bob" })],
+      0,
+    );
+    const outcomes = compareSchedulingStrategies(
+      release,
+      [release, urgent],
+      roster,
+    );
+
+    expect(dateOf(outcomes, "critical-path")).toBe("2025-01-10");
+  });
+});
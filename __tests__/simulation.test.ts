@@ -0,0 +1,124 @@
+import { runReleaseForecast, sampleEstimate } from "@/lib/simulation";
+import { calculatePortfolioSchedule } from "@/lib/portfolio";
+import type { Employee, Release, Task } from "@/lib/types";
+
+const roster: Employee[] = [
+  {
+    id: "e1",
+    name: "Alice",
+    position: "",
+    capacityPeriods: [
+      {
+        id: "p1",
+        startDate: "2025-01-01",
+        endDate: "2025-12-31",
+        hoursPerDay: 8,
+      },
+    ],
+  },
+];
+
+const makeRelease = (tasks: Task[], id = "r1", priority?: number): Release => ({
+  id,
+  name: id,
+  startDate: "2025-01-01",
+  priority,
+  customHolidays: [],
+  members: [{ employeeId: "e1", allocationPercent: 100 }],
+  tasks,
+  createdAt: "2025-01-01",
+  updatedAt: "2025-01-01",
+});
+
+const task: Task = {
+  id: "t1",
+  name: "T1",
+  priority: 0,
+  estimatedHours: 16,
+  estimateRange: {
+    optimisticHours: 8,
+    mostLikelyHours: 16,
+    pessimisticHours: 40,
+  },
+  status: "pending",
+  blockerTaskIds: [],
+  assignedEmployeeId: "e1",
+};
+
+describe("sampleEstimate", () => {
+  it("остаётся в границах трёхточечной оценки", () => {
+    const range = task.estimateRange!;
+    expect(sampleEstimate(range, () => 0)).toBe(8);
+    expect(sampleEstimate(range, () => 1)).toBe(40);
+    expect(sampleEstimate(range, () => 0.25)).toBe(16);
+  });
+});
+
+describe("runReleaseForecast", () => {
+  it("без диапазонов совпадает с рассчитанной датой релиза", () => {
+    const release = makeRelease([{ ...task, estimateRange: undefined }]);
+    const forecast = runReleaseForecast(release, [release], roster, {
+      iterations: 5,
+    });
+    const releaseDate = calculatePortfolioSchedule([release], roster).releases
+      .r1.releaseDate;
+
+    expect(forecast.completedRuns).toBe(5);
+    expect(forecast.p50).toEqual(releaseDate);
+    expect(forecast.p95).toEqual(releaseDate);
+    expect(forecast.criticalProbability.t1).toBe(1);
+  });
+
+  it("даёт монотонные перцентили", () => {
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const release = makeRelease([task]);
+    const forecast = runReleaseForecast(release, [release], roster, {
+      iterations: 50,
+      random,
+    });
+
+    expect(forecast.p50!.getTime()).toBeLessThanOrEqual(
+      forecast.p80!.getTime(),
+    );
+    expect(forecast.p80!.getTime()).toBeLessThanOrEqual(
+      forecast.p95!.getTime(),
+    );
+    expect(
+      forecast.distribution[forecast.distribution.length - 1].cumulative,
+    ).toBe(1);
+  });
+
+  it("масштабирует оставшиеся часы, а не исходную оценку", () => {
+    // 8 of 16 hours left; the pessimistic 40 is 2.5 times the estimate
+    const release = makeRelease([{ ...task, remainingHours: 8 }]);
+    const forecast = runReleaseForecast(release, [release], roster, {
+      iterations: 1,
+      random: () => 1,
+    });
+
+    // 20 hours from Wednesday the 1st end on Friday the 3rd
+    expect(forecast.p50).toEqual(new Date("2025-01-03T00:00:00"));
+  });
+
+  it("учитывает релизы, которые раньше занимают тех же людей", () => {
+    const release = makeRelease([{ ...task, estimateRange: undefined }]);
+    const other = makeRelease(
+      [{ ...task, id: "o1", estimateRange: undefined }],
+      "r0",
+      0,
+    );
+    const forecast = runReleaseForecast(release, [release, other], roster, {
+      iterations: 1,
+    });
+
+    expect(forecast.p50).toEqual(
+      calculatePortfolioSchedule([release, other], roster).releases.r1
+        .releaseDate,
+    );
+    expect(forecast.p50).toEqual(new Date("2025-01-06T00:00:00"));
+  });
+});
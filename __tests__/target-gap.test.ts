@@ -0,0 +1,147 @@
+import { analyzeTargetGap } from "@/lib/target-gap";
+import type { Employee, Release, Task } from "@/lib/types";
+
+const makeEmployee = (id: string): Employee => ({
+  id,
+  name: id,
+  position: "",
+  capacityPeriods: [
+    {
+      id: `${id}-p`,
+      startDate: "2025-01-01",
+      endDate: "2025-12-31",
+      hoursPerDay: 8,
+    },
+  ],
+});
+
+const makeTask = (
+  id: string,
+  estimatedHours: number,
+  assignedEmployeeId: string,
+  blockerTaskIds: string[] = [],
+): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours,
+  status: "pending",
+  blockerTaskIds,
+  assignedEmployeeId,
+});
+
+const makeRelease = (
+  tasks: Task[],
+  employees: Employee[],
+  targetEndDate?: string,
+  id = "r1",
+  priority?: number,
+): Release => ({
+  id,
+  name: id,
+  startDate: "2025-01-06",
+  targetEndDate,
+  customHolidays: [],
+  priority,
+  members: employees.map((e) => ({ employeeId: e.id, allocationPercent: 100 })),
+  tasks,
+  createdAt: "2025-01-01",
+  updatedAt: "2025-01-01",
+});
+
+// The release scheduled on its own, with only its own people on the roster
+const analyze = (release: Release) =>
+  analyzeTargetGap(
+    release,
+    [release],
+    release.members.map((m) => makeEmployee(m.employeeId)),
+  );
+
+describe("analyzeTargetGap", () => {
+  // 40 hours for one person, Monday 6th to Friday 10th
+  const work = [
+    makeTask("a", 16, "alice"),
+    makeTask("b", 16, "alice"),
+    makeTask("c", 8, "alice"),
+  ];
+
+  it("ничего не предлагает без цели или когда цель достигается", () => {
+    const alice = makeEmployee("alice");
+    expect(analyze(makeRelease(work, [alice]))).toBeNull();
+    expect(analyze(makeRelease(work, [alice], "2025-01-10"))).toBeNull();
+  });
+
+  it("находит минимум дополнительных часов в неделю", () => {
+    const analysis = analyze(
+      makeRelease(work, [makeEmployee("alice")], "2025-01-09"),
+    )!;
+
+    expect(analysis.current.daysLate).toBe(1);
+    expect(analysis.extraHours).toEqual([
+      {
+        employeeId: "alice",
+        hoursPerWeek: 10,
+        releaseDate: new Date("2025-01-09T00:00:00"),
+        feasible: true,
+        daysLate: 0,
+      },
+    ]);
+  });
+
+  it("убирает из объёма самую маленькую задачу, которой хватает", () => {
+    const analysis = analyze(
+      makeRelease(work, [makeEmployee("alice")], "2025-01-09"),
+    )!;
+
+    expect(analysis.descope).toEqual({
+      taskIds: ["c"],
+      releaseDate: new Date("2025-01-09T00:00:00"),
+      feasible: true,
+      daysLate: 0,
+    });
+  });
+
+  it("предлагает разорвать зависимость между критическими задачами", () => {
+    const analysis = analyze(
+      makeRelease(
+        [makeTask("a", 16, "alice"), makeTask("b", 16, "bob", ["a"])],
+        [makeEmployee("alice"), makeEmployee("bob")],
+        "2025-01-07",
+      ),
+    )!;
+
+    expect(analysis.dependencies).toEqual([
+      {
+        taskId: "b",
+        blockerTaskId: "a",
+        releaseDate: new Date("2025-01-07T00:00:00"),
+        feasible: true,
+        daysLate: 0,
+      },
+    ]);
+  });
+
+  it("учитывает людей, занятых в других релизах", () => {
+    // Alice spends Monday on a more urgent release, so the work ends a day late
+    const alice = makeEmployee("alice");
+    const release = makeRelease(work, [alice], "2025-01-10");
+    const urgent = makeRelease(
+      [makeTask("u", 8, "alice")],
+      [alice],
+      undefined,
+      "r0",
+      0,
+    );
+    const analysis = analyzeTargetGap(release, [release, urgent], [alice])!;
+
+    expect(analysis.current).toEqual({
+      releaseDate: new Date("2025-01-13T00:00:00"),
+      feasible: false,
+      daysLate: 1,
+    });
+    expect(analysis.extraHours[0]).toMatchObject({
+      employeeId: "alice",
+      feasible: true,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  expandEpicDependencies,
+  getParentMap,
+  orderTasksAsTree,
+} from "@/lib/task-hierarchy";
+import type { Task } from "@/lib/types";
+
+const makeTask = (
+  id: string,
+  parentId?: string,
+  blockerTaskIds: string[] = [],
+): Task => ({
+  id,
+  name: id,
+  priority: 0,
+  estimatedHours: 8,
+  status: "pending",
+  blockerTaskIds,
+  assignedEmployeeId: null,
+  parentId,
+});
+
+describe("getParentMap", () => {
+  it("игнорирует отсутствующих родителей и петли", () => {
+    const tasks = [
+      makeTask("A", "missing"),
+      makeTask("B", "C"),
+      makeTask("C", "B"),
+      makeTask("D", "A"),
+    ];
+    const parents = getParentMap(tasks);
+
+    expect(parents.get("D")).toBe("A");
+    expect(parents.has("A")).toBe(false);
+    expect(parents.has("B")).toBe(false);
+    expect(parents.has("C")).toBe(false);
+  });
+});
+
+describe("expandEpicDependencies", () => {
+  it("раскрывает зависимость от эпика в его листья и наследует блокеры", () => {
+    const tasks = [
+      makeTask("E", undefined, ["X"]),
+      makeTask("a", "E"),
+      makeTask("b", "E", ["a"]),
+      makeTask("X"),
+      makeTask("Y", undefined, ["E"]),
+    ];
+    const leaves = new Map(
+      expandEpicDependencies(tasks).map((t) => [t.id, t.blockerTaskIds]),
+    );
+
+    expect(leaves.has("E")).toBe(false);
+    expect(leaves.get("a")).toEqual(["X"]);
+    expect(leaves.get("b")).toEqual(["a", "X"]);
+    expect(leaves.get("Y")).toEqual(["a", "b"]);
+  });
+});
+
+describe("orderTasksAsTree", () => {
+  it("ставит детей сразу после родителя, сохраняя порядок", () => {
+    const tasks = [
+      makeTask("a", "E"),
+      makeTask("Z"),
+      makeTask("E"),
+      makeTask("b", "E"),
+    ];
+    const ordered = orderTasksAsTree(tasks, getParentMap(tasks));
+
+    expect(ordered.map((t) => t.id)).toEqual(["Z", "E", "a", "b"]);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  applyWorkLogEntry,
+  getActualDatesForStatus,
+  getRemainingHours,
+  getTaskProgress,
+  summarizeWorkByEmployee,
+} from "@/lib/task-progress";
+import type { Task } from "@/lib/types";
+
+const task: Task = {
+  id: "t1",
+  name: "T1",
+  priority: 0,
+  estimatedHours: 16,
+  status: "in-progress",
+  blockerTaskIds: [],
+  assignedEmployeeId: "e1",
+  workLog: [
+    { id: "w1", date: "2025-01-06", employeeId: "e1", hours: 4 },
+    { id: "w2", date: "2025-01-07", employeeId: "e2", hours: 4 },
+  ],
+};
+
+describe("getRemainingHours и getTaskProgress", () => {
+  it("считают остаток и процент по журналу времени", () => {
+    expect(getRemainingHours(task)).toBe(8);
+    expect(getTaskProgress(task)).toBe(50);
+  });
+
+  it("явная переоценка остатка важнее исходной оценки", () => {
+    const reestimated = { ...task, remainingHours: 24 };
+    expect(getRemainingHours(reestimated)).toBe(24);
+    expect(getTaskProgress(reestimated)).toBe(25);
+  });
+
+  it("без журнала задача в работе имеет 0%, завершённая — 100%", () => {
+    expect(getTaskProgress({ ...task, workLog: undefined })).toBe(0);
+    expect(getTaskProgress({ ...task, status: "completed" })).toBe(100);
+  });
+});
+
+describe("applyWorkLogEntry", () => {
+  it("запускает задачу и уменьшает явный остаток", () => {
+    const updates = applyWorkLogEntry(
+      { ...task, status: "pending", workLog: [], remainingHours: 10 },
+      { id: "w3", date: "2025-01-08", employeeId: "e1", hours: 3 },
+    );
+
+    expect(updates.status).toBe("in-progress");
+    expect(updates.actualStartDate).toBe("2025-01-08");
+    expect(updates.remainingHours).toBe(7);
+    expect(updates.workLog).toHaveLength(1);
+  });
+});
+
+describe("summarizeWorkByEmployee", () => {
+  it("относит оценку к исполнителю, а часы — к тому, кто их записал", () => {
+    const summaries = summarizeWorkByEmployee([task]);
+
+    expect(summaries.get("e1")).toEqual({
+      estimatedHours: 16,
+      loggedHours: 4,
+      remainingHours: 8,
+    });
+    expect(summaries.get("e2")?.loggedHours).toBe(4);
+  });
+
+  it("делит оценку разделённой задачи по долям", () => {
+    const summaries = summarizeWorkByEmployee([
+      {
+        ...task,
+        assignments: [
+          { employeeId: "e1", sharePercent: 3 },
+          { employeeId: "e2", sharePercent: 1 },
+        ],
+      },
+    ]);
+
+    expect(summaries.get("e1")?.estimatedHours).toBe(12);
+    expect(summaries.get("e2")).toEqual({
+      estimatedHours: 4,
+      loggedHours: 4,
+      remainingHours: 2,
+    });
+  });
+
+  it("складывает доли человека по всем его задачам", () => {
+    const summaries = summarizeWorkByEmployee([
+      { ...task, id: "t2", estimatedHours: 8, workLog: undefined },
+      {
+        ...task,
+        id: "t3",
+        workLog: undefined,
+        assignments: [
+          { employeeId: "e1", sharePercent: 50 },
+          { employeeId: "e2", sharePercent: 50 },
+        ],
+      },
+    ]);
+
+    expect(summaries.get("e1")).toEqual({
+      estimatedHours: 16,
+      loggedHours: 0,
+      remainingHours: 16,
+    });
+    expect(summaries.get("e2")?.remainingHours).toBe(8);
+  });
+});
+
+describe("getActualDatesForStatus", () => {
+  it("проставляет даты при смене статуса и очищает их при возврате", () => {
+    expect(getActualDatesForStatus({}, "completed", "2025-01-10")).toEqual({
+      actualStartDate: "2025-01-10",
+      actualEndDate: "2025-01-10",
+    });
+    expect(
+      getActualDatesForStatus(
+        { actualStartDate: "2025-01-02", actualEndDate: "2025-01-09" },
+        "in-progress",
+        "2025-01-10",
+      ),
+    ).toEqual({ actualStartDate: "2025-01-02", actualEndDate: undefined });
+    expect(
+      getActualDatesForStatus(
+        { actualStartDate: "2025-01-02" },
+        "pending",
+        "2025-01-10",
+      ),
+    ).toEqual({ actualStartDate: undefined, actualEndDate: undefined });
+  });
+});
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Card,
   CardContent,
@@ -28,6 +28,9 @@ import {
   MoreVertical,
   Download,
   Upload,
+  CalendarDays,
+  WandSparkles,
+  Save,
 } from "lucide-react";
 import {
   loadProjectData,
@@ -36,15 +39,37 @@ import {
   updateRelease,
   deleteRelease,
   addEmployeeToRelease,
-  updateEmployeeInRelease,
-  deleteEmployeeFromRelease,
+  updateEmployee,
+  setReleaseMember,
+  removeMemberFromRelease,
   addTaskToRelease,
   updateTaskInRelease,
   deleteTaskFromRelease,
+  removeTaskDependency,
+  logTaskTime,
   reorderTasksInRelease,
+  createHolidayCalendar,
+  updateHolidayCalendar,
+  deleteHolidayCalendar,
+  assignTasks,
+  createScenario,
+  updateScenario,
+  deleteScenario,
+  promoteScenario,
+  saveBaseline,
+  deleteBaseline,
 } from "@/lib/storage";
 import { type ProjectData } from "@/lib/types";
-import { formatDate } from "@/lib/date-utils";
+import {
+  DEFAULT_WORKING_WEEKDAYS,
+  formatDate,
+  toUTCDateOnly,
+} from "@/lib/date-utils";
+import { getActualDatesForStatus } from "@/lib/task-progress";
+import { getReleaseEmployees } from "@/lib/roster";
+import { getKnownSkills } from "@/lib/auto-assign";
+import { calculatePortfolioSchedule } from "@/lib/portfolio";
+import { captureBaseline } from "@/lib/baseline";
 import { ReleaseDialog } from "@/components/release-dialog";
 import { ReleaseSelector } from "@/components/release-selector";
 import { EmployeeDialog } from "@/components/employee-dialog";
@@ -53,7 +78,27 @@ import { TaskDialog } from "@/components/task-dialog";
 import { TaskList } from "@/components/task-list";
 import { GanttChart } from "@/components/gantt-chart";
 import { ImportExportDialog } from "@/components/import-export-dialog";
-import type { Release, Employee, Task } from "@/lib/types";
+import { HolidayCalendarDialog } from "@/components/holiday-calendar-dialog";
+import { ReleaseForecast } from "@/components/release-forecast";
+import { AutoAssignDialog } from "@/components/auto-assign-dialog";
+import { StrategyComparison } from "@/components/strategy-comparison";
+import { TargetFeasibility } from "@/components/target-feasibility";
+import { TargetGapRecommendations } from "@/components/target-gap-recommendations";
+import { ScenarioDialog } from "@/components/scenario-dialog";
+import { ScenarioPanel } from "@/components/scenario-panel";
+import { BaselineVariance } from "@/components/baseline-variance";
+import type {
+  Release,
+  Employee,
+  Task,
+  WorkLogEntry,
+  HolidayCalendar,
+  SchedulingStrategyId,
+  Scenario,
+  ScenarioChanges,
+} from "@/lib/types";
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
 export default function HomePage() {
   const [projectData, setProjectData] = useState<ProjectData | null>(null);
@@ -64,6 +109,11 @@ export default function HomePage() {
   const [showTaskDialog, setShowTaskDialog] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [showImportExportDialog, setShowImportExportDialog] = useState(false);
+  const [showHolidayCalendarDialog, setShowHolidayCalendarDialog] =
+    useState(false);
+  const [showAutoAssignDialog, setShowAutoAssignDialog] = useState(false);
+  const [showScenarioDialog, setShowScenarioDialog] = useState(false);
+  const [editingScenario, setEditingScenario] = useState<Scenario | null>(null);
 
   useEffect(() => {
     setProjectData(loadProjectData());
@@ -73,6 +123,21 @@ export default function HomePage() {
     setProjectData(loadProjectData());
   };
 
+  // The schedule every view of the plan shows, worked out once per change
+  const releases = projectData?.releases;
+  const roster = projectData?.roster;
+  const holidayCalendars = projectData?.holidayCalendars;
+  const portfolioSchedule = useMemo(
+    () =>
+      releases && roster
+        ? calculatePortfolioSchedule(releases, roster, {
+            today: new Date(),
+            holidayCalendars,
+          })
+        : null,
+    [releases, roster, holidayCalendars],
+  );
+
   const handleCreateRelease = (
     releaseData: Omit<Release, "id" | "createdAt" | "updatedAt">,
   ) => {
@@ -85,6 +150,11 @@ export default function HomePage() {
     // Copy over additional properties
     newRelease.targetEndDate = releaseData.targetEndDate;
     newRelease.customHolidays = releaseData.customHolidays;
+    newRelease.planningHorizonEnd = releaseData.planningHorizonEnd;
+    newRelease.priority = releaseData.priority;
+    newRelease.workingWeekdays = releaseData.workingWeekdays;
+    newRelease.holidayCalendarIds = releaseData.holidayCalendarIds;
+    newRelease.schedulingStrategy = releaseData.schedulingStrategy;
 
     const data = loadProjectData();
     data.releases.push(newRelease);
@@ -108,6 +178,15 @@ export default function HomePage() {
     refreshData();
   };
 
+  const handleSelectStrategy = (strategy: SchedulingStrategyId) => {
+    if (!projectData?.activeReleaseId) return;
+
+    updateRelease(projectData.activeReleaseId, {
+      schedulingStrategy: strategy === "priority" ? undefined : strategy,
+    });
+    refreshData();
+  };
+
   const handleReleaseChange = (releaseId: string) => {
     const data = loadProjectData();
     data.activeReleaseId = releaseId;
@@ -148,20 +227,41 @@ export default function HomePage() {
     }
   };
 
-  const handleAddEmployee = (employeeData: Omit<Employee, "id">) => {
+  const handleAddEmployee = (
+    employeeData: Omit<Employee, "id">,
+    allocationPercent: number,
+    rosterEmployeeId?: string,
+  ) => {
     if (!projectData?.activeReleaseId) return;
 
-    addEmployeeToRelease(projectData.activeReleaseId, employeeData);
+    if (rosterEmployeeId) {
+      updateEmployee(rosterEmployeeId, employeeData);
+      setReleaseMember(
+        projectData.activeReleaseId,
+        rosterEmployeeId,
+        allocationPercent,
+      );
+    } else {
+      addEmployeeToRelease(
+        projectData.activeReleaseId,
+        employeeData,
+        allocationPercent,
+      );
+    }
     refreshData();
   };
 
-  const handleUpdateEmployee = (employeeData: Omit<Employee, "id">) => {
+  const handleUpdateEmployee = (
+    employeeData: Omit<Employee, "id">,
+    allocationPercent: number,
+  ) => {
     if (!projectData?.activeReleaseId || !editingEmployee) return;
 
-    updateEmployeeInRelease(
+    updateEmployee(editingEmployee.id, employeeData);
+    setReleaseMember(
       projectData.activeReleaseId,
       editingEmployee.id,
-      employeeData,
+      allocationPercent,
     );
     setEditingEmployee(null);
     refreshData();
@@ -178,16 +278,20 @@ export default function HomePage() {
     if (
       confirm("Are you sure you want to remove this employee from the release?")
     ) {
-      deleteEmployeeFromRelease(projectData.activeReleaseId, employeeId);
+      removeMemberFromRelease(projectData.activeReleaseId, employeeId);
       refreshData();
     }
   };
 
-  const handleEmployeeDialogSave = (employeeData: Omit<Employee, "id">) => {
+  const handleEmployeeDialogSave = (
+    employeeData: Omit<Employee, "id">,
+    allocationPercent: number,
+    rosterEmployeeId?: string,
+  ) => {
     if (editingEmployee) {
-      handleUpdateEmployee(employeeData);
+      handleUpdateEmployee(employeeData, allocationPercent);
     } else {
-      handleAddEmployee(employeeData);
+      handleAddEmployee(employeeData, allocationPercent, rosterEmployeeId);
     }
   };
 
@@ -245,7 +349,43 @@ export default function HomePage() {
   const handleUpdateTaskStatus = (taskId: string, status: Task["status"]) => {
     if (!projectData?.activeReleaseId) return;
 
-    updateTaskInRelease(projectData.activeReleaseId, taskId, { status });
+    const task = projectData.releases
+      .find((r) => r.id === projectData.activeReleaseId)
+      ?.tasks.find((t) => t.id === taskId);
+    if (!task) return;
+
+    const today = toUTCDateOnly(new Date());
+    updateTaskInRelease(projectData.activeReleaseId, taskId, {
+      status,
+      ...getActualDatesForStatus(task, status, today),
+    });
+    refreshData();
+  };
+
+  const handleLogTime = (
+    taskId: string,
+    entry: Omit<WorkLogEntry, "id">,
+    remainingHours?: number,
+  ) => {
+    if (!projectData?.activeReleaseId) return;
+
+    logTaskTime(projectData.activeReleaseId, taskId, entry, remainingHours);
+    refreshData();
+  };
+
+  const handleApplyAssignments = (
+    assignments: { taskId: string; employeeId: string }[],
+  ) => {
+    if (!projectData?.activeReleaseId) return;
+
+    assignTasks(projectData.activeReleaseId, assignments);
+    refreshData();
+  };
+
+  const handleRemoveDependency = (taskId: string, blockerTaskId: string) => {
+    if (!projectData?.activeReleaseId) return;
+
+    removeTaskDependency(projectData.activeReleaseId, taskId, blockerTaskId);
     refreshData();
   };
 
@@ -266,6 +406,102 @@ export default function HomePage() {
     }
   };
 
+  const handleCreateHolidayCalendar = (
+    calendar: Omit<HolidayCalendar, "id">,
+  ) => {
+    createHolidayCalendar(calendar);
+    refreshData();
+  };
+
+  const handleUpdateHolidayCalendar = (
+    calendarId: string,
+    calendar: Omit<HolidayCalendar, "id">,
+  ) => {
+    updateHolidayCalendar(calendarId, calendar);
+    refreshData();
+  };
+
+  const handleDeleteHolidayCalendar = (calendarId: string) => {
+    deleteHolidayCalendar(calendarId);
+    refreshData();
+  };
+
+  const handleEditScenario = (scenario: Scenario) => {
+    setEditingScenario(scenario);
+    setShowScenarioDialog(true);
+  };
+
+  const handleScenarioDialogSave = (name: string, changes: ScenarioChanges) => {
+    if (!projectData?.activeReleaseId) return;
+
+    if (editingScenario) {
+      updateScenario(projectData.activeReleaseId, editingScenario.id, {
+        name,
+        changes,
+      });
+    } else {
+      createScenario(projectData.activeReleaseId, name, changes);
+    }
+    refreshData();
+  };
+
+  const handleScenarioDialogClose = (open: boolean) => {
+    setShowScenarioDialog(open);
+    if (!open) {
+      setEditingScenario(null);
+    }
+  };
+
+  const handleDeleteScenario = (scenarioId: string) => {
+    if (!projectData?.activeReleaseId) return;
+
+    if (confirm("Are you sure you want to delete this scenario?")) {
+      deleteScenario(projectData.activeReleaseId, scenarioId);
+      refreshData();
+    }
+  };
+
+  const handlePromoteScenario = (scenarioId: string) => {
+    if (!projectData?.activeReleaseId) return;
+
+    if (
+      confirm(
+        "Promote this scenario to the plan? Its changes replace the current tasks, team and holidays of the release.",
+      )
+    ) {
+      promoteScenario(projectData.activeReleaseId, scenarioId);
+      refreshData();
+    }
+  };
+
+  // Snapshots the dates the timeline shows right now
+  const handleSaveBaseline = () => {
+    if (!projectData?.activeReleaseId) return;
+
+    const release = projectData.releases.find(
+      (r) => r.id === projectData.activeReleaseId,
+    );
+    if (!release) return;
+
+    const ganttData = portfolioSchedule?.releases[release.id];
+    if (!ganttData) return;
+    saveBaseline(
+      release.id,
+      `Baseline ${formatDate(new Date())}`,
+      captureBaseline(release.tasks, ganttData),
+    );
+    refreshData();
+  };
+
+  const handleDeleteBaseline = (baselineId: string) => {
+    if (!projectData?.activeReleaseId) return;
+
+    if (confirm("Are you sure you want to delete this baseline?")) {
+      deleteBaseline(projectData.activeReleaseId, baselineId);
+      refreshData();
+    }
+  };
+
   const handleImportSuccess = () => {
     refreshData();
   };
@@ -284,6 +520,15 @@ export default function HomePage() {
   const activeRelease = projectData.releases.find(
     (r) => r.id === projectData.activeReleaseId,
   );
+  const activeGanttData = activeRelease
+    ? portfolioSchedule?.releases[activeRelease.id]
+    : undefined;
+  const activeEmployees = activeRelease
+    ? getReleaseEmployees(activeRelease, projectData.roster)
+    : [];
+  const activeHolidayCalendars = projectData.holidayCalendars.filter((c) =>
+    activeRelease?.holidayCalendarIds?.includes(c.id),
+  );
 
   return (
     <div className="min-h-screen bg-background">
@@ -313,6 +558,12 @@ export default function HomePage() {
                     <Download className="mr-2 h-4 w-4" />
                     Import / Export Data
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => setShowHolidayCalendarDialog(true)}
+                  >
+                    <CalendarDays className="mr-2 h-4 w-4" />
+                    Holiday Calendars
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
               <Button
@@ -373,7 +624,7 @@ export default function HomePage() {
               </Button>
             </div>
           </div>
-        ) : !activeRelease ? (
+        ) : !activeRelease || !activeGanttData ? (
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
@@ -422,7 +673,7 @@ export default function HomePage() {
                           Team Members
                         </p>
                         <p className="font-medium">
-                          {activeRelease.employees.length}
+                          {activeRelease.members.length}
                         </p>
                       </div>
                     </div>
@@ -439,8 +690,33 @@ export default function HomePage() {
                     </div>
                   </div>
 
+                  {(activeRelease.workingWeekdays ||
+                    activeHolidayCalendars.length > 0) && (
+                    <div className="border-t pt-4 mb-4 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+                      <div>
+                        <span className="text-muted-foreground">
+                          Work week:{" "}
+                        </span>
+                        {(
+                          activeRelease.workingWeekdays ??
+                          DEFAULT_WORKING_WEEKDAYS
+                        )
+                          .map((day) => WEEKDAY_NAMES[day])
+                          .join(", ")}
+                      </div>
+                      {activeHolidayCalendars.length > 0 && (
+                        <div>
+                          <span className="text-muted-foreground">
+                            Holiday calendars:{" "}
+                          </span>
+                          {activeHolidayCalendars.map((c) => c.name).join(", ")}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {activeRelease.customHolidays.length > 0 && (
-                    <div className="border-t pt-4">
+                    <div className="border-t pt-4 mb-4">
                       <h4 className="text-sm font-medium mb-2">
                         Custom Holidays
                       </h4>
@@ -456,16 +732,41 @@ export default function HomePage() {
                       </div>
                     </div>
                   )}
+
+                  <TargetFeasibility ganttData={activeGanttData} />
+
+                  <TargetGapRecommendations
+                    release={activeRelease}
+                    releases={projectData.releases}
+                    roster={projectData.roster}
+                    holidayCalendars={projectData.holidayCalendars}
+                  />
+
+                  <ReleaseForecast
+                    release={activeRelease}
+                    releases={projectData.releases}
+                    roster={projectData.roster}
+                    holidayCalendars={projectData.holidayCalendars}
+                  />
+
+                  <StrategyComparison
+                    release={activeRelease}
+                    releases={projectData.releases}
+                    roster={projectData.roster}
+                    holidayCalendars={projectData.holidayCalendars}
+                    onSelectStrategy={handleSelectStrategy}
+                  />
                 </CardContent>
               </Card>
             </section>
 
             {/* Tabbed Content */}
             <Tabs defaultValue="team" className="space-y-6">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="team">Team Management</TabsTrigger>
                 <TabsTrigger value="tasks">Tasks</TabsTrigger>
                 <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
               </TabsList>
 
               <TabsContent value="team" className="space-y-6">
@@ -488,7 +789,10 @@ export default function HomePage() {
                 </div>
 
                 <EmployeeList
-                  employees={activeRelease.employees}
+                  employees={activeEmployees}
+                  members={activeRelease.members}
+                  tasks={activeRelease.tasks}
+                  holidayCalendars={projectData.holidayCalendars}
                   onEditEmployee={handleEditEmployee}
                   onDeleteEmployee={handleDeleteEmployee}
                 />
@@ -502,22 +806,37 @@ export default function HomePage() {
                       Manage project tasks and dependencies
                     </p>
                   </div>
-                  <Button
-                    className="gap-2"
-                    onClick={() => setShowTaskDialog(true)}
-                  >
-                    <Plus className="h-4 w-4" />
-                    Add Task
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      className="gap-2"
+                      onClick={() => setShowAutoAssignDialog(true)}
+                      disabled={activeEmployees.length === 0}
+                    >
+                      <WandSparkles className="h-4 w-4" />
+                      Auto-assign
+                    </Button>
+                    <Button
+                      className="gap-2"
+                      onClick={() => setShowTaskDialog(true)}
+                    >
+                      <Plus className="h-4 w-4" />
+                      Add Task
+                    </Button>
+                  </div>
                 </div>
 
                 <TaskList
                   tasks={activeRelease.tasks}
-                  employees={activeRelease.employees}
+                  employees={activeEmployees}
+                  otherReleases={projectData.releases.filter(
+                    (r) => r.id !== activeRelease.id,
+                  )}
                   onEditTask={handleEditTask}
                   onDeleteTask={handleDeleteTask}
                   onReorderTasks={handleReorderTasks}
                   onUpdateTaskStatus={handleUpdateTaskStatus}
+                  onLogTime={handleLogTime}
                 />
               </TabsContent>
 
@@ -531,15 +850,56 @@ export default function HomePage() {
                       View Gantt chart and project schedule
                     </p>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <BarChart3 className="h-4 w-4 text-muted-foreground" />
-                    <span className="text-sm text-muted-foreground">
-                      Auto-calculated based on capacity and dependencies
-                    </span>
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <BarChart3 className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-sm text-muted-foreground">
+                        Auto-calculated based on capacity and dependencies
+                      </span>
+                    </div>
+                    <Button
+                      variant="outline"
+                      onClick={handleSaveBaseline}
+                      className="gap-2"
+                      disabled={activeRelease.tasks.length === 0}
+                    >
+                      <Save className="h-4 w-4" />
+                      Save Baseline
+                    </Button>
                   </div>
                 </div>
 
-                <GanttChart release={activeRelease} />
+                <GanttChart
+                  release={activeRelease}
+                  ganttData={activeGanttData}
+                  releases={projectData.releases}
+                  roster={projectData.roster}
+                  holidayCalendars={projectData.holidayCalendars}
+                  onRemoveDependency={handleRemoveDependency}
+                />
+
+                <BaselineVariance
+                  release={activeRelease}
+                  ganttData={activeGanttData}
+                  releases={projectData.releases}
+                  roster={projectData.roster}
+                  holidayCalendars={projectData.holidayCalendars}
+                  onDeleteBaseline={handleDeleteBaseline}
+                />
+              </TabsContent>
+
+              <TabsContent value="scenarios" className="space-y-6">
+                <ScenarioPanel
+                  release={activeRelease}
+                  ganttData={activeGanttData}
+                  releases={projectData.releases}
+                  roster={projectData.roster}
+                  holidayCalendars={projectData.holidayCalendars}
+                  onCreateScenario={() => setShowScenarioDialog(true)}
+                  onEditScenario={handleEditScenario}
+                  onDeleteScenario={handleDeleteScenario}
+                  onPromoteScenario={handlePromoteScenario}
+                />
               </TabsContent>
             </Tabs>
           </div>
@@ -550,6 +910,7 @@ export default function HomePage() {
         open={showReleaseDialog}
         onOpenChange={handleReleaseDialogClose}
         release={editingRelease}
+        holidayCalendars={projectData.holidayCalendars}
         onSave={handleReleaseDialogSave}
       />
 
@@ -557,6 +918,16 @@ export default function HomePage() {
         open={showEmployeeDialog}
         onOpenChange={handleEmployeeDialogClose}
         employee={editingEmployee}
+        allocationPercent={
+          activeRelease?.members.find(
+            (m) => m.employeeId === editingEmployee?.id,
+          )?.allocationPercent
+        }
+        roster={projectData.roster.filter(
+          (e) => !activeRelease?.members.some((m) => m.employeeId === e.id),
+        )}
+        holidayCalendars={projectData.holidayCalendars}
+        skillSuggestions={getKnownSkills(projectData.roster)}
         onSave={handleEmployeeDialogSave}
       />
 
@@ -564,8 +935,11 @@ export default function HomePage() {
         open={showTaskDialog}
         onOpenChange={handleTaskDialogClose}
         task={editingTask}
-        employees={activeRelease?.employees || []}
+        employees={activeEmployees}
         existingTasks={activeRelease?.tasks || []}
+        otherReleases={
+          projectData?.releases.filter((r) => r.id !== activeRelease?.id) || []
+        }
         onSave={handleTaskDialogSave}
       />
 
@@ -574,6 +948,38 @@ export default function HomePage() {
         onOpenChange={setShowImportExportDialog}
         onImportSuccess={handleImportSuccess}
       />
+
+      <HolidayCalendarDialog
+        open={showHolidayCalendarDialog}
+        onOpenChange={setShowHolidayCalendarDialog}
+        calendars={projectData.holidayCalendars}
+        onCreate={handleCreateHolidayCalendar}
+        onUpdate={handleUpdateHolidayCalendar}
+        onDelete={handleDeleteHolidayCalendar}
+      />
+
+      {activeRelease && (
+        <AutoAssignDialog
+          open={showAutoAssignDialog}
+          onOpenChange={setShowAutoAssignDialog}
+          release={activeRelease}
+          releases={projectData.releases}
+          roster={projectData.roster}
+          holidayCalendars={projectData.holidayCalendars}
+          onApply={handleApplyAssignments}
+        />
+      )}
+
+      {activeRelease && (
+        <ScenarioDialog
+          open={showScenarioDialog}
+          onOpenChange={handleScenarioDialogClose}
+          release={activeRelease}
+          roster={projectData.roster}
+          scenario={editingScenario}
+          onSave={handleScenarioDialogSave}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, WandSparkles } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { autoAssignSteps, type AutoAssignResult } from "@/lib/auto-assign";
+import { runInSlices, type StepProgress } from "@/lib/long-running";
+import type { Employee, HolidayCalendar, Release } from "@/lib/types";
+
+interface AutoAssignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  release: Release;
+  releases: Release[]; // All releases, scheduled together as in the chart
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+  onApply: (assignments: { taskId: string; employeeId: string }[]) => void;
+}
+
+const UNASSIGNABLE_REASONS = {
+  no_skill_match: "Nobody on the release has all the required skills",
+  no_capacity: "No qualified member has capacity for it",
+};
+
+export function AutoAssignDialog({
+  open,
+  onOpenChange,
+  release,
+  releases,
+  roster,
+  holidayCalendars,
+  onApply,
+}: AutoAssignDialogProps) {
+  // Every candidate is a portfolio reschedule, so the proposals are worked
+  // out a slice at a time while the dialog is open
+  const [result, setResult] = useState<AutoAssignResult | null>(null);
+  const [progress, setProgress] = useState<StepProgress | null>(null);
+
+  useEffect(() => {
+    setResult(null);
+    if (!open) {
+      setProgress(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setProgress({ done: 0, total: 1 });
+    runInSlices(
+      autoAssignSteps(release, releases, roster, {
+        today: new Date(),
+        holidayCalendars,
+      }),
+      { signal: controller.signal, onProgress: setProgress },
+    ).then((proposed) => {
+      if (controller.signal.aborted) return;
+      setResult(proposed);
+      setProgress(null);
+    });
+    return () => controller.abort();
+  }, [open, release, releases, roster, holidayCalendars]);
+  const [acceptedTaskIds, setAcceptedTaskIds] = useState<Set<string>>(
+    new Set(),
+  );
+
+  useEffect(() => {
+    setAcceptedTaskIds(
+      new Set(result?.proposals.map((proposal) => proposal.taskId)),
+    );
+  }, [result]);
+
+  const getTaskName = (taskId: string) =>
+    release.tasks.find((t) => t.id === taskId)?.name ?? "Unknown Task";
+  const getEmployeeName = (employeeId: string) =>
+    roster.find((e) => e.id === employeeId)?.name ?? "Unknown Employee";
+
+  const toggleAccepted = (taskId: string) => {
+    setAcceptedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(
+      result.proposals
+        .filter((proposal) => acceptedTaskIds.has(proposal.taskId))
+        .map(({ taskId, employeeId }) => ({ taskId, employeeId })),
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif flex items-center gap-2">
+            <WandSparkles className="h-5 w-5" />
+            Auto-assign Tasks
+          </DialogTitle>
+          <DialogDescription>
+            Unassigned tasks go to the member with the required skills who lets
+            the release finish earliest. Pick the assignments to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {progress && (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Finding assignees… {progress.done}/{progress.total}
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Release date now</div>
+                <div className="font-medium">
+                  {result.currentReleaseDate
+                    ? formatDate(result.currentReleaseDate)
+                    : "Not scheduled"}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">
+                  With all assignments
+                </div>
+                <div className="font-medium">
+                  {result.proposedReleaseDate
+                    ? formatDate(result.proposedReleaseDate)
+                    : "Not scheduled"}
+                </div>
+              </div>
+            </div>
+
+            {result.proposals.length === 0 &&
+              result.unassignable.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Every open task already has an assignee.
+                </p>
+              )}
+
+            {result.proposals.length > 0 && (
+              <div className="space-y-2">
+                {result.proposals.map((proposal) => {
+                  const task = release.tasks.find(
+                    (t) => t.id === proposal.taskId,
+                  );
+                  return (
+                    <div
+                      key={proposal.taskId}
+                      className="flex items-start gap-3 p-3 border rounded-lg"
+                    >
+                      <Checkbox
+                        id={`proposal-${proposal.taskId}`}
+                        checked={acceptedTaskIds.has(proposal.taskId)}
+                        onCheckedChange={() => toggleAccepted(proposal.taskId)}
+                      />
+                      <div className="flex-1 space-y-1">
+                        <Label
+                          htmlFor={`proposal-${proposal.taskId}`}
+                          className="font-medium cursor-pointer"
+                        >
+                          {getTaskName(proposal.taskId)}
+                        </Label>
+                        <div className="text-sm text-muted-foreground">
+                          → {getEmployeeName(proposal.employeeId)}
+                          {proposal.startDate &&
+                            proposal.endDate &&
+                            ` • ${formatDate(proposal.startDate)} - ${formatDate(proposal.endDate)}`}
+                        </div>
+                        {task?.requiredSkills?.length ? (
+                          <div className="flex flex-wrap gap-1">
+                            {task.requiredSkills.map((skill) => (
+                              <Badge
+                                key={skill}
+                                variant="secondary"
+                                className="text-xs"
+                              >
+                                {skill}
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {result.unassignable.length > 0 && (
+              <div className="space-y-2">
+                {result.unassignable.map(({ taskId, reason }) => (
+                  <div
+                    key={taskId}
+                    className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400"
+                  >
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      {getTaskName(taskId)}: {UNASSIGNABLE_REASONS[reason]}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={acceptedTaskIds.size === 0}>
+            Assign {acceptedTaskIds.size} Task
+            {acceptedTaskIds.size === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, History, Trash2 } from "lucide-react";
+import { formatDate, toUTCDateOnly } from "@/lib/date-utils";
+import { getReleaseCalendar } from "@/lib/holiday-calendars";
+import {
+  calculateVariance,
+  findSlipCauses,
+  type SlipCause,
+} from "@/lib/baseline";
+import type {
+  Employee,
+  GanttData,
+  HolidayCalendar,
+  Release,
+} from "@/lib/types";
+
+interface BaselineVarianceProps {
+  release: Release;
+  ganttData: GanttData; // The release as scheduled in the chart
+  releases: Release[]; // All releases, scheduled together as in the chart
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+  onDeleteBaseline: (baselineId: string) => void;
+}
+
+// Causes and the plan and baseline they were found for
+interface CausesRun {
+  baselineId: string;
+  causes: SlipCause[];
+  releases: Release[];
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+const CAUSE_LABELS: Record<SlipCause["kind"], string> = {
+  estimate: "Estimate changed",
+  assignee: "Reassigned",
+  dependencies: "Dependencies changed",
+  added: "Added",
+  removed: "Removed",
+};
+
+// "+3", "-1" or "0" working days; blank without dates
+function formatSlip(days: number | null): string {
+  if (days === null) return "";
+  return days > 0 ? `+${days}` : `${days}`;
+}
+
+function toCsvValue(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function BaselineVariance({
+  release,
+  ganttData,
+  releases,
+  roster,
+  holidayCalendars,
+  onDeleteBaseline,
+}: BaselineVarianceProps) {
+  const baselines = useMemo(() => release.baselines || [], [release]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const baseline =
+    baselines.find((b) => b.id === selectedId) ??
+    baselines[baselines.length - 1] ??
+    null;
+
+  const variance = useMemo(() => {
+    if (!baseline) return null;
+    return calculateVariance(
+      baseline,
+      ganttData,
+      getReleaseCalendar(release, holidayCalendars),
+    );
+  }, [baseline, release, ganttData, holidayCalendars]);
+
+  // A portfolio reschedule per change, so they only run when asked for
+  const [run, setRun] = useState<CausesRun | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!baseline || !variance) return null;
+
+  const handleFindCauses = () => {
+    setRunning(true);
+    // Lets the button show progress before the search blocks
+    setTimeout(() => {
+      setRun({
+        baselineId: baseline.id,
+        causes: findSlipCauses(release, releases, roster, baseline, {
+          today: new Date(),
+          holidayCalendars,
+        }),
+        releases,
+        roster,
+        holidayCalendars,
+      });
+      setRunning(false);
+    }, 0);
+  };
+
+  // Baseline ids are unique across releases, so this also drops causes
+  // found for another release
+  const completed = run?.baselineId === baseline.id ? run : null;
+  const outdated =
+    !!completed &&
+    (completed.releases !== releases ||
+      completed.roster !== roster ||
+      completed.holidayCalendars !== holidayCalendars);
+
+  const moved = variance.tasks.filter(
+    (t) => t.change || (t.endSlip ?? 0) !== 0 || (t.startSlip ?? 0) !== 0,
+  );
+
+  const handleDownloadCsv = () => {
+    const rows = [
+      [
+        "Task",
+        "Baseline start",
+        "Baseline end",
+        "Current start",
+        "Current end",
+        "Start slip (working days)",
+        "End slip (working days)",
+        "Change",
+      ],
+      [
+        "Release",
+        "",
+        baseline.releaseDate ?? "",
+        "",
+        (variance.releaseDate && toUTCDateOnly(variance.releaseDate)) ?? "",
+        "",
+        formatSlip(variance.releaseSlip),
+        "",
+      ],
+      ...variance.tasks.map((task) => [
+        task.name,
+        (task.baselineStart && toUTCDateOnly(task.baselineStart)) ?? "",
+        (task.baselineEnd && toUTCDateOnly(task.baselineEnd)) ?? "",
+        (task.startDate && toUTCDateOnly(task.startDate)) ?? "",
+        (task.endDate && toUTCDateOnly(task.endDate)) ?? "",
+        formatSlip(task.startSlip),
+        formatSlip(task.endSlip),
+        task.change ?? "",
+      ]),
+    ];
+    const csv = rows.map((row) => row.map(toCsvValue).join(",")).join("\n");
+
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${release.name}-variance-${toUTCDateOnly(new Date())}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Variance
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={baseline.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {baselines.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={handleDownloadCsv}
+            >
+              <Download className="h-4 w-4" />
+              CSV
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+              onClick={() => onDeleteBaseline(baseline.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-x-8 gap-y-2 text-sm">
+          <div>
+            <span className="text-muted-foreground">Baseline: </span>
+            {variance.baselineDate
+              ? formatDate(variance.baselineDate)
+              : "Not scheduled"}
+          </div>
+          <div>
+            <span className="text-muted-foreground">Current: </span>
+            {variance.releaseDate
+              ? formatDate(variance.releaseDate)
+              : "Not scheduled"}
+          </div>
+          {variance.releaseSlip !== null && (
+            <Badge
+              variant={variance.releaseSlip > 0 ? "destructive" : "secondary"}
+            >
+              {variance.releaseSlip === 0
+                ? "On the baseline"
+                : `${formatSlip(variance.releaseSlip)} working day${Math.abs(variance.releaseSlip) > 1 ? "s" : ""}`}
+            </Badge>
+          )}
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <p className="font-medium">What moved the release date</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleFindCauses}
+              disabled={running}
+            >
+              {running ? "Searching…" : completed ? "Search again" : "Search"}
+            </Button>
+          </div>
+          <p className="text-muted-foreground">
+            Each change since the baseline is undone on its own, scheduling this
+            release together with the releases ahead of it, as in the chart.
+          </p>
+          {outdated && (
+            <p className="text-xs text-muted-foreground">
+              The plan changed since this search; search again to catch up.
+            </p>
+          )}
+          {!completed ? null : completed.causes.length === 0 ? (
+            <p className="text-muted-foreground">
+              No single task change moves the release date.
+            </p>
+          ) : (
+            completed.causes.map((cause) => (
+              <div
+                key={`${cause.kind}-${cause.taskId}`}
+                className="flex items-center justify-between gap-3"
+              >
+                <span className="truncate">
+                  <span className="text-muted-foreground">
+                    {CAUSE_LABELS[cause.kind]}:
+                  </span>{" "}
+                  {cause.name}
+                </span>
+                <Badge
+                  variant={cause.days > 0 ? "destructive" : "default"}
+                  className="text-xs flex-shrink-0"
+                >
+                  {formatSlip(cause.days)}d
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">Task slip</p>
+          {moved.length === 0 ? (
+            <p className="text-muted-foreground">
+              Every task is where the baseline had it.
+            </p>
+          ) : (
+            moved.map((task) => (
+              <div
+                key={task.taskId}
+                className="flex items-center justify-between gap-3"
+              >
+                <span className="truncate">{task.name}</span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-muted-foreground">
+                    {task.baselineEnd ? formatDate(task.baselineEnd) : "—"} →{" "}
+                    {task.endDate ? formatDate(task.endDate) : "—"}
+                  </span>
+                  {task.change ? (
+                    <Badge variant="outline" className="text-xs">
+                      {task.change === "added" ? "Added" : "Removed"}
+                    </Badge>
+                  ) : (
+                    task.endSlip !== null && (
+                      <Badge
+                        variant={task.endSlip > 0 ? "destructive" : "default"}
+                        className="text-xs"
+                      >
+                        {formatSlip(task.endSlip)}d
+                      </Badge>
+                    )
+                  )}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
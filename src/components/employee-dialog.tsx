@@ -12,54 +12,161 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { CalendarIcon, Plus, Trash2, User } from "lucide-react";
-import type { Employee, CapacityPeriod } from "@/lib/types";
+import type {
+  Employee,
+  CapacityPeriod,
+  HolidayCalendar,
+  OverheadBlock,
+  WeekdayHours,
+} from "@/lib/types";
+import {
+  findCapacityPeriodOverlaps,
+  getCapacityTimeline,
+  getWeeklyHours,
+} from "@/lib/capacity";
+import { formatDate, toUTCDateOnly } from "@/lib/date-utils";
+import { SkillsInput } from "@/components/skills-input";
+
+// Editor order, Monday first, as indexes into WeekdayHours
+const WEEKDAYS = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+const WEEKLY_PRESETS: { label: string; hours: WeekdayHours }[] = [
+  { label: "Mon–Fri 8h", hours: [0, 8, 8, 8, 8, 8, 0] },
+  { label: "Mon–Thu 8h, Fri 4h", hours: [0, 8, 8, 8, 8, 4, 0] },
+  { label: "4-day week", hours: [0, 8, 8, 8, 8, 0, 0] },
+];
+
+// Same hours every weekday, weekends off
+function toWeekdayHours(hoursPerDay: number): WeekdayHours {
+  return [0, 1, 2, 3, 4, 5, 6].map((day) =>
+    day === 0 || day === 6 ? 0 : hoursPerDay,
+  );
+}
 
 interface EmployeeDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   employee?: Employee | null;
-  onSave: (employee: Omit<Employee, "id">) => void;
+  allocationPercent?: number; // Of `employee` in the active release
+  roster: Employee[]; // People who can be added instead of creating a new one
+  holidayCalendars: HolidayCalendar[];
+  skillSuggestions?: string[]; // Skills used anywhere on the roster
+  onSave: (
+    employee: Omit<Employee, "id">,
+    allocationPercent: number,
+    rosterEmployeeId?: string,
+  ) => void;
 }
 
 export function EmployeeDialog({
   open,
   onOpenChange,
   employee,
+  allocationPercent: initialAllocation = 100,
+  roster,
+  holidayCalendars,
+  skillSuggestions = [],
   onSave,
 }: EmployeeDialogProps) {
+  const [rosterEmployeeId, setRosterEmployeeId] = useState<string | null>(null);
   const [name, setName] = useState("");
   const [position, setPosition] = useState("");
   const [capacityPeriods, setCapacityPeriods] = useState<CapacityPeriod[]>([]);
+  const [defaultHoursPerDay, setDefaultHoursPerDay] = useState("");
+  const [defaultWeekdayHours, setDefaultWeekdayHours] = useState<
+    WeekdayHours | undefined
+  >();
+  const [allocationPercent, setAllocationPercent] = useState(100);
+  const [holidayCalendarIds, setHolidayCalendarIds] = useState<string[]>([]);
+  const [focusPercent, setFocusPercent] = useState("");
+  const [overhead, setOverhead] = useState<OverheadBlock[]>([]);
+  const [skills, setSkills] = useState<string[]>([]);
+
+  const loadEmployee = (source: Employee | null | undefined) => {
+    setName(source?.name ?? "");
+    setPosition(source?.position ?? "");
+    setCapacityPeriods(source?.capacityPeriods || []);
+    setDefaultHoursPerDay(source?.defaultHoursPerDay?.toString() ?? "");
+    setDefaultWeekdayHours(source?.defaultWeekdayHours);
+    setHolidayCalendarIds(source?.holidayCalendarIds ?? []);
+    setFocusPercent(
+      source?.focusFactor !== undefined
+        ? Math.round(source.focusFactor * 100).toString()
+        : "",
+    );
+    setOverhead(source?.overhead || []);
+    setSkills(source?.skills || []);
+  };
 
   useEffect(() => {
-    if (!open) {
-      setName("");
-      setPosition("");
-      setCapacityPeriods([]);
-      return;
-    }
-
-    if (employee) {
-      setName(employee?.name ?? "");
-      setPosition(employee?.position ?? "");
-      setCapacityPeriods(employee?.capacityPeriods || []);
-    } else {
-      setName("");
-      setPosition("");
-      setCapacityPeriods([]);
-    }
-  }, [employee, open]);
+    setRosterEmployeeId(null);
+    setAllocationPercent(open && employee ? initialAllocation : 100);
+    loadEmployee(open ? employee : null);
+  }, [employee, open, initialAllocation]);
+
+  const handleRosterSelect = (value: string) => {
+    const selected = roster.find((e) => e.id === value);
+    setRosterEmployeeId(selected ? selected.id : null);
+    loadEmployee(selected);
+  };
+
+  const invalidPeriodIds = new Set(
+    capacityPeriods
+      .filter((p) => !p.startDate || !p.endDate || p.endDate < p.startDate)
+      .map((p) => p.id),
+  );
+  const overlaps = findCapacityPeriodOverlaps(
+    capacityPeriods.filter((p) => !invalidPeriodIds.has(p.id)),
+  );
+  const periodLabel = (periodId: string) =>
+    `Period ${capacityPeriods.findIndex((p) => p.id === periodId) + 1}`;
+  const canSave =
+    !!name.trim() && !!position.trim() && invalidPeriodIds.size === 0;
 
   const handleSave = () => {
-    if (!name.trim() || !position.trim()) return;
+    if (!canSave) return;
 
-    onSave({
-      name: name.trim(),
-      position: position.trim(),
-      capacityPeriods,
-    });
+    onSave(
+      {
+        name: name.trim(),
+        position: position.trim(),
+        capacityPeriods,
+        defaultHoursPerDay:
+          defaultHoursPerDay === ""
+            ? undefined
+            : Math.max(Number.parseFloat(defaultHoursPerDay) || 0, 0),
+        defaultWeekdayHours,
+        holidayCalendarIds:
+          holidayCalendarIds.length > 0 ? holidayCalendarIds : undefined,
+        focusFactor:
+          focusPercent === ""
+            ? undefined
+            : Math.min(Math.max(Number.parseFloat(focusPercent) || 0, 0), 100) /
+              100,
+        overhead: overhead.length > 0 ? overhead : undefined,
+        skills: skills.length > 0 ? skills : undefined,
+      },
+      Math.min(Math.max(allocationPercent, 0), 100),
+      rosterEmployeeId ?? undefined,
+    );
 
     onOpenChange(false);
   };
@@ -67,10 +174,8 @@ export function EmployeeDialog({
   const addCapacityPeriod = () => {
     const newPeriod: CapacityPeriod = {
       id: crypto.randomUUID(),
-      startDate: new Date().toISOString().split("T")[0],
-      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0], // 30 days from now
+      startDate: toUTCDateOnly(new Date()),
+      endDate: toUTCDateOnly(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)), // 30 days from now
       hoursPerDay: 8,
       description: "",
     };
@@ -91,6 +196,36 @@ export function EmployeeDialog({
     setCapacityPeriods(capacityPeriods.filter((_, i) => i !== index));
   };
 
+  const addOverheadBlock = () => {
+    setOverhead([
+      ...overhead,
+      {
+        id: crypto.randomUUID(),
+        description: "",
+        weekdays: [1, 2, 3, 4, 5],
+        hoursPerDay: 0.5,
+      },
+    ]);
+  };
+
+  const updateOverheadBlock = (
+    index: number,
+    updates: Partial<OverheadBlock>,
+  ) => {
+    setOverhead(
+      overhead.map((block, i) =>
+        i === index ? { ...block, ...updates } : block,
+      ),
+    );
+  };
+
+  const weeklyOverhead = overhead.reduce(
+    (sum, block) =>
+      sum +
+      (block.hoursPerDay * block.weekdays.length) / (block.everyWeeks || 1),
+    0,
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -107,6 +242,35 @@ export function EmployeeDialog({
         </DialogHeader>
 
         <div className="space-y-6">
+          {!employee && roster.length > 0 && (
+            <div className="space-y-2">
+              <Label>From Roster</Label>
+              <Select
+                value={rosterEmployeeId || "new"}
+                onValueChange={handleRosterSelect}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">New person</SelectItem>
+                  {roster.map((person) => (
+                    <SelectItem key={person.id} value={person.id}>
+                      {person.name} — {person.position}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(employee || rosterEmployeeId) && (
+            <p className="text-sm text-muted-foreground">
+              Name, position and capacity belong to the roster and change for
+              every release this person works on.
+            </p>
+          )}
+
           {/* Basic Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -130,6 +294,261 @@ export function EmployeeDialog({
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="skills">Skills</Label>
+            <SkillsInput
+              id="skills"
+              value={skills}
+              onChange={setSkills}
+              suggestions={skillSuggestions}
+            />
+            <p className="text-xs text-muted-foreground">
+              Auto-assign only gives people tasks whose required skills they all
+              have.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="default-hours">Default Hours per Day</Label>
+              {defaultWeekdayHours ? (
+                <WeeklyPatternEditor
+                  value={defaultWeekdayHours}
+                  onChange={setDefaultWeekdayHours}
+                />
+              ) : (
+                <Input
+                  id="default-hours"
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  value={defaultHoursPerDay}
+                  onChange={(e) => setDefaultHoursPerDay(e.target.value)}
+                  placeholder="None"
+                />
+              )}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="default-weekly"
+                  checked={!!defaultWeekdayHours}
+                  onCheckedChange={(checked) =>
+                    setDefaultWeekdayHours(
+                      checked
+                        ? toWeekdayHours(
+                            Number.parseFloat(defaultHoursPerDay) || 0,
+                          )
+                        : undefined,
+                    )
+                  }
+                />
+                <Label htmlFor="default-weekly" className="cursor-pointer">
+                  Weekly pattern
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Used on days no capacity period covers.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="allocation">Allocation to This Release (%)</Label>
+              <Input
+                id="allocation"
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+                value={allocationPercent}
+                onChange={(e) =>
+                  setAllocationPercent(Number.parseFloat(e.target.value) || 0)
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Share of their hours this release may plan with.
+              </p>
+            </div>
+          </div>
+
+          {/* Location */}
+          {holidayCalendars.length > 0 && (
+            <div className="space-y-2">
+              <Label>Public Holidays</Label>
+              <p className="text-xs text-muted-foreground">
+                Calendars of where this person is based. Only they are off on
+                these days, on top of the release&apos;s holidays.
+              </p>
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {holidayCalendars.map((calendar) => (
+                  <div key={calendar.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`employee-calendar-${calendar.id}`}
+                      checked={holidayCalendarIds.includes(calendar.id)}
+                      onCheckedChange={(checked) =>
+                        setHolidayCalendarIds(
+                          checked
+                            ? [...holidayCalendarIds, calendar.id]
+                            : holidayCalendarIds.filter(
+                                (id) => id !== calendar.id,
+                              ),
+                        )
+                      }
+                    />
+                    <Label
+                      htmlFor={`employee-calendar-${calendar.id}`}
+                      className="cursor-pointer font-normal"
+                    >
+                      {calendar.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Focus & Overhead */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="text-base">Focus &amp; Overhead</Label>
+                <p className="text-sm text-muted-foreground">
+                  Recurring meetings, support or on-call time is taken off the
+                  plannable hours, then the focus factor applies to the rest.
+                </p>
+              </div>
+              <Button
+                onClick={addOverheadBlock}
+                variant="outline"
+                size="sm"
+                className="gap-2 bg-transparent"
+              >
+                <Plus className="h-4 w-4" />
+                Add Overhead
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Label htmlFor="focus-factor" className="whitespace-nowrap">
+                Focus Factor (%)
+              </Label>
+              <Input
+                id="focus-factor"
+                type="number"
+                min="0"
+                max="100"
+                step="5"
+                className="w-28"
+                value={focusPercent}
+                onChange={(e) => setFocusPercent(e.target.value)}
+                placeholder="100"
+              />
+              {overhead.length > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  Overhead ≈ {Math.round(weeklyOverhead * 10) / 10}h/week
+                </span>
+              )}
+            </div>
+
+            {overhead.map((block, index) => (
+              <div
+                key={block.id}
+                className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3 rounded-lg border p-3"
+              >
+                <div className="space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr] gap-2">
+                    <Input
+                      value={block.description}
+                      onChange={(e) =>
+                        updateOverheadBlock(index, {
+                          description: e.target.value,
+                        })
+                      }
+                      placeholder="e.g., Standup, Support rotation"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.25"
+                      value={block.hoursPerDay}
+                      onChange={(e) =>
+                        updateOverheadBlock(index, {
+                          hoursPerDay: Math.max(
+                            Number.parseFloat(e.target.value) || 0,
+                            0,
+                          ),
+                        })
+                      }
+                      title="Hours per day"
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={block.everyWeeks ?? 1}
+                      onChange={(e) =>
+                        updateOverheadBlock(index, {
+                          everyWeeks: Math.max(
+                            Number.parseInt(e.target.value) || 1,
+                            1,
+                          ),
+                        })
+                      }
+                      title="Every N weeks"
+                    />
+                    <Input
+                      type="date"
+                      value={block.startDate ?? ""}
+                      onChange={(e) =>
+                        updateOverheadBlock(index, {
+                          startDate: e.target.value || undefined,
+                        })
+                      }
+                      title="Starting from"
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {WEEKDAYS.map(({ index: day, label }) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={
+                          block.weekdays.includes(day) ? "default" : "outline"
+                        }
+                        className="h-7 w-11 text-xs"
+                        onClick={() =>
+                          updateOverheadBlock(index, {
+                            weekdays: block.weekdays.includes(day)
+                              ? block.weekdays.filter((d) => d !== day)
+                              : [...block.weekdays, day].sort((a, b) => a - b),
+                          })
+                        }
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {block.hoursPerDay}h on each selected day
+                      {(block.everyWeeks ?? 1) > 1 &&
+                        `, every ${block.everyWeeks} weeks${block.startDate ? "" : " (set a start date)"}`}
+                    </span>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setOverhead(overhead.filter((_, i) => i !== index))
+                  }
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
           {/* Capacity Periods */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -151,6 +570,28 @@ export function EmployeeDialog({
               </Button>
             </div>
 
+            {capacityPeriods.length > 0 && (
+              <CapacityTimeline capacityPeriods={capacityPeriods} />
+            )}
+
+            {overlaps.length > 0 && (
+              <div className="space-y-1 p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800 text-sm text-amber-700 dark:text-amber-300">
+                <p className="font-medium">Overlapping periods</p>
+                {overlaps.map((overlap) => (
+                  <p key={`${overlap.periodId}-${overlap.overriddenPeriodId}`}>
+                    {formatDate(overlap.startDate + "T00:00:00")} –{" "}
+                    {formatDate(overlap.endDate + "T00:00:00")}:{" "}
+                    {periodLabel(overlap.periodId)} applies instead of{" "}
+                    {periodLabel(overlap.overriddenPeriodId)}
+                  </p>
+                ))}
+                <p className="text-xs">
+                  Periods without hours always apply, otherwise the shorter
+                  period does.
+                </p>
+              </div>
+            )}
+
             {capacityPeriods.length === 0 ? (
               <Card className="border-dashed">
                 <CardContent className="flex flex-col items-center justify-center py-8">
@@ -234,8 +675,39 @@ export function EmployeeDialog({
                               })
                             }
                             placeholder="8"
+                            disabled={!!period.weekdayHours}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="space-y-2">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`weekly-${period.id}`}
+                            checked={!!period.weekdayHours}
+                            onCheckedChange={(checked) =>
+                              updateCapacityPeriod(index, {
+                                weekdayHours: checked
+                                  ? toWeekdayHours(period.hoursPerDay)
+                                  : undefined,
+                              })
+                            }
                           />
+                          <Label
+                            htmlFor={`weekly-${period.id}`}
+                            className="cursor-pointer"
+                          >
+                            Different hours per weekday
+                          </Label>
                         </div>
+                        {period.weekdayHours && (
+                          <WeeklyPatternEditor
+                            value={period.weekdayHours}
+                            onChange={(weekdayHours) =>
+                              updateCapacityPeriod(index, { weekdayHours })
+                            }
+                          />
+                        )}
                       </div>
 
                       <div className="space-y-2">
@@ -248,14 +720,21 @@ export function EmployeeDialog({
                             })
                           }
                           placeholder={
-                            period.hoursPerDay === 0
+                            isUnavailable(period)
                               ? "e.g., Vacation, Sick leave"
                               : "e.g., Full-time, Part-time, Reduced hours"
                           }
                         />
                       </div>
 
-                      {period.hoursPerDay === 0 && (
+                      {invalidPeriodIds.has(period.id) && (
+                        <p className="text-sm text-destructive">
+                          The period needs a start date and an end date on or
+                          after it.
+                        </p>
+                      )}
+
+                      {isUnavailable(period) && (
                         <div className="flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-950/20 rounded-lg border border-amber-200 dark:border-amber-800">
                           <CalendarIcon className="h-4 w-4 text-amber-600" />
                           <span className="text-sm text-amber-700 dark:text-amber-300">
@@ -276,10 +755,7 @@ export function EmployeeDialog({
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button
-            onClick={handleSave}
-            disabled={!name.trim() || !position.trim()}
-          >
+          <Button onClick={handleSave} disabled={!canSave}>
             {employee ? "Update Employee" : "Add Employee"}
           </Button>
         </DialogFooter>
@@ -287,3 +763,115 @@ export function EmployeeDialog({
     </Dialog>
   );
 }
+
+function isUnavailable(period: CapacityPeriod): boolean {
+  return period.weekdayHours
+    ? getWeeklyHours(period.weekdayHours) === 0
+    : period.hoursPerDay === 0;
+}
+
+function WeeklyPatternEditor({
+  value,
+  onChange,
+}: {
+  value: WeekdayHours;
+  onChange: (value: WeekdayHours) => void;
+}) {
+  const setDay = (index: number, hours: number) =>
+    onChange(value.map((h, i) => (i === index ? hours : h)));
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map(({ index, label }) => (
+          <div key={index} className="space-y-1">
+            <span className="block text-center text-xs text-muted-foreground">
+              {label}
+            </span>
+            <Input
+              type="number"
+              min="0"
+              max="24"
+              step="0.5"
+              className="px-1 text-center"
+              value={value[index]}
+              onChange={(e) =>
+                setDay(
+                  index,
+                  Math.max(Number.parseFloat(e.target.value) || 0, 0),
+                )
+              }
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {WEEKLY_PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs bg-transparent"
+            onClick={() => onChange([...preset.hours])}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        <span className="text-xs text-muted-foreground">
+          {getWeeklyHours(value)}h/week
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Effective capacity over time, after overlapping periods are resolved
+function CapacityTimeline({
+  capacityPeriods,
+}: {
+  capacityPeriods: CapacityPeriod[];
+}) {
+  const segments = getCapacityTimeline({ capacityPeriods });
+  if (segments.length === 0) return null;
+
+  const days = (segment: { startDate: string; endDate: string }) =>
+    (Date.parse(segment.endDate) - Date.parse(segment.startDate)) / 86_400_000 +
+    1;
+  const describe = (period?: CapacityPeriod) => {
+    if (!period) return "Default";
+    if (isUnavailable(period)) return "Off";
+    return period.weekdayHours
+      ? `${getWeeklyHours(period.weekdayHours)}h/wk`
+      : `${period.hoursPerDay}h`;
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-8 w-full overflow-hidden rounded-md border text-xs">
+        {segments.map((segment) => (
+          <div
+            key={segment.startDate}
+            title={`${formatDate(segment.startDate + "T00:00:00")} – ${formatDate(segment.endDate + "T00:00:00")}: ${describe(segment.period)}${segment.period?.description ? ` (${segment.period.description})` : ""}`}
+            className={`flex items-center justify-center overflow-hidden whitespace-nowrap border-r last:border-r-0 ${
+              !segment.period
+                ? "bg-muted text-muted-foreground"
+                : isUnavailable(segment.period)
+                  ? "bg-amber-200 text-amber-900"
+                  : "bg-primary/70 text-primary-foreground"
+            }`}
+            style={{ flexGrow: days(segment), flexBasis: 0, minWidth: 2 }}
+          >
+            {describe(segment.period)}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDate(segments[0].startDate + "T00:00:00")}</span>
+        <span>
+          {formatDate(segments[segments.length - 1].endDate + "T00:00:00")}
+        </span>
+      </div>
+    </div>
+  );
+}
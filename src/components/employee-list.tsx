@@ -16,36 +16,78 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { User, MoreHorizontal, Edit, Trash2, Clock } from "lucide-react";
 import { formatDate } from "@/lib/date-utils";
-import type { Employee } from "@/lib/types";
+import {
+  getCapacityPeriodForDate,
+  getEmployeeHoursForDate,
+  getWeeklyHours,
+} from "@/lib/capacity";
+import { summarizeWorkByEmployee } from "@/lib/task-progress";
+import { getChildrenMap } from "@/lib/task-hierarchy";
+import type {
+  Employee,
+  HolidayCalendar,
+  ReleaseMember,
+  Task,
+} from "@/lib/types";
 
 interface EmployeeListProps {
   employees: Employee[];
+  members: ReleaseMember[];
+  tasks: Task[]; // The release's tasks, for each member's share of the work
+  holidayCalendars: HolidayCalendar[];
   onEditEmployee: (employee: Employee) => void;
   onDeleteEmployee: (employeeId: string) => void;
 }
 
 export function EmployeeList({
   employees,
+  members,
+  tasks,
+  holidayCalendars,
   onEditEmployee,
   onDeleteEmployee,
 }: EmployeeListProps) {
+  const getAllocation = (employeeId: string) =>
+    members.find((m) => m.employeeId === employeeId)?.allocationPercent ?? 100;
+
+  // Split tasks count by share; epics carry no work of their own
+  const children = getChildrenMap(tasks);
+  const workByEmployee = summarizeWorkByEmployee(
+    tasks.filter((t) => !children.has(t.id)),
+  );
+  const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
   const getEmployeeCurrentCapacity = (
     employee: Employee,
-  ): { hoursPerDay: number; description: string } => {
-    const today = new Date().toISOString().split("T")[0];
-    const currentPeriod = employee.capacityPeriods.find(
-      (period) => period.startDate <= today && period.endDate >= today,
-    );
+  ): { hoursPerDay: number; weeklyHours?: number; description: string } => {
+    const currentPeriod = getCapacityPeriodForDate(employee, new Date());
 
     if (!currentPeriod) {
-      return { hoursPerDay: 0, description: "No current capacity defined" };
+      if (employee.defaultWeekdayHours) {
+        const weeklyHours = getWeeklyHours(employee.defaultWeekdayHours);
+        return {
+          hoursPerDay: weeklyHours / 5,
+          weeklyHours,
+          description: "Default weekly pattern",
+        };
+      }
+      const defaultHours = getEmployeeHoursForDate(employee, new Date());
+      return defaultHours > 0
+        ? { hoursPerDay: defaultHours, description: "Default hours" }
+        : { hoursPerDay: 0, description: "No current capacity defined" };
     }
 
+    // Weekly patterns are compared as their average over a five-day week
+    const weeklyHours =
+      currentPeriod.weekdayHours && getWeeklyHours(currentPeriod.weekdayHours);
+    const hoursPerDay =
+      weeklyHours !== undefined ? weeklyHours / 5 : currentPeriod.hoursPerDay;
     return {
-      hoursPerDay: currentPeriod.hoursPerDay,
+      hoursPerDay,
+      weeklyHours,
       description:
         currentPeriod.description ||
-        (currentPeriod.hoursPerDay === 0 ? "Unavailable" : "Available"),
+        (hoursPerDay === 0 ? "Unavailable" : "Available"),
     };
   };
 
@@ -76,6 +118,7 @@ export function EmployeeList({
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {employees.map((employee) => {
         const currentCapacity = getEmployeeCurrentCapacity(employee);
+        const work = workByEmployee.get(employee.id);
         return (
           <Card key={employee.id} className="hover:shadow-md transition-shadow">
             <CardHeader className="pb-3">
@@ -105,7 +148,7 @@ export function EmployeeList({
                       className="text-destructive"
                     >
                       <Trash2 className="mr-2 h-4 w-4" />
-                      Delete Employee
+                      Remove from Release
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -122,10 +165,71 @@ export function EmployeeList({
                   className="gap-1"
                 >
                   <Clock className="h-3 w-3" />
-                  {currentCapacity.hoursPerDay}h/day
+                  {currentCapacity.weeklyHours !== undefined
+                    ? `${currentCapacity.weeklyHours}h/week`
+                    : `${currentCapacity.hoursPerDay}h/day`}
                 </Badge>
               </div>
 
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Allocation:
+                </span>
+                <Badge variant="outline">{getAllocation(employee.id)}%</Badge>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  Allocated Work:
+                </span>
+                <span className="text-sm">
+                  {work
+                    ? `${formatHours(work.remainingHours)} left of ${formatHours(work.estimatedHours)}`
+                    : "None"}
+                </span>
+              </div>
+
+              {employee.focusFactor !== undefined ||
+              employee.overhead?.length ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Focus:</span>
+                  <span className="text-sm">
+                    {Math.round((employee.focusFactor ?? 1) * 100)}%
+                    {employee.overhead?.length
+                      ? `, minus ${employee.overhead
+                          .map((block) => block.description || "overhead")
+                          .join(", ")}`
+                      : ""}
+                  </span>
+                </div>
+              ) : null}
+
+              {employee.holidayCalendarIds?.length ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    Holidays:
+                  </span>
+                  <span className="text-sm">
+                    {holidayCalendars
+                      .filter((c) =>
+                        employee.holidayCalendarIds!.includes(c.id),
+                      )
+                      .map((c) => c.name)
+                      .join(", ")}
+                  </span>
+                </div>
+              ) : null}
+
+              {employee.skills?.length ? (
+                <div className="flex flex-wrap gap-1">
+                  {employee.skills.map((skill) => (
+                    <Badge key={skill} variant="secondary" className="text-xs">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              ) : null}
+
               {currentCapacity.description && (
                 <p className="text-xs text-muted-foreground">
                   {currentCapacity.description}
@@ -153,7 +257,9 @@ export function EmployeeList({
                           {formatDate(period.endDate)}
                         </span>
                         <Badge variant="outline" className="text-xs">
-                          {period.hoursPerDay}h
+                          {period.weekdayHours
+                            ? `${getWeeklyHours(period.weekdayHours)}h/wk`
+                            : `${period.hoursPerDay}h`}
                         </Badge>
                       </div>
                     ))}
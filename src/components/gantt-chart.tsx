@@ -1,8 +1,9 @@
 "use client";
 
-import { useMemo, useRef, useEffect, JSX } from "react";
+import { useMemo, useRef, useEffect, useState, JSX } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Tooltip,
   TooltipContent,
@@ -14,42 +15,198 @@ import {
   Clock,
   User,
   ArrowRight,
+  ArrowLeft,
   Target,
   AlertTriangle,
   LinkIcon,
   ZapOff,
+  CalendarClock,
+  CalendarX,
+  Scissors,
+  Flag,
+  ChevronDown,
+  ChevronRight,
 } from "lucide-react";
-import {
-  formatGanttDate,
-  getDateRange,
-  calculateGanttData,
-} from "@/lib/gantt-calculator";
-import type { Release, GanttTask, UnscheduledReason } from "@/lib/types";
+import { formatGanttDate, getDateRange } from "@/lib/gantt-calculator";
+import { staffRelease } from "@/lib/roster";
+import type {
+  Employee,
+  HolidayCalendar,
+  Release,
+  GanttData,
+  GanttTask,
+  UnscheduledReason,
+  DependencyType,
+  ScheduleViolation,
+  Task,
+} from "@/lib/types";
 import { NoticeCard } from "@/components/NoticeCard";
-import { isHoliday, isWorkingDay } from "@/lib/date-utils";
+import { ScheduleTracePanel } from "@/components/schedule-trace-panel";
+import {
+  formatDate,
+  isHoliday,
+  isWorkingDay,
+  parseDateOnly,
+} from "@/lib/date-utils";
+import { DEPENDENCY_TYPES, formatDependency } from "@/lib/dependencies";
+import { getEmployeeHoursForDate, getPlanningHorizon } from "@/lib/capacity";
+import {
+  getEmployeeCalendar,
+  getReleaseCalendar,
+} from "@/lib/holiday-calendars";
+
+const CONNECTOR_STYLES: Record<DependencyType, { line: string; text: string }> =
+  {
+    "finish-to-start": {
+      line: "border-dashed border-muted-foreground/50",
+      text: "text-muted-foreground",
+    },
+    "start-to-start": {
+      line: "border-dotted border-sky-500",
+      text: "text-sky-600",
+    },
+    "finish-to-finish": {
+      line: "border-dashed border-violet-500",
+      text: "text-violet-600",
+    },
+  };
+
+function getConstraintLabels(task: Task | undefined): string[] {
+  if (!task) return [];
+  const labels: string[] = [];
+  if (task.startNoEarlierThan) {
+    labels.push(`Start no earlier than ${formatDate(task.startNoEarlierThan)}`);
+  }
+  if (task.mustStartOn) {
+    labels.push(`Must start on ${formatDate(task.mustStartOn)}`);
+  }
+  if (task.finishNoLaterThan) {
+    labels.push(`Finish no later than ${formatDate(task.finishNoLaterThan)}`);
+  }
+  return labels;
+}
 
 interface GanttChartProps {
   release: Release;
+  ganttData: GanttData; // The release as scheduled with the other releases
+  releases: Release[]; // All releases, they share people and may block each other
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+  onRemoveDependency?: (taskId: string, blockerTaskId: string) => void;
 }
 
-export function GanttChart({ release }: GanttChartProps) {
-  const ganttData = useMemo(() => calculateGanttData(release), [release]);
-  const dateRange = useMemo(
-    () => getDateRange(ganttData.tasks),
-    [ganttData.tasks],
+export function GanttChart({
+  release,
+  ganttData,
+  releases,
+  roster,
+  holidayCalendars,
+  onRemoveDependency,
+}: GanttChartProps) {
+  const workCalendar = useMemo(
+    () => getReleaseCalendar(release, holidayCalendars),
+    [release, holidayCalendars],
+  );
+  const staffedRelease = useMemo(
+    () => staffRelease(release, roster),
+    [release, roster],
+  );
+  const [tracedTaskId, setTracedTaskId] = useState<string | null>(null);
+  const tracedTask = ganttData.tasks.find((t) => t.id === tracedTaskId);
+  const [collapsedEpics, setCollapsedEpics] = useState<Set<string>>(new Set());
+  const [timeline, setTimeline] = useState<"forward" | "backward">("forward");
+  const backward = timeline === "backward" && !!ganttData.target;
+  // Backward, bars sit at the latest dates that still meet the target
+  const timelineTasks = useMemo(
+    () =>
+      backward
+        ? ganttData.tasks.map((t) =>
+            t.latestStart
+              ? {
+                  ...t,
+                  startDate: t.latestStart,
+                  endDate: t.latestFinish,
+                  assigneeSegments: undefined,
+                }
+              : t,
+          )
+        : ganttData.tasks,
+    [ganttData.tasks, backward],
   );
+  // Rows under a collapsed epic are hidden, the epic's summary bar stays
+  const visibleTasks = useMemo(() => {
+    const parentOf = new Map(timelineTasks.map((t) => [t.id, t.parentId]));
+    return timelineTasks.filter((task) => {
+      let parentId = task.parentId;
+      while (parentId) {
+        if (collapsedEpics.has(parentId)) return false;
+        parentId = parentOf.get(parentId);
+      }
+      return true;
+    });
+  }, [timelineTasks, collapsedEpics]);
+
+  const toggleEpic = (epicId: string) => {
+    setCollapsedEpics((prev) => {
+      const next = new Set(prev);
+      if (next.has(epicId)) {
+        next.delete(epicId);
+      } else {
+        next.add(epicId);
+      }
+      return next;
+    });
+  };
+  const horizon = useMemo(
+    () => getPlanningHorizon(staffedRelease),
+    [staffedRelease],
+  );
+  const tasksById = useMemo(
+    () => new Map(release.tasks.map((t) => [t.id, t])),
+    [release.tasks],
+  );
+  // Ghost bars of the latest baseline, only next to the forecast
+  const baseline = release.baselines?.[release.baselines.length - 1];
+  const ghostBars = useMemo(() => {
+    const bars = new Map<string, { startDate: Date; endDate: Date }>();
+    if (!baseline || backward) return bars;
+    for (const task of baseline.tasks) {
+      if (!task.startDate || !task.endDate) continue;
+      bars.set(task.taskId, {
+        startDate: parseDateOnly(task.startDate),
+        endDate: parseDateOnly(task.endDate),
+      });
+    }
+    return bars;
+  }, [baseline, backward]);
+  const dateRange = useMemo(() => {
+    const range = getDateRange(timelineTasks);
+    for (const [taskId, ghost] of ghostBars) {
+      if (!timelineTasks.some((t) => t.id === taskId)) continue;
+      const start = new Date(ghost.startDate);
+      start.setDate(start.getDate() - 1);
+      const end = new Date(ghost.endDate);
+      end.setDate(end.getDate() + 2);
+      if (start < range.start) range.start = start;
+      if (end > range.end) range.end = end;
+    }
+    return range;
+  }, [timelineTasks, ghostBars]);
 
   const unscheduledGroups = useMemo(() => {
     const map = new Map<UnscheduledReason, GanttTask[]>();
     const allCodes: UnscheduledReason[] = [
       "cycle",
       "no_capacity",
+      "beyond_horizon",
       "external_blocker",
       "unknown",
     ];
     allCodes.forEach((c) => map.set(c, []));
 
     for (const t of ganttData.tasks) {
+      // Epics without dates just wait on their children, which are listed
+      if (t.isEpic) continue;
       if (!t.startDate || !t.endDate) {
         const code = t.unscheduledReason || "unknown";
         const bucket = map.get(code) || [];
@@ -75,7 +232,8 @@ export function GanttChart({ release }: GanttChartProps) {
     cycle: {
       variant: "danger",
       icon: <AlertTriangle className="h-5 w-5 text-rose-600" />,
-      subtitle: "Task(s) involved in a dependency cycle.",
+      subtitle:
+        'Each arrow reads "blocks"; removing any one of them breaks the loop.',
       titlePrefix: "Dependency cycle",
       badgeVariant: "destructive",
       tooltipText: "Cycle detected (circular dependency)",
@@ -89,10 +247,21 @@ export function GanttChart({ release }: GanttChartProps) {
       badgeVariant: "destructive",
       tooltipText: "Insufficient capacity for assigned employee",
     },
+    beyond_horizon: {
+      variant: "warning",
+      icon: <CalendarX className="h-5 w-5 text-amber-500" />,
+      subtitle: horizon.isExplicit
+        ? `Work does not fit before the planning horizon (${formatDate(horizon.endDate)}). Extend the horizon in the release settings.`
+        : "Work does not fit before the planning horizon derived from capacity and remaining work. Set a later horizon in the release settings.",
+      titlePrefix: "Planning horizon reached",
+      badgeVariant: "warning",
+      tooltipText: "Does not fit before the planning horizon",
+    },
     external_blocker: {
       variant: "warning",
       icon: <LinkIcon className="h-5 w-5 text-amber-500" />,
-      subtitle: "Task depends on an external or unknown blocker.",
+      subtitle:
+        "Task depends on a deleted task or on one in another release that could not be scheduled first.",
       titlePrefix: "External blocker",
       badgeVariant: "warning",
       tooltipText: "Depends on an external / unknown blocker",
@@ -107,6 +276,38 @@ export function GanttChart({ release }: GanttChartProps) {
     },
   };
 
+  const VIOLATION_META: Record<
+    ScheduleViolation,
+    {
+      titlePrefix: string;
+      subtitle: string;
+      tooltipText: string;
+      describe: (task: Task | undefined, ganttTask: GanttTask) => string;
+    }
+  > = {
+    deadline_missed: {
+      titlePrefix: "Deadline missed",
+      subtitle: "Task(s) finish after their finish-no-later-than date.",
+      tooltipText: "Finishes after its deadline",
+      describe: (task, ganttTask) =>
+        `Due ${task?.finishNoLaterThan ? formatDate(task.finishNoLaterThan) : "?"} • Finishes ${ganttTask.endDate ? formatDate(ganttTask.endDate) : "?"}`,
+    },
+    must_start_missed: {
+      titlePrefix: "Fixed start missed",
+      subtitle: "Task(s) cannot start on their must-start-on date.",
+      tooltipText: "Cannot start on its fixed date",
+      describe: (task, ganttTask) =>
+        `Must start ${task?.mustStartOn ? formatDate(task.mustStartOn) : "?"} • Starts ${ganttTask.startDate ? formatDate(ganttTask.startDate) : "?"}`,
+    },
+    milestone_slipped: {
+      titlePrefix: "Milestone slipped",
+      subtitle: "Milestone(s) forecast after their target date.",
+      tooltipText: "Forecast after its target date",
+      describe: (_task, ganttTask) =>
+        `Target ${ganttTask.targetDate ? formatDate(ganttTask.targetDate) : "?"} • Forecast ${ganttTask.endDate ? formatDate(ganttTask.endDate) : "?"}`,
+    },
+  };
+
   const headerScrollRef = useRef<HTMLDivElement>(null);
   const contentScrollRef = useRef<HTMLDivElement>(null);
 
@@ -180,6 +381,178 @@ export function GanttChart({ release }: GanttChartProps) {
     };
   };
 
+  const getDayOffset = (date: Date) =>
+    ((date.getTime() - dateRange.start.getTime()) / (1000 * 60 * 60 * 24)) *
+    dayWidth;
+
+  const renderMilestone = (
+    task: GanttTask,
+    position: { left: number; width: number },
+  ) => {
+    const size = 28;
+    const target = task.targetDate
+      ? new Date(task.targetDate + "T00:00:00")
+      : null;
+    const slipped = task.violations?.includes("milestone_slipped");
+
+    return (
+      <>
+        {target && target >= dateRange.start && target <= dateRange.end && (
+          <div
+            className="absolute rotate-45 border-2 border-dashed border-violet-400"
+            style={{
+              left: getDayOffset(target) + (dayWidth - size) / 2,
+              top: (taskHeight - size) / 2,
+              width: size,
+              height: size,
+            }}
+          />
+        )}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div
+              className={`absolute rotate-45 shadow-sm cursor-pointer ${task.isCritical ? "ring-2 ring-rose-600 ring-offset-1" : ""} ${slipped ? "outline-2 outline-dashed outline-offset-2 outline-amber-500" : ""}`}
+              style={{
+                left: position.left + (dayWidth - size) / 2,
+                top: (taskHeight - size) / 2,
+                width: size,
+                height: size,
+                backgroundColor: task.color,
+              }}
+              onClick={() => setTracedTaskId(task.id)}
+            />
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs">
+            <div className="space-y-2">
+              <div className="font-semibold flex items-center gap-1">
+                <Flag className="h-3 w-3" />
+                {task.name}
+              </div>
+              <div className="text-sm space-y-1">
+                <div>
+                  📅 {backward ? "Latest" : "Forecast"}{" "}
+                  {formatDate(task.startDate!)}
+                </div>
+                {task.targetDate && (
+                  <div>
+                    🎯 Target {formatDate(task.targetDate)}
+                    {slipped && " (slipped)"}
+                  </div>
+                )}
+                {task.totalFloat !== undefined && (
+                  <div>
+                    {task.isCritical
+                      ? "🔥 On the critical path"
+                      : `⏳ Slack: ${task.totalFloat} working day(s)`}
+                  </div>
+                )}
+                <div className="text-xs opacity-80">
+                  Click to see why it is scheduled here
+                </div>
+              </div>
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      </>
+    );
+  };
+
+  // Thin dashed strip under the row's bar where the baseline had the task
+  const renderGhostBar = (ghost: { startDate: Date; endDate: Date }) => {
+    const left = getDayOffset(ghost.startDate);
+    return (
+      <div
+        className="absolute bottom-0.5 h-1.5 rounded-sm border border-dashed border-slate-500 bg-slate-400/30"
+        style={{
+          left,
+          width: Math.max(getDayOffset(ghost.endDate) + dayWidth - left, 8),
+        }}
+      />
+    );
+  };
+
+  // Strips along the bottom of a split task's bar, one per person, spanning
+  // the days that person works on it
+  const renderAssigneeSegments = (
+    task: GanttTask,
+    position: { left: number; width: number },
+  ) => {
+    const segments = task.assigneeSegments || [];
+    const stripHeight = Math.min(8, (taskHeight - 30) / segments.length);
+    return segments.map((segment, index) => {
+      const left = getDayOffset(segment.startDate) - position.left;
+      const width =
+        getDayOffset(segment.endDate) +
+        dayWidth -
+        getDayOffset(segment.startDate);
+      return (
+        <div
+          key={segment.employeeId}
+          className="absolute rounded-sm border border-white/70"
+          style={{
+            left: Math.max(left, 0),
+            width: Math.max(Math.min(width, position.width - left), 4),
+            bottom: 2 + index * stripHeight,
+            height: stripHeight - 1,
+            backgroundColor: segment.color,
+          }}
+        />
+      );
+    });
+  };
+
+  const renderEpicBar = (
+    task: GanttTask,
+    position: { left: number; width: number },
+  ) => (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={`absolute cursor-pointer ${task.isCritical ? "ring-2 ring-rose-600 ring-offset-1" : ""}`}
+          style={{
+            left: position.left,
+            width: position.width,
+            top: taskHeight / 2 - 6,
+            height: 12,
+          }}
+          onClick={() => toggleEpic(task.id)}
+        >
+          <div
+            className="absolute inset-x-0 top-0 h-2 rounded-sm"
+            style={{ backgroundColor: task.color }}
+          />
+          <div
+            className="absolute left-0 top-0 h-3 w-1.5 rounded-b-sm"
+            style={{ backgroundColor: task.color }}
+          />
+          <div
+            className="absolute right-0 top-0 h-3 w-1.5 rounded-b-sm"
+            style={{ backgroundColor: task.color }}
+          />
+          <div
+            className="absolute left-0 top-0 h-2 rounded-sm bg-white/30"
+            style={{ width: `${task.progress}%` }}
+          />
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs">
+        <div className="space-y-2">
+          <div className="font-semibold">{task.name}</div>
+          <div className="text-sm space-y-1">
+            <div>
+              📅 {formatDate(task.startDate!)} - {formatDate(task.endDate!)}
+            </div>
+            <div>⏱️ {task.estimatedHours}h across its tasks</div>
+            <div>📊 {task.progress}% complete</div>
+            <div className="text-xs opacity-80">
+              Click to {collapsedEpics.has(task.id) ? "expand" : "collapse"}
+            </div>
+          </div>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+
   const generateTimelineHeaders = () => {
     const headers = [];
     const current = new Date(dateRange.start);
@@ -194,10 +567,36 @@ export function GanttChart({ release }: GanttChartProps) {
 
   const timelineHeaders = generateTimelineHeaders();
 
+  // Days off per assignee, so each row shows that person's own holidays and
+  // days without hours; unassigned rows follow the release calendar
+  const offDaysByEmployee = new Map<string | null, boolean[]>();
+  const getOffDays = (employeeId: string | null) => {
+    let offDays = offDaysByEmployee.get(employeeId);
+    if (!offDays) {
+      const employee = roster.find((e) => e.id === employeeId);
+      const calendar = employee
+        ? getEmployeeCalendar(workCalendar, employee, holidayCalendars)
+        : workCalendar;
+      offDays = timelineHeaders.map((date) =>
+        employee
+          ? isHoliday(date, calendar) ||
+            getEmployeeHoursForDate(
+              employee,
+              date,
+              calendar.workingWeekdays,
+            ) === 0
+          : !isWorkingDay(date, calendar),
+      );
+      offDaysByEmployee.set(employeeId, offDays);
+    }
+    return offDays;
+  };
+
   const renderNoticeCards = () => {
     const order: UnscheduledReason[] = [
       "cycle",
       "no_capacity",
+      "beyond_horizon",
       "external_blocker",
       "unknown",
     ];
@@ -213,6 +612,120 @@ export function GanttChart({ release }: GanttChartProps) {
           icon={meta.icon}
           subtitle={meta.subtitle}
           title={`${meta.titlePrefix}: ${items.length} task${items.length > 1 ? "s" : ""}`}
+        >
+          {code === "cycle" ? renderCycles(items) : renderTaskItems(items)}
+        </NoticeCard>
+      );
+    });
+  };
+
+  const renderCycles = (items: GanttTask[]) => {
+    const inCycle = new Set(
+      ganttData.cycles.flatMap((cycle) => cycle.componentTaskIds),
+    );
+    const downstream = items.filter((t) => !inCycle.has(t.id));
+    const taskName = (taskId: string) =>
+      tasksById.get(taskId)?.name || "Unknown task";
+
+    return (
+      <div className="mt-2 space-y-3">
+        {ganttData.cycles.map((cycle) => (
+          <div key={cycle.path.join(">")} className="space-y-1">
+            <div className="flex flex-wrap items-center gap-1 text-sm">
+              {cycle.edges.map((edge) => (
+                <span
+                  key={`${edge.blockerTaskId}>${edge.taskId}`}
+                  className="flex items-center gap-1"
+                >
+                  <span className="font-medium">
+                    {taskName(edge.blockerTaskId)}
+                  </span>
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  {onRemoveDependency && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() =>
+                            onRemoveDependency(edge.taskId, edge.blockerTaskId)
+                          }
+                        >
+                          <Scissors className="h-3 w-3" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        Remove &quot;{taskName(edge.blockerTaskId)}&quot; from
+                        the blockers of &quot;{taskName(edge.taskId)}&quot;
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
+                </span>
+              ))}
+              <span className="font-medium">{taskName(cycle.path[0])}</span>
+            </div>
+            {cycle.componentTaskIds.length > cycle.path.length && (
+              <div className="text-xs text-muted-foreground">
+                Also tangled in the same loop:{" "}
+                {cycle.componentTaskIds
+                  .filter((id) => !cycle.path.includes(id))
+                  .map(taskName)
+                  .join(", ")}
+              </div>
+            )}
+          </div>
+        ))}
+        {downstream.length > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground">
+              Waiting on the cycle:
+            </div>
+            {renderTaskItems(downstream)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTaskItems = (items: GanttTask[]) => (
+    <ul className="list-disc ml-5 mt-2">
+      {items.map((t) => (
+        <li key={t.id} className="flex items-center justify-between">
+          <div className="min-w-0">
+            <div className="font-medium truncate max-w-xl">{t.name}</div>
+            <div className="text-xs text-muted-foreground">
+              {t.assignedEmployee
+                ? `Assigned: ${t.assignedEmployee}`
+                : "Unassigned"}
+              {t.dependencies &&
+                t.dependencies.length > 0 &&
+                ` • Depends: ${t.dependencies.length}`}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  const renderViolationCards = () => {
+    const order: ScheduleViolation[] = [
+      "milestone_slipped",
+      "deadline_missed",
+      "must_start_missed",
+    ];
+    return order.map((code) => {
+      const items = ganttData.tasks.filter((t) => t.violations?.includes(code));
+      if (items.length === 0) return null;
+      const meta = VIOLATION_META[code];
+
+      return (
+        <NoticeCard
+          key={code}
+          variant="warning"
+          icon={<CalendarClock className="h-5 w-5 text-amber-500" />}
+          subtitle={meta.subtitle}
+          title={`${meta.titlePrefix}: ${items.length} task${items.length > 1 ? "s" : ""}`}
         >
           <ul className="list-disc ml-5 mt-2">
             {items.map((t) => (
@@ -220,12 +733,7 @@ export function GanttChart({ release }: GanttChartProps) {
                 <div className="min-w-0">
                   <div className="font-medium truncate max-w-xl">{t.name}</div>
                   <div className="text-xs text-muted-foreground">
-                    {t.assignedEmployee
-                      ? `Assigned: ${t.assignedEmployee}`
-                      : "Unassigned"}
-                    {t.dependencies &&
-                      t.dependencies.length > 0 &&
-                      ` • Depends: ${t.dependencies.length}`}
+                    {meta.describe(tasksById.get(t.id), t)}
                   </div>
                 </div>
               </li>
@@ -240,7 +748,10 @@ export function GanttChart({ release }: GanttChartProps) {
     <TooltipProvider>
       <div className="space-y-6">
         {/* Notice cards area: multiple cards may appear */}
-        <div className="space-y-3">{renderNoticeCards()}</div>
+        <div className="space-y-3">
+          {renderNoticeCards()}
+          {renderViolationCards()}
+        </div>
 
         {/* If there are no unscheduled tasks, show release date card */}
         {Array.from(unscheduledGroups.values()).every(
@@ -275,21 +786,92 @@ export function GanttChart({ release }: GanttChartProps) {
               <span className="text-sm">{employee.name}</span>
             </div>
           ))}
-          {ganttData.tasks.some((t) => !t.assignedEmployee) && (
+          {ganttData.tasks.some(
+            (t) => !t.assignedEmployee && !t.isEpic && !t.isMilestone,
+          ) && (
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 rounded-full bg-gray-400" />
               <span className="text-sm">Unassigned</span>
             </div>
           )}
+          {(Object.keys(CONNECTOR_STYLES) as DependencyType[])
+            .filter((type) =>
+              ganttData.tasks.some((t) =>
+                t.dependencyLinks.some((d) => d.type === type),
+              ),
+            )
+            .map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <div
+                  className={`w-5 border-t-2 ${CONNECTOR_STYLES[type].line}`}
+                />
+                <span className="text-sm">{DEPENDENCY_TYPES[type].label}</span>
+              </div>
+            ))}
+          {ganttData.tasks.some((t) => t.isMilestone) && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rotate-45 bg-violet-600" />
+              <span className="text-sm">Milestone</span>
+            </div>
+          )}
+          {ganttData.tasks.some((t) => t.latestStartPassed) && (
+            <div className="flex items-center gap-2">
+              <Target className="h-3 w-3 text-red-600" />
+              <span className="text-sm">
+                Latest start for the target passed
+              </span>
+            </div>
+          )}
+          {baseline && ghostBars.size > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-5 h-1.5 rounded-sm border border-dashed border-slate-500 bg-slate-400/30" />
+              <span className="text-sm">Baseline: {baseline.name}</span>
+            </div>
+          )}
+          {ganttData.criticalPath.length > 0 && (
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full ring-2 ring-rose-600" />
+              <span className="text-sm">
+                Critical path ({ganttData.criticalPath.length} task
+                {ganttData.criticalPath.length > 1 ? "s" : ""})
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Gantt Chart */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Calendar className="h-5 w-5" />
-              Project Timeline
-            </CardTitle>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Project Timeline
+              </CardTitle>
+              {ganttData.target && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={backward ? "outline" : "default"}
+                    size="sm"
+                    onClick={() => setTimeline("forward")}
+                  >
+                    Forecast
+                  </Button>
+                  <Button
+                    variant={backward ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setTimeline("backward")}
+                  >
+                    From target
+                  </Button>
+                </div>
+              )}
+            </div>
+            {backward && (
+              <p className="text-sm text-muted-foreground">
+                Bars show the latest dates that still meet the target of{" "}
+                {formatDate(ganttData.target!.targetDate)}.
+              </p>
+            )}
           </CardHeader>
           <CardContent className="p-0">
             <div className="relative">
@@ -317,13 +899,13 @@ export function GanttChart({ release }: GanttChartProps) {
                         return (
                           <div
                             key={index}
-                            className={`border-r text-center text-xs font-medium flex-shrink-0 flex flex-col items-center justify-center ${isWorkingDay(date, release.customHolidays) ? "" : "bg-red-50 text-red-600"}`}
+                            className={`border-r text-center text-xs font-medium flex-shrink-0 flex flex-col items-center justify-center ${isWorkingDay(date, workCalendar) ? "" : "bg-red-50 text-red-600"}`}
                             style={{ width: dayWidth, height: headerHeight }}
                           >
                             <div className="leading-tight text-[11px]">
                               {formatGanttDate(date)}
                             </div>
-                            {isHoliday(date, release.customHolidays) && (
+                            {isHoliday(date, workCalendar) && (
                               <div className="text-xs mt-0.5">🎉</div>
                             )}
                           </div>
@@ -339,7 +921,7 @@ export function GanttChart({ release }: GanttChartProps) {
                 <div className="flex">
                   {/* Fixed task names column */}
                   <div className="w-64 flex-shrink-0">
-                    {ganttData.tasks.map((task) => {
+                    {visibleTasks.map((task) => {
                       const reason =
                         (task.unscheduledReason as UnscheduledReason) ||
                         (!task.startDate || !task.endDate
@@ -351,13 +933,32 @@ export function GanttChart({ release }: GanttChartProps) {
                         <div
                           key={task.id}
                           className="border-b border-r p-3 bg-background"
-                          style={{ height: taskHeight + taskSpacing }}
+                          style={{
+                            height: taskHeight + taskSpacing,
+                            paddingLeft: 12 + (task.depth || 0) * 16,
+                          }}
                         >
                           <div className="flex flex-col justify-center h-full min-w-0 gap-1">
                             {/* Task name */}
                             <Tooltip>
                               <TooltipTrigger asChild>
-                                <div className="font-medium text-sm truncate w-full min-w-0 whitespace-nowrap overflow-hidden cursor-default">
+                                <div
+                                  className={`text-sm truncate w-full min-w-0 whitespace-nowrap overflow-hidden ${task.isEpic ? "font-semibold cursor-pointer" : "font-medium cursor-default"}`}
+                                  onClick={
+                                    task.isEpic
+                                      ? () => toggleEpic(task.id)
+                                      : undefined
+                                  }
+                                >
+                                  {task.isEpic &&
+                                    (collapsedEpics.has(task.id) ? (
+                                      <ChevronRight className="inline h-4 w-4 mr-1" />
+                                    ) : (
+                                      <ChevronDown className="inline h-4 w-4 mr-1" />
+                                    ))}
+                                  {task.isMilestone && (
+                                    <Flag className="inline h-3 w-3 mr-1 text-violet-600" />
+                                  )}
                                   {task.name}
                                 </div>
                               </TooltipTrigger>
@@ -387,6 +988,35 @@ export function GanttChart({ release }: GanttChartProps) {
                                 </Tooltip>
                               )}
 
+                              {/* Critical path marker */}
+                              {task.isCritical && (
+                                <Badge
+                                  variant="destructive"
+                                  className="flex-shrink-0"
+                                >
+                                  Critical
+                                </Badge>
+                              )}
+
+                              {/* Not started in time for the target */}
+                              {task.latestStartPassed && (
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Badge
+                                      variant="outline"
+                                      className="flex-shrink-0 cursor-default border-red-400 text-red-700"
+                                    >
+                                      <Target className="h-3 w-3" />
+                                    </Badge>
+                                  </TooltipTrigger>
+                                  <TooltipContent className="max-w-xs">
+                                    Should have started by{" "}
+                                    {formatDate(task.latestStart!)} to meet the
+                                    target
+                                  </TooltipContent>
+                                </Tooltip>
+                              )}
+
                               {/* Progress */}
                               <Badge
                                 variant="secondary"
@@ -395,6 +1025,28 @@ export function GanttChart({ release }: GanttChartProps) {
                                 {task.progress}%
                               </Badge>
 
+                              {/* Constraint violations */}
+                              {task.violations &&
+                                task.violations.length > 0 && (
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <Badge
+                                        variant="outline"
+                                        className="flex-shrink-0 cursor-default border-amber-400 text-amber-700"
+                                      >
+                                        <CalendarClock className="h-3 w-3" />
+                                      </Badge>
+                                    </TooltipTrigger>
+                                    <TooltipContent className="max-w-xs">
+                                      {task.violations
+                                        .map(
+                                          (v) => VIOLATION_META[v].tooltipText,
+                                        )
+                                        .join(", ")}
+                                    </TooltipContent>
+                                  </Tooltip>
+                                )}
+
                               {/* Unscheduled reason badge (if any) */}
                               {(!task.startDate || !task.endDate) && meta && (
                                 <Tooltip>
@@ -441,7 +1093,7 @@ export function GanttChart({ release }: GanttChartProps) {
                     ref={contentScrollRef}
                   >
                     <div className="relative" style={{ minWidth: chartWidth }}>
-                      {ganttData.tasks.map((task, index) => {
+                      {visibleTasks.map((task, index) => {
                         const position = getTaskPosition(task);
 
                         return (
@@ -451,87 +1103,180 @@ export function GanttChart({ release }: GanttChartProps) {
                             style={{ height: taskHeight + taskSpacing }}
                           >
                             <div className="relative h-full">
-                              {task.startDate && task.endDate && (
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
+                              {getOffDays(
+                                tasksById.get(task.id)?.assignedEmployeeId ??
+                                  null,
+                              ).map(
+                                (isOff, dayIndex) =>
+                                  isOff && (
                                     <div
-                                      className="absolute top-1 rounded-md flex items-center px-2 text-white text-xs font-medium shadow-sm cursor-pointer hover:shadow-md transition-shadow"
+                                      key={dayIndex}
+                                      className="absolute inset-y-0 bg-red-50/70"
                                       style={{
-                                        left: position!.left,
-                                        width: position!.width,
-                                        height: taskHeight - 2,
-                                        backgroundColor: task.color,
-                                        opacity:
-                                          task.progress === 100 ? 0.8 : 1,
+                                        left: dayIndex * dayWidth,
+                                        width: dayWidth,
                                       }}
-                                    >
-                                      <div className="flex items-center gap-1 truncate">
-                                        <Clock className="h-3 w-3" />
-                                        {position!.width > 60 && (
-                                          <span className="truncate">
-                                            {task.name}
-                                          </span>
-                                        )}
-                                      </div>
+                                    />
+                                  ),
+                              )}
 
-                                      {/* Progress overlay */}
-                                      {task.progress > 0 &&
-                                        task.progress < 100 && (
-                                          <div
-                                            className="absolute top-0 left-0 h-full bg-white/20 rounded-md"
-                                            style={{
-                                              width: `${task.progress}%`,
-                                            }}
-                                          />
-                                        )}
-                                    </div>
-                                  </TooltipTrigger>
-                                  <TooltipContent
-                                    side="top"
-                                    className="max-w-xs"
-                                  >
-                                    <div className="space-y-2">
-                                      <div className="font-semibold">
-                                        {task.name}
-                                      </div>
-                                      <div className="text-sm space-y-1">
-                                        <div>
-                                          📅{" "}
-                                          {task.startDate.toLocaleDateString(
-                                            "en-US",
-                                          )}{" "}
-                                          -{" "}
-                                          {task.endDate.toLocaleDateString(
-                                            "en-US",
+                              {ghostBars.has(task.id) &&
+                                renderGhostBar(ghostBars.get(task.id)!)}
+
+                              {task.isMilestone &&
+                                task.startDate &&
+                                renderMilestone(task, position!)}
+
+                              {task.isEpic &&
+                                position &&
+                                renderEpicBar(task, position)}
+
+                              {!task.isMilestone &&
+                                !task.isEpic &&
+                                task.startDate &&
+                                task.endDate && (
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <div
+                                        className={`absolute top-1 rounded-md flex items-center px-2 text-white text-xs font-medium shadow-sm cursor-pointer hover:shadow-md transition-shadow ${task.isCritical ? "ring-2 ring-rose-600 ring-offset-1" : ""} ${backward && task.latestStartPassed ? "outline-2 outline-offset-2 outline-red-600" : task.violations?.length ? "outline-2 outline-dashed outline-offset-2 outline-amber-500" : ""}`}
+                                        style={{
+                                          left: position!.left,
+                                          width: position!.width,
+                                          height: taskHeight - 2,
+                                          backgroundColor: task.color,
+                                          opacity:
+                                            task.progress === 100 ? 0.8 : 1,
+                                        }}
+                                        onClick={() => setTracedTaskId(task.id)}
+                                      >
+                                        <div className="flex items-center gap-1 truncate">
+                                          <Clock className="h-3 w-3" />
+                                          {position!.width > 60 && (
+                                            <span className="truncate">
+                                              {task.name}
+                                            </span>
                                           )}
                                         </div>
-                                        <div>
-                                          ⏱️{task.estimatedHours}h (
-                                          {Math.round(
-                                            (task.estimatedHours / 8) * 100,
-                                          ) / 100}{" "}
-                                          days)
-                                        </div>
-                                        {task.assignedEmployee && (
-                                          <div>👤 {task.assignedEmployee}</div>
+
+                                        {/* Progress overlay */}
+                                        {task.progress > 0 &&
+                                          task.progress < 100 && (
+                                            <div
+                                              className="absolute top-0 left-0 h-full bg-white/20 rounded-md"
+                                              style={{
+                                                width: `${task.progress}%`,
+                                              }}
+                                            />
+                                          )}
+
+                                        {renderAssigneeSegments(
+                                          task,
+                                          position!,
                                         )}
-                                        <div>📊 {task.progress}% complete</div>
-                                        {task.dependencies.length > 0 && (
+                                      </div>
+                                    </TooltipTrigger>
+                                    <TooltipContent
+                                      side="top"
+                                      className="max-w-xs"
+                                    >
+                                      <div className="space-y-2">
+                                        <div className="font-semibold">
+                                          {task.name}
+                                        </div>
+                                        <div className="text-sm space-y-1">
                                           <div>
-                                            🔗 Depends on{" "}
-                                            {task.dependencies.length} task(s)
+                                            📅{" "}
+                                            {task.startDate.toLocaleDateString(
+                                              "en-US",
+                                            )}{" "}
+                                            -{" "}
+                                            {task.endDate.toLocaleDateString(
+                                              "en-US",
+                                            )}
                                           </div>
-                                        )}
+                                          <div>
+                                            ⏱️{task.estimatedHours}h (
+                                            {Math.round(
+                                              (task.estimatedHours / 8) * 100,
+                                            ) / 100}{" "}
+                                            days)
+                                          </div>
+                                          {task.assigneeSegments ? (
+                                            task.assigneeSegments.map(
+                                              (segment) => (
+                                                <div key={segment.employeeId}>
+                                                  👤 {segment.employeeName}:{" "}
+                                                  {Math.round(
+                                                    segment.hours * 10,
+                                                  ) / 10}
+                                                  h,{" "}
+                                                  {formatDate(
+                                                    segment.startDate,
+                                                  )}{" "}
+                                                  -{" "}
+                                                  {formatDate(segment.endDate)}
+                                                </div>
+                                              ),
+                                            )
+                                          ) : task.assignedEmployee ? (
+                                            <div>
+                                              👤 {task.assignedEmployee}
+                                            </div>
+                                          ) : null}
+                                          <div>
+                                            📊 {task.progress}% complete
+                                          </div>
+                                          {task.totalFloat !== undefined && (
+                                            <div>
+                                              {task.isCritical
+                                                ? "🔥 On the critical path"
+                                                : `⏳ Slack: ${task.totalFloat} working day(s), free: ${task.freeFloat}`}
+                                            </div>
+                                          )}
+                                          {ghostBars.has(task.id) && (
+                                            <div>
+                                              📐 Baseline{" "}
+                                              {formatDate(
+                                                ghostBars.get(task.id)!
+                                                  .startDate,
+                                              )}{" "}
+                                              -{" "}
+                                              {formatDate(
+                                                ghostBars.get(task.id)!.endDate,
+                                              )}
+                                            </div>
+                                          )}
+                                          {task.latestStart && !backward && (
+                                            <div>
+                                              🎯 Latest start for the target{" "}
+                                              {formatDate(task.latestStart)}
+                                            </div>
+                                          )}
+                                          {getConstraintLabels(
+                                            tasksById.get(task.id),
+                                          ).map((label) => (
+                                            <div key={label}>📌 {label}</div>
+                                          ))}
+                                          {task.dependencies.length > 0 && (
+                                            <div>
+                                              🔗 Depends on{" "}
+                                              {task.dependencies.length} task(s)
+                                            </div>
+                                          )}
+                                          <div className="text-xs opacity-80">
+                                            Click to see why it is scheduled
+                                            here
+                                          </div>
+                                        </div>
                                       </div>
-                                    </div>
-                                  </TooltipContent>
-                                </Tooltip>
-                              )}
+                                    </TooltipContent>
+                                  </Tooltip>
+                                )}
 
                               {/* Dependency arrows */}
-                              {task.dependencies.map((depId) => {
-                                const depTask = ganttData.tasks.find(
-                                  (t) => t.id === depId,
+                              {task.dependencyLinks.map((dependency) => {
+                                const depTask = visibleTasks.find(
+                                  (t) => t.id === dependency.taskId,
                                 );
                                 if (
                                   !position ||
@@ -541,31 +1286,48 @@ export function GanttChart({ release }: GanttChartProps) {
                                 )
                                   return null;
 
-                                const depPosition = getTaskPosition(depTask);
-                                const depIndex = ganttData.tasks.findIndex(
-                                  (t) => t.id === depId,
+                                const depPosition = getTaskPosition(depTask)!;
+                                const depIndex = visibleTasks.findIndex(
+                                  (t) => t.id === dependency.taskId,
                                 );
+                                const from =
+                                  dependency.type === "start-to-start"
+                                    ? depPosition.left
+                                    : depPosition.left + depPosition.width;
+                                const to =
+                                  dependency.type === "finish-to-finish"
+                                    ? position.left + position.width
+                                    : position.left;
+                                const style = CONNECTOR_STYLES[dependency.type];
+                                const label = formatDependency(dependency);
 
                                 return (
                                   <div
-                                    key={depId}
-                                    className="absolute flex items-center text-muted-foreground"
+                                    key={dependency.taskId}
+                                    className={`absolute flex items-center ${style.text} ${to < from ? "flex-row-reverse" : ""}`}
                                     style={{
-                                      left:
-                                        depPosition!.left + depPosition!.width,
+                                      left: Math.min(from, to),
                                       top:
                                         (depIndex - index) *
                                           (taskHeight + taskSpacing) +
                                         taskHeight / 2,
-                                      width:
-                                        position.left -
-                                        (depPosition!.left +
-                                          depPosition!.width),
+                                      width: Math.abs(to - from),
                                       height: 1,
                                     }}
                                   >
-                                    <div className="w-full border-t border-dashed border-muted-foreground/50" />
-                                    <ArrowRight className="h-3 w-3 ml-1" />
+                                    <div
+                                      className={`w-full border-t ${style.line}`}
+                                    />
+                                    {to < from ? (
+                                      <ArrowLeft className="h-3 w-3 mr-1" />
+                                    ) : (
+                                      <ArrowRight className="h-3 w-3 ml-1" />
+                                    )}
+                                    {label !== "FS" && (
+                                      <span className="absolute -top-4 left-1 text-[10px] font-medium">
+                                        {label}
+                                      </span>
+                                    )}
                                   </div>
                                 );
                               })}
@@ -581,6 +1343,15 @@ export function GanttChart({ release }: GanttChartProps) {
           </CardContent>
         </Card>
 
+        {tracedTask && (
+          <ScheduleTracePanel
+            task={tracedTask}
+            release={staffedRelease}
+            releases={releases}
+            onClose={() => setTracedTaskId(null)}
+          />
+        )}
+
         {/* Summary Statistics */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
@@ -642,8 +1413,12 @@ export function GanttChart({ release }: GanttChartProps) {
                 <div>
                   <p className="text-sm text-muted-foreground">Completed</p>
                   <p className="font-medium">
-                    {ganttData.tasks.filter((t) => t.progress === 100).length}/
-                    {ganttData.tasks.length}
+                    {
+                      ganttData.tasks.filter(
+                        (t) => !t.isEpic && t.progress === 100,
+                      ).length
+                    }
+                    /{ganttData.tasks.filter((t) => !t.isEpic).length}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,269 @@
+"use client";
+
+import type React from "react";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, CalendarDays, Plus, Trash2, X } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { parseIcsCalendar } from "@/lib/holiday-calendars";
+import type { Holiday, HolidayCalendar } from "@/lib/types";
+
+interface HolidayCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendars: HolidayCalendar[];
+  onCreate: (calendar: Omit<HolidayCalendar, "id">) => void;
+  onUpdate: (calendarId: string, calendar: Omit<HolidayCalendar, "id">) => void;
+  onDelete: (calendarId: string) => void;
+}
+
+export function HolidayCalendarDialog({
+  open,
+  onOpenChange,
+  calendars,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: HolidayCalendarDialogProps) {
+  const [newName, setNewName] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate({ name: newName.trim(), holidays: [] });
+    setNewName("");
+  };
+
+  const handleIcsUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = "";
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const { name, holidays } = parseIcsCalendar(
+        (e.target?.result as string) || "",
+      );
+      if (holidays.length === 0) {
+        setImportError(`No events found in ${file.name}`);
+        return;
+      }
+      setImportError(null);
+      onCreate({
+        name: name || file.name.replace(/\.ics$/i, ""),
+        holidays,
+      });
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Holiday Calendars
+          </DialogTitle>
+          <DialogDescription>
+            Shared sets of non-working days, such as public holidays of a
+            country or the company calendar. Releases pick the calendars they
+            follow.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="calendar-name">New Calendar</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="calendar-name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                  placeholder="e.g., Germany, Company events"
+                />
+                <Button
+                  size="icon"
+                  onClick={handleCreate}
+                  disabled={!newName.trim()}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="calendar-ics">Import from iCalendar (.ics)</Label>
+              <Input
+                id="calendar-ics"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleIcsUpload}
+                className="file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:text-sm file:bg-muted file:text-muted-foreground"
+              />
+            </div>
+          </div>
+
+          {importError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{importError}</AlertDescription>
+            </Alert>
+          )}
+
+          {calendars.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No holiday calendars yet.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {calendars.map((calendar) => (
+                <HolidayCalendarCard
+                  key={calendar.id}
+                  calendar={calendar}
+                  onChange={(updates) =>
+                    onUpdate(calendar.id, {
+                      name: calendar.name,
+                      holidays: calendar.holidays,
+                      ...updates,
+                    })
+                  }
+                  onDelete={() => {
+                    if (
+                      confirm(
+                        `Delete "${calendar.name}"? Releases using it keep only their own holidays.`,
+                      )
+                    ) {
+                      onDelete(calendar.id);
+                    }
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function HolidayCalendarCard({
+  calendar,
+  onChange,
+  onDelete,
+}: {
+  calendar: HolidayCalendar;
+  onChange: (updates: Partial<Omit<HolidayCalendar, "id">>) => void;
+  onDelete: () => void;
+}) {
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+
+  const addHoliday = () => {
+    if (!date || calendar.holidays.some((h) => h.date === date)) return;
+    const holiday: Holiday = { date, name: name.trim() || undefined };
+    onChange({
+      holidays: [...calendar.holidays, holiday].sort((a, b) =>
+        a.date.localeCompare(b.date),
+      ),
+    });
+    setDate("");
+    setName("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Input
+            value={calendar.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            className="h-8"
+          />
+          <span className="text-xs font-normal text-muted-foreground whitespace-nowrap">
+            {calendar.holidays.length} days
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onDelete}
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-44"
+          />
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+          />
+          <Button size="icon" onClick={addHoliday} disabled={!date}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {calendar.holidays.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {calendar.holidays.map((holiday) => (
+              <div
+                key={holiday.date}
+                className="flex items-center gap-1 bg-muted px-2 py-1 rounded-md text-sm"
+              >
+                <span>{formatDate(holiday.date + "T00:00:00")}</span>
+                {holiday.name && (
+                  <span className="text-muted-foreground">
+                    · {holiday.name}
+                  </span>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                  onClick={() =>
+                    onChange({
+                      holidays: calendar.holidays.filter(
+                        (h) => h.date !== holiday.date,
+                      ),
+                    })
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -37,7 +37,8 @@ import {
   importProjectData,
   loadProjectData,
 } from "@/lib/storage";
-import type { ProjectData } from "@/lib/types";
+import type { ProjectData, Release } from "@/lib/types";
+import { toUTCDateOnly } from "@/lib/date-utils";
 
 interface ImportExportDialogProps {
   open: boolean;
@@ -68,7 +69,7 @@ export function ImportExportDialog({
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `release-flow-backup-${new Date().toISOString().split("T")[0]}.json`;
+    a.download = `release-flow-backup-${toUTCDateOnly(new Date())}.json`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -130,8 +131,13 @@ export function ImportExportDialog({
           );
         }
 
-        if (!Array.isArray(release.employees)) {
-          throw new Error("Invalid release format: employees must be an array");
+        // Exports from before the roster list employees per release
+        const legacy = release as Release & { employees?: unknown };
+        if (
+          !Array.isArray(release.members) &&
+          !Array.isArray(legacy.employees)
+        ) {
+          throw new Error("Invalid release format: members must be an array");
         }
 
         if (!Array.isArray(release.tasks)) {
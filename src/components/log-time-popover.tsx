@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Timer } from "lucide-react";
+import { getRemainingHours } from "@/lib/task-progress";
+import { toUTCDateOnly } from "@/lib/date-utils";
+import type { Employee, Task, WorkLogEntry } from "@/lib/types";
+
+interface LogTimePopoverProps {
+  task: Task;
+  employees: Employee[];
+  onLogTime: (
+    taskId: string,
+    entry: Omit<WorkLogEntry, "id">,
+    remainingHours?: number,
+  ) => void;
+}
+
+export function LogTimePopover({
+  task,
+  employees,
+  onLogTime,
+}: LogTimePopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState("");
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [hours, setHours] = useState(1);
+  const [remainingHours, setRemainingHours] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDate(toUTCDateOnly(new Date()));
+    setEmployeeId(task.assignedEmployeeId);
+    setHours(1);
+    setRemainingHours("");
+  }, [open, task]);
+
+  // What remaining would become if the user leaves it alone
+  const suggestedRemaining = Math.max(getRemainingHours(task) - hours, 0);
+
+  const handleSave = () => {
+    if (!date || hours <= 0) return;
+
+    onLogTime(
+      task.id,
+      { date, employeeId, hours },
+      remainingHours === "" ? undefined : Number.parseFloat(remainingHours),
+    );
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <Timer className="h-4 w-4 mr-1" />
+          Log time
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor={`log-date-${task.id}`}>Date</Label>
+            <Input
+              id={`log-date-${task.id}`}
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`log-hours-${task.id}`}>Hours</Label>
+            <Input
+              id={`log-hours-${task.id}`}
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={hours}
+              onChange={(e) => setHours(Number.parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Employee</Label>
+          <Select
+            value={employeeId || "unassigned"}
+            onValueChange={(value) =>
+              setEmployeeId(value === "unassigned" ? null : value)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {employees.map((employee) => (
+                <SelectItem key={employee.id} value={employee.id}>
+                  {employee.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`log-remaining-${task.id}`}>Remaining Hours</Label>
+          <Input
+            id={`log-remaining-${task.id}`}
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder={`${suggestedRemaining}`}
+            value={remainingHours}
+            onChange={(e) => setRemainingHours(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Leave empty to keep {suggestedRemaining}h.
+          </p>
+        </div>
+        <Button
+          className="w-full"
+          size="sm"
+          onClick={handleSave}
+          disabled={!date || hours <= 0}
+        >
+          Log {hours}h
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -13,7 +13,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Popover,
   PopoverContent,
@@ -21,13 +29,34 @@ import {
 } from "@/components/ui/popover";
 import { CalendarIcon, Plus, X } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { formatDate, toUTCDateOnly } from "@/lib/date-utils";
-import type { Release } from "@/lib/types";
+import {
+  DEFAULT_WORKING_WEEKDAYS,
+  formatDate,
+  toUTCDateOnly,
+} from "@/lib/date-utils";
+import { SCHEDULING_STRATEGIES } from "@/lib/scheduling-strategies";
+import type {
+  HolidayCalendar,
+  Release,
+  SchedulingStrategyId,
+} from "@/lib/types";
+
+// Monday first, as indexes into Date.getDay()
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
 
 interface ReleaseDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   release?: Release | null;
+  holidayCalendars: HolidayCalendar[]; // Shared calendars the release can use
   onSave: (release: Omit<Release, "id" | "createdAt" | "updatedAt">) => void;
 }
 
@@ -35,6 +64,7 @@ export function ReleaseDialog({
   open,
   onOpenChange,
   release,
+  holidayCalendars,
   onSave,
 }: ReleaseDialogProps) {
   const [name, setName] = useState("");
@@ -43,8 +73,18 @@ export function ReleaseDialog({
   const [targetEndDate, setTargetEndDate] = useState<Date | undefined>(
     undefined,
   );
+  const [planningHorizonEnd, setPlanningHorizonEnd] = useState<
+    Date | undefined
+  >(undefined);
+  const [priority, setPriority] = useState("");
+  const [schedulingStrategy, setSchedulingStrategy] =
+    useState<SchedulingStrategyId>("priority");
   const [customHolidays, setCustomHolidays] = useState<Date[]>([]);
   const [newHoliday, setNewHoliday] = useState<Date | undefined>();
+  const [workingWeekdays, setWorkingWeekdays] = useState<number[]>(
+    DEFAULT_WORKING_WEEKDAYS,
+  );
+  const [holidayCalendarIds, setHolidayCalendarIds] = useState<string[]>([]);
 
   useEffect(() => {
     if (!open) {
@@ -52,8 +92,13 @@ export function ReleaseDialog({
       setDescription("");
       setStartDate(new Date());
       setTargetEndDate(undefined);
+      setPlanningHorizonEnd(undefined);
+      setPriority("");
+      setSchedulingStrategy("priority");
       setCustomHolidays([]);
       setNewHoliday(undefined);
+      setWorkingWeekdays(DEFAULT_WORKING_WEEKDAYS);
+      setHolidayCalendarIds([]);
       return;
     }
 
@@ -66,19 +111,33 @@ export function ReleaseDialog({
       setTargetEndDate(
         release.targetEndDate ? new Date(release.targetEndDate) : undefined,
       );
+      setPlanningHorizonEnd(
+        release.planningHorizonEnd
+          ? new Date(release.planningHorizonEnd)
+          : undefined,
+      );
+      setPriority(release.priority?.toString() ?? "");
+      setSchedulingStrategy(release.schedulingStrategy ?? "priority");
       setCustomHolidays(
         Array.isArray(release.customHolidays)
           ? release.customHolidays.map((h) => new Date(h))
           : [],
       );
       setNewHoliday(undefined);
+      setWorkingWeekdays(release.workingWeekdays ?? DEFAULT_WORKING_WEEKDAYS);
+      setHolidayCalendarIds(release.holidayCalendarIds ?? []);
     } else {
       setName("");
       setDescription("");
       setStartDate(new Date());
       setTargetEndDate(undefined);
+      setPlanningHorizonEnd(undefined);
+      setPriority("");
+      setSchedulingStrategy("priority");
       setCustomHolidays([]);
       setNewHoliday(undefined);
+      setWorkingWeekdays(DEFAULT_WORKING_WEEKDAYS);
+      setHolidayCalendarIds([]);
     }
   }, [release, open]);
 
@@ -90,8 +149,20 @@ export function ReleaseDialog({
       description: description.trim() || undefined,
       startDate: toUTCDateOnly(startDate),
       targetEndDate: targetEndDate && toUTCDateOnly(targetEndDate),
+      planningHorizonEnd:
+        planningHorizonEnd && toUTCDateOnly(planningHorizonEnd),
+      priority: priority === "" ? undefined : Number.parseInt(priority) || 0,
+      schedulingStrategy:
+        schedulingStrategy === "priority" ? undefined : schedulingStrategy,
       customHolidays: customHolidays.map(toUTCDateOnly),
-      employees: release?.employees || [],
+      // Left unset while it is the default week
+      workingWeekdays:
+        workingWeekdays.join() === DEFAULT_WORKING_WEEKDAYS.join()
+          ? undefined
+          : workingWeekdays,
+      holidayCalendarIds:
+        holidayCalendarIds.length > 0 ? holidayCalendarIds : undefined,
+      members: release?.members || [],
       tasks: release?.tasks || [],
     });
 
@@ -114,6 +185,22 @@ export function ReleaseDialog({
     setCustomHolidays(customHolidays.filter((_, i) => i !== index));
   };
 
+  const toggleWeekday = (day: number) => {
+    const next = workingWeekdays.includes(day)
+      ? workingWeekdays.filter((d) => d !== day)
+      : [...workingWeekdays, day].sort((a, b) => a - b);
+    // At least one day has to stay a working day
+    if (next.length > 0) setWorkingWeekdays(next);
+  };
+
+  const toggleHolidayCalendar = (calendarId: string, checked: boolean) => {
+    setHolidayCalendarIds(
+      checked
+        ? [...holidayCalendarIds, calendarId]
+        : holidayCalendarIds.filter((id) => id !== calendarId),
+    );
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -209,6 +296,157 @@ export function ReleaseDialog({
             </div>
           </div>
 
+          {/* Priority */}
+          <div className="space-y-2">
+            <Label htmlFor="priority">Priority (Optional)</Label>
+            <p className="text-sm text-muted-foreground">
+              When releases share people, the one with the lower number gets
+              their time first. Releases without a priority come last.
+            </p>
+            <Input
+              id="priority"
+              type="number"
+              min="0"
+              step="1"
+              className="w-32"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+              placeholder="e.g. 1"
+            />
+          </div>
+
+          {/* Scheduling Strategy */}
+          <div className="space-y-2">
+            <Label>Scheduling Strategy</Label>
+            <p className="text-sm text-muted-foreground">
+              Which task gets people&apos;s time first when several are ready.
+              Blockers always go before the tasks waiting on them.
+            </p>
+            <Select
+              value={schedulingStrategy}
+              onValueChange={(value) =>
+                setSchedulingStrategy(value as SchedulingStrategyId)
+              }
+            >
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SCHEDULING_STRATEGIES).map((strategy) => (
+                  <SelectItem key={strategy.id} value={strategy.id}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {SCHEDULING_STRATEGIES[schedulingStrategy].description}
+            </p>
+          </div>
+
+          {/* Planning Horizon */}
+          <div className="space-y-2">
+            <Label>Planning Horizon (Optional)</Label>
+            <p className="text-sm text-muted-foreground">
+              Latest date the scheduler may plan work on. Leave empty to plan as
+              far as team capacity periods are defined.
+            </p>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      "flex-1 justify-start text-left font-normal",
+                      !planningHorizonEnd && "text-muted-foreground",
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {planningHorizonEnd
+                      ? formatDate(planningHorizonEnd)
+                      : "Automatic"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={planningHorizonEnd}
+                    onSelect={setPlanningHorizonEnd}
+                    initialFocus
+                    disabled={(date) => date < startDate}
+                  />
+                </PopoverContent>
+              </Popover>
+              {planningHorizonEnd && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPlanningHorizonEnd(undefined)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Work Week */}
+          <div className="space-y-2">
+            <Label>Work Week</Label>
+            <p className="text-sm text-muted-foreground">
+              Days of the week the team works on this release.
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(({ day, label }) => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={
+                    workingWeekdays.includes(day) ? "default" : "outline"
+                  }
+                  className="w-12"
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Holiday Calendars */}
+          <div className="space-y-2">
+            <Label>Holiday Calendars</Label>
+            {holidayCalendars.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No shared holiday calendars yet. Create or import them from
+                Holiday Calendars in the menu.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {holidayCalendars.map((calendar) => (
+                  <div key={calendar.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`holiday-calendar-${calendar.id}`}
+                      checked={holidayCalendarIds.includes(calendar.id)}
+                      onCheckedChange={(checked) =>
+                        toggleHolidayCalendar(calendar.id, !!checked)
+                      }
+                    />
+                    <Label
+                      htmlFor={`holiday-calendar-${calendar.id}`}
+                      className="cursor-pointer font-normal"
+                    >
+                      {calendar.name}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {calendar.holidays.length} days
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Custom Holidays */}
           <div className="space-y-4">
             <Label>Custom Holidays</Label>
@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { TrendingUp } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { runInSlices, type StepProgress } from "@/lib/long-running";
+import {
+  DEFAULT_FORECAST_ITERATIONS,
+  forecastSteps,
+  hasEstimateRange,
+  type ReleaseForecast as Forecast,
+} from "@/lib/simulation";
+import type { Employee, HolidayCalendar, Release } from "@/lib/types";
+
+interface ReleaseForecastProps {
+  release: Release;
+  releases: Release[]; // All releases, scheduled together as in the chart
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+// A forecast and the plan it was simulated on
+interface ForecastRun {
+  releaseId: string;
+  forecast: Forecast;
+  releases: Release[];
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+export function ReleaseForecast({
+  release,
+  releases,
+  roster,
+  holidayCalendars,
+}: ReleaseForecastProps) {
+  // Hundreds of portfolio reschedules, so they only run when asked for and
+  // a slice at a time
+  const [run, setRun] = useState<ForecastRun | null>(null);
+  const [progress, setProgress] = useState<StepProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const handleRun = () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: DEFAULT_FORECAST_ITERATIONS });
+    runInSlices(
+      forecastSteps(release, releases, roster, {
+        today: new Date(),
+        holidayCalendars,
+      }),
+      { signal: controller.signal, onProgress: setProgress },
+    ).then((forecast) => {
+      if (controller.signal.aborted) return;
+      if (forecast) {
+        setRun({
+          releaseId: release.id,
+          forecast,
+          releases,
+          roster,
+          holidayCalendars,
+        });
+      }
+      setProgress(null);
+    });
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    setProgress(null);
+  };
+
+  if (!hasEstimateRange(release)) {
+    return (
+      <div className="border-t pt-4">
+        <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+          <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          Release Forecast
+        </h4>
+        <p className="text-sm text-muted-foreground">
+          Add optimistic, most likely and pessimistic hours to tasks to see how
+          confident the calculated release date is.
+        </p>
+      </div>
+    );
+  }
+
+  const current = run?.releaseId === release.id ? run : null;
+  const forecast = current?.forecast;
+  const outdated =
+    !!current &&
+    (current.releases !== releases ||
+      current.roster !== roster ||
+      current.holidayCalendars !== holidayCalendars);
+
+  const runButton = progress ? (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">
+        Simulating… {progress.done}/{progress.total}
+      </span>
+      <Button variant="outline" size="sm" onClick={handleCancel}>
+        Cancel
+      </Button>
+    </div>
+  ) : (
+    <Button variant="outline" size="sm" onClick={handleRun}>
+      {`${forecast ? "Rerun" : "Run"} ${DEFAULT_FORECAST_ITERATIONS} simulations`}
+    </Button>
+  );
+
+  if (!forecast) {
+    return (
+      <div className="border-t pt-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <TrendingUp className="h-4 w-4 text-primary" />
+            Release Forecast
+          </h4>
+          {runButton}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Simulate the release with sampled task estimates to see how confident
+          the calculated release date is.
+        </p>
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(1, ...forecast.distribution.map((b) => b.count));
+  const p50 = forecast.p50?.getTime();
+  const p80 = forecast.p80?.getTime();
+  const p95 = forecast.p95?.getTime();
+
+  const getBarColor = (date: string) => {
+    const time = new Date(date + "T00:00:00").getTime();
+    if (p50 !== undefined && time <= p50) return "bg-emerald-500";
+    if (p80 !== undefined && time <= p80) return "bg-amber-400";
+    if (p95 !== undefined && time <= p95) return "bg-orange-500";
+    return "bg-rose-500";
+  };
+
+  const criticalTasks = release.tasks
+    .map((task) => ({
+      task,
+      probability: forecast.criticalProbability[task.id] || 0,
+    }))
+    .filter((item) => item.probability > 0)
+    .sort((a, b) => b.probability - a.probability)
+    .slice(0, 5);
+
+  return (
+    <div className="border-t pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <TrendingUp className="h-4 w-4 text-primary" />
+          Release Forecast
+        </h4>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground">
+            {forecast.completedRuns}/{forecast.iterations} simulated runs
+            scheduled
+          </span>
+          {runButton}
+        </div>
+      </div>
+      {outdated && (
+        <p className="text-xs text-muted-foreground">
+          The plan changed since this forecast; rerun it to catch up.
+        </p>
+      )}
+
+      {forecast.completedRuns === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No simulated run could schedule every task. Resolve unscheduled tasks
+          in the timeline first.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            {(
+              [
+                ["P50", forecast.p50],
+                ["P80", forecast.p80],
+                ["P95", forecast.p95],
+              ] as const
+            ).map(([label, date]) => (
+              <div key={label} className="rounded-lg bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground">
+                  {label} release date
+                </p>
+                <p className="font-medium">{date ? formatDate(date) : "—"}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-end gap-1 h-24">
+            {forecast.distribution.map((bucket) => (
+              <Tooltip key={bucket.date}>
+                <TooltipTrigger asChild>
+                  <div
+                    className={`flex-1 min-w-1 rounded-t ${getBarColor(bucket.date)}`}
+                    style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent>
+                  {formatDate(bucket.date + "T00:00:00")}: {bucket.count}{" "}
+                  run(s), {Math.round(bucket.cumulative * 100)}% done by then
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+
+          {criticalTasks.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Chance of landing on the critical path
+              </p>
+              {criticalTasks.map(({ task, probability }) => (
+                <div key={task.id} className="flex items-center gap-3">
+                  <span className="text-sm truncate w-48">{task.name}</span>
+                  <Progress value={probability * 100} className="h-2 flex-1" />
+                  <Badge variant="outline" className="text-xs w-12">
+                    {Math.round(probability * 100)}%
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
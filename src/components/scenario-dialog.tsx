@@ -0,0 +1,551 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitBranch, Plus, X } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { getReleaseEmployees } from "@/lib/roster";
+import { applyScenario, createScenarioChanges } from "@/lib/scenarios";
+import { getChildrenMap, getDescendantIds } from "@/lib/task-hierarchy";
+import type {
+  Employee,
+  Release,
+  Scenario,
+  ScenarioChanges,
+  Task,
+} from "@/lib/types";
+
+interface ScenarioDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  release: Release;
+  roster: Employee[];
+  scenario: Scenario | null; // null creates a new one
+  onSave: (name: string, changes: ScenarioChanges) => void;
+}
+
+export function ScenarioDialog({
+  open,
+  onOpenChange,
+  release,
+  roster,
+  scenario,
+  onSave,
+}: ScenarioDialogProps) {
+  const [name, setName] = useState("");
+  const [changes, setChanges] = useState<ScenarioChanges>(
+    createScenarioChanges(),
+  );
+  const [leave, setLeave] = useState({ employeeId: "", from: "", to: "" });
+  const [newPerson, setNewPerson] = useState({
+    name: "",
+    position: "Contractor",
+    hoursPerDay: 8,
+  });
+  const [newHoliday, setNewHoliday] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(scenario?.name ?? "");
+    setChanges(scenario?.changes ?? createScenarioChanges());
+    setLeave({ employeeId: "", from: "", to: "" });
+    setNewPerson({ name: "", position: "Contractor", hoursPerDay: 8 });
+    setNewHoliday("");
+  }, [open, scenario]);
+
+  const plan = useMemo(
+    () => applyScenario(release, roster, changes),
+    [release, roster, changes],
+  );
+  const baseEmployees = getReleaseEmployees(release, roster);
+  const scenarioEmployees = getReleaseEmployees(plan.release, plan.roster);
+  const children = getChildrenMap(release.tasks);
+
+  const getTask = (task: Task): Task => {
+    const update = changes.taskUpdates.find((u) => u.taskId === task.id);
+    return update ? { ...task, ...update } : task;
+  };
+
+  const toggleEmployee = (employeeId: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      removedEmployeeIds: prev.removedEmployeeIds.includes(employeeId)
+        ? prev.removedEmployeeIds.filter((id) => id !== employeeId)
+        : [...prev.removedEmployeeIds, employeeId],
+    }));
+  };
+
+  // Their leave goes with them and their tasks are unassigned again
+  const removeAddedEmployee = (employeeId: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      addedEmployees: prev.addedEmployees.filter((e) => e.id !== employeeId),
+      addedCapacityPeriods: prev.addedCapacityPeriods.filter(
+        (p) => p.employeeId !== employeeId,
+      ),
+      taskUpdates: prev.taskUpdates.map((u) =>
+        u.assignedEmployeeId === employeeId
+          ? { ...u, assignedEmployeeId: null }
+          : u,
+      ),
+    }));
+  };
+
+  const addLeave = () => {
+    if (!leave.employeeId || !leave.from || !leave.to || leave.to < leave.from)
+      return;
+    setChanges((prev) => ({
+      ...prev,
+      addedCapacityPeriods: [
+        ...prev.addedCapacityPeriods,
+        {
+          employeeId: leave.employeeId,
+          period: {
+            id: crypto.randomUUID(),
+            startDate: leave.from,
+            endDate: leave.to,
+            hoursPerDay: 0,
+            description: "Leave",
+          },
+        },
+      ],
+    }));
+    setLeave({ employeeId: "", from: "", to: "" });
+  };
+
+  const removeLeave = (periodId: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      addedCapacityPeriods: prev.addedCapacityPeriods.filter(
+        (p) => p.period.id !== periodId,
+      ),
+    }));
+  };
+
+  const addPerson = () => {
+    if (!newPerson.name.trim()) return;
+    setChanges((prev) => ({
+      ...prev,
+      addedEmployees: [
+        ...prev.addedEmployees,
+        {
+          id: crypto.randomUUID(),
+          name: newPerson.name.trim(),
+          position: newPerson.position.trim() || "Contractor",
+          capacityPeriods: [],
+          defaultHoursPerDay: newPerson.hoursPerDay,
+        },
+      ],
+    }));
+    setNewPerson({ name: "", position: "Contractor", hoursPerDay: 8 });
+  };
+
+  const updateTask = (taskId: string, fields: Partial<Task>) => {
+    setChanges((prev) => {
+      const update = prev.taskUpdates.find((u) => u.taskId === taskId);
+      return {
+        ...prev,
+        taskUpdates: [
+          ...prev.taskUpdates.filter((u) => u.taskId !== taskId),
+          { ...update, ...fields, taskId },
+        ],
+      };
+    });
+  };
+
+  // An epic goes in or out of scope together with everything under it
+  const toggleTask = (taskId: string) => {
+    const ids = [taskId, ...getDescendantIds(taskId, children)];
+    setChanges((prev) => {
+      const removing = !prev.removedTaskIds.includes(taskId);
+      return {
+        ...prev,
+        removedTaskIds: removing
+          ? Array.from(new Set([...prev.removedTaskIds, ...ids]))
+          : prev.removedTaskIds.filter((id) => !ids.includes(id)),
+      };
+    });
+  };
+
+  const toggleHoliday = (date: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      removedHolidays: prev.removedHolidays.includes(date)
+        ? prev.removedHolidays.filter((d) => d !== date)
+        : [...prev.removedHolidays, date],
+    }));
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday || changes.addedHolidays.includes(newHoliday)) return;
+    setChanges((prev) => ({
+      ...prev,
+      addedHolidays: [...prev.addedHolidays, newHoliday].sort(),
+    }));
+    setNewHoliday("");
+  };
+
+  const removeAddedHoliday = (date: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      addedHolidays: prev.addedHolidays.filter((d) => d !== date),
+    }));
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim(), changes);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            {scenario ? "Edit Scenario" : "New Scenario"}
+          </DialogTitle>
+          <DialogDescription>
+            Changes stay in the scenario; the release plan is only touched when
+            the scenario is promoted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="scenario-name">Name *</Label>
+            <Input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. +1 contractor"
+            />
+          </div>
+
+          {/* People */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">People</h4>
+            {[...baseEmployees, ...changes.addedEmployees].map((employee) => {
+              const added = changes.addedEmployees.includes(employee);
+              const leaves = changes.addedCapacityPeriods.filter(
+                (p) => p.employeeId === employee.id,
+              );
+              return (
+                <div
+                  key={employee.id}
+                  className="flex items-center gap-3 p-2 border rounded-lg text-sm"
+                >
+                  {added ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => removeAddedEmployee(employee.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Checkbox
+                      id={`scenario-member-${employee.id}`}
+                      checked={
+                        !changes.removedEmployeeIds.includes(employee.id)
+                      }
+                      onCheckedChange={() => toggleEmployee(employee.id)}
+                    />
+                  )}
+                  <Label
+                    htmlFor={`scenario-member-${employee.id}`}
+                    className="font-medium"
+                  >
+                    {employee.name}
+                  </Label>
+                  {added && (
+                    <Badge variant="secondary" className="text-xs">
+                      Added
+                    </Badge>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {leaves.map(({ period }) => (
+                      <Badge
+                        key={period.id}
+                        variant="outline"
+                        className="text-xs gap-1"
+                      >
+                        Leave {formatDate(period.startDate)} -{" "}
+                        {formatDate(period.endDate)}
+                        <button
+                          type="button"
+                          onClick={() => removeLeave(period.id)}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">Leave for</Label>
+                <Select
+                  value={leave.employeeId}
+                  onValueChange={(employeeId) =>
+                    setLeave((prev) => ({ ...prev, employeeId }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scenarioEmployees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        {employee.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">From</Label>
+                <Input
+                  type="date"
+                  value={leave.from}
+                  onChange={(e) =>
+                    setLeave((prev) => ({ ...prev, from: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">To</Label>
+                <Input
+                  type="date"
+                  value={leave.to}
+                  min={leave.from}
+                  onChange={(e) =>
+                    setLeave((prev) => ({ ...prev, to: e.target.value }))
+                  }
+                />
+              </div>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={addLeave}
+                disabled={!leave.employeeId || !leave.from || !leave.to}
+              >
+                <Plus className="h-4 w-4" />
+                Add Leave
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">New person</Label>
+                <Input
+                  value={newPerson.name}
+                  onChange={(e) =>
+                    setNewPerson((prev) => ({ ...prev, name: e.target.value }))
+                  }
+                  placeholder="Name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Position</Label>
+                <Input
+                  value={newPerson.position}
+                  onChange={(e) =>
+                    setNewPerson((prev) => ({
+                      ...prev,
+                      position: e.target.value,
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Hours per Day</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  value={newPerson.hoursPerDay}
+                  onChange={(e) =>
+                    setNewPerson((prev) => ({
+                      ...prev,
+                      hoursPerDay: Number.parseFloat(e.target.value) || 0,
+                    }))
+                  }
+                />
+              </div>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={addPerson}
+                disabled={!newPerson.name.trim()}
+              >
+                <Plus className="h-4 w-4" />
+                Add Person
+              </Button>
+            </div>
+          </div>
+
+          {/* Tasks */}
+          {release.tasks.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Tasks</h4>
+              {release.tasks.map((base) => {
+                const task = getTask(base);
+                const inScope = !changes.removedTaskIds.includes(task.id);
+                const isEpic = children.has(task.id);
+                const isMilestone = task.type === "milestone";
+                return (
+                  <div
+                    key={task.id}
+                    className="flex items-center gap-3 p-2 border rounded-lg text-sm"
+                  >
+                    <Checkbox
+                      id={`scenario-task-${task.id}`}
+                      checked={inScope}
+                      onCheckedChange={() => toggleTask(task.id)}
+                    />
+                    <Label
+                      htmlFor={`scenario-task-${task.id}`}
+                      className={`flex-1 truncate ${inScope ? "" : "line-through text-muted-foreground"}`}
+                    >
+                      {task.name}
+                    </Label>
+                    {inScope && !isEpic && !isMilestone && (
+                      <>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          className="w-24 h-8"
+                          value={task.estimatedHours}
+                          onChange={(e) =>
+                            updateTask(task.id, {
+                              estimatedHours:
+                                Number.parseFloat(e.target.value) || 0,
+                            })
+                          }
+                        />
+                        <span className="text-muted-foreground">h</span>
+                        <Select
+                          value={task.assignedEmployeeId ?? "none"}
+                          onValueChange={(value) =>
+                            updateTask(task.id, {
+                              assignedEmployeeId:
+                                value === "none" ? null : value,
+                              // Empty rather than unset, so it survives saving
+                              assignments: [],
+                              splitByAvailability: false,
+                            })
+                          }
+                        >
+                          <SelectTrigger className="w-40 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Unassigned</SelectItem>
+                            {scenarioEmployees.map((employee) => (
+                              <SelectItem key={employee.id} value={employee.id}>
+                                {employee.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Holidays */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Custom Holidays</h4>
+            <div className="flex flex-wrap gap-2">
+              {release.customHolidays.map((date) => {
+                const removed = changes.removedHolidays.includes(date);
+                return (
+                  <Badge
+                    key={date}
+                    variant="outline"
+                    className={`cursor-pointer ${removed ? "line-through text-muted-foreground" : ""}`}
+                    onClick={() => toggleHoliday(date)}
+                  >
+                    {formatDate(date)}
+                  </Badge>
+                );
+              })}
+              {changes.addedHolidays.map((date) => (
+                <Badge key={date} variant="secondary" className="gap-1">
+                  {formatDate(date)}
+                  <button
+                    type="button"
+                    onClick={() => removeAddedHoliday(date)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-48"
+                value={newHoliday}
+                onChange={(e) => setNewHoliday(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={addHoliday}
+                disabled={!newHoliday}
+              >
+                <Plus className="h-4 w-4" />
+                Add Holiday
+              </Button>
+            </div>
+            {release.customHolidays.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Click a release holiday to work on it in this scenario.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            {scenario ? "Save Scenario" : "Create Scenario"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, GitBranch, GitMerge, Plus, Trash2 } from "lucide-react";
+import { GanttChart } from "@/components/gantt-chart";
+import { formatDate } from "@/lib/date-utils";
+import { calculatePortfolioSchedule } from "@/lib/portfolio";
+import {
+  applyScenario,
+  countScenarioChanges,
+  type ScenarioPlan,
+} from "@/lib/scenarios";
+import type {
+  Employee,
+  GanttData,
+  HolidayCalendar,
+  Release,
+  Scenario,
+} from "@/lib/types";
+
+interface ScenarioPanelProps {
+  release: Release;
+  ganttData: GanttData; // The release as scheduled in the chart
+  releases: Release[]; // All releases, the scenario stands in for `release`
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+  onCreateScenario: () => void;
+  onEditScenario: (scenario: Scenario) => void;
+  onDeleteScenario: (scenarioId: string) => void;
+  onPromoteScenario: (scenarioId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function ScenarioPanel({
+  release,
+  ganttData,
+  releases,
+  roster,
+  holidayCalendars,
+  onCreateScenario,
+  onEditScenario,
+  onDeleteScenario,
+  onPromoteScenario,
+}: ScenarioPanelProps) {
+  const scenarios = useMemo(() => release.scenarios || [], [release]);
+  const [comparedId, setComparedId] = useState<string | null>(null);
+  const compared =
+    scenarios.find((s) => s.id === comparedId) ?? scenarios[0] ?? null;
+
+  // The same schedule the timeline shows, with the scenario in place of the
+  // release
+  const outcomes = useMemo(() => {
+    const schedule = (plan: ScenarioPlan) =>
+      calculatePortfolioSchedule(
+        releases.map((r) => (r.id === release.id ? plan.release : r)),
+        plan.roster,
+        { today: new Date(), holidayCalendars },
+      ).releases[release.id];
+
+    return {
+      plan: ganttData.releaseDate,
+      scenarios: new Map(
+        scenarios.map((scenario) => {
+          const plan = applyScenario(release, roster, scenario.changes);
+          const scheduled = schedule(plan);
+          return [
+            scenario.id,
+            { plan, ganttData: scheduled, releaseDate: scheduled.releaseDate },
+          ];
+        }),
+      ),
+    };
+  }, [ganttData, release, releases, roster, holidayCalendars, scenarios]);
+
+  // Calendar days against the plan, e.g. "-3d"
+  const formatDelta = (date: Date | null) => {
+    if (!date || !outcomes.plan) return null;
+    const days = Math.round(
+      (date.getTime() - outcomes.plan.getTime()) / DAY_MS,
+    );
+    if (days === 0) return null;
+    return `${days > 0 ? "+" : ""}${days}d`;
+  };
+
+  const comparedOutcome = compared && outcomes.scenarios.get(compared.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold font-serif">
+            What-if Scenarios
+          </h3>
+          <p className="text-muted-foreground">
+            Try changes to people, tasks and holidays without touching the plan
+          </p>
+        </div>
+        <Button onClick={onCreateScenario} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New Scenario
+        </Button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mb-4">
+              <GitBranch className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold mb-2">No Scenarios Yet</h3>
+            <p className="text-muted-foreground text-center mb-4">
+              Fork the release into a scenario such as &quot;+1 contractor&quot;
+              to see how it moves the end date.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">End Dates</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className="flex items-center gap-2">
+                Plan
+                <Badge variant="secondary" className="text-xs">
+                  In use
+                </Badge>
+              </span>
+              <span className="font-medium">
+                {outcomes.plan ? formatDate(outcomes.plan) : "Not scheduled"}
+              </span>
+            </div>
+            {scenarios.map((scenario) => {
+              const releaseDate =
+                outcomes.scenarios.get(scenario.id)?.releaseDate ?? null;
+              const delta = formatDelta(releaseDate);
+              const changeCount = countScenarioChanges(scenario.changes);
+              return (
+                <div
+                  key={scenario.id}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <button
+                    type="button"
+                    className={`flex items-center gap-2 text-left ${scenario.id === compared?.id ? "font-medium" : ""}`}
+                    onClick={() => setComparedId(scenario.id)}
+                  >
+                    <GitBranch className="h-4 w-4 text-muted-foreground" />
+                    {scenario.name}
+                    <span className="text-muted-foreground">
+                      {changeCount} change{changeCount === 1 ? "" : "s"}
+                    </span>
+                  </button>
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {releaseDate ? formatDate(releaseDate) : "Not scheduled"}
+                    </span>
+                    {delta && (
+                      <Badge
+                        variant={
+                          delta.startsWith("+") ? "destructive" : "default"
+                        }
+                        className="text-xs"
+                      >
+                        {delta}
+                      </Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => onEditScenario(scenario)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 gap-1"
+                      onClick={() => onPromoteScenario(scenario.id)}
+                    >
+                      <GitMerge className="h-4 w-4" />
+                      Promote
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                      onClick={() => onDeleteScenario(scenario.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </span>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {compared && comparedOutcome && (
+        <div className="grid grid-cols-1 2xl:grid-cols-2 gap-6">
+          <div className="min-w-0 space-y-2">
+            <h4 className="text-sm font-medium">Plan</h4>
+            <GanttChart
+              release={release}
+              ganttData={ganttData}
+              releases={releases}
+              roster={roster}
+              holidayCalendars={holidayCalendars}
+            />
+          </div>
+          <div className="min-w-0 space-y-2">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              <GitBranch className="h-4 w-4" />
+              {compared.name}
+            </h4>
+            <GanttChart
+              release={comparedOutcome.plan.release}
+              ganttData={comparedOutcome.ganttData}
+              releases={releases.map((r) =>
+                r.id === release.id ? comparedOutcome.plan.release : r,
+              )}
+              roster={comparedOutcome.plan.roster}
+              holidayCalendars={holidayCalendars}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
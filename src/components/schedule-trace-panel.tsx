@@ -0,0 +1,193 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Search, X } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { formatDependency } from "@/lib/dependencies";
+import type {
+  GanttTask,
+  Release,
+  ScheduleTrace,
+  StaffedRelease,
+} from "@/lib/types";
+
+interface ScheduleTracePanelProps {
+  task: GanttTask;
+  release: StaffedRelease;
+  releases?: Release[]; // To name blockers and bookings from other releases
+  onClose: () => void;
+}
+
+const CONSTRAINT_LABELS: Record<
+  NonNullable<ScheduleTrace["bindingConstraint"]>,
+  string
+> = {
+  startNoEarlierThan: "Start no earlier than",
+  mustStartOn: "Must start on",
+};
+
+export function ScheduleTracePanel({
+  task,
+  release,
+  releases = [],
+  onClose,
+}: ScheduleTracePanelProps) {
+  const trace = task.trace;
+  const sourceTask = release.tasks.find((t) => t.id === task.id);
+  const assignee = release.employees.find(
+    (e) => e.id === sourceTask?.assignedEmployeeId,
+  );
+  const taskName = (taskId: string) => {
+    for (const r of [release, ...releases]) {
+      const t = r.tasks.find((t) => t.id === taskId);
+      if (t) return r.id === release.id ? t.name : `${t.name} (${r.name})`;
+    }
+    return "Unknown task";
+  };
+
+  const describeDriver = (trace: ScheduleTrace) => {
+    if (trace.driver === "blocker" && trace.bindingDependency) {
+      const dependency = trace.bindingDependency;
+      return `blocker "${taskName(dependency.taskId)}" (${formatDependency(dependency)})`;
+    }
+    if (trace.driver === "constraint" && trace.bindingConstraint) {
+      const date = sourceTask?.[trace.bindingConstraint];
+      const label = CONSTRAINT_LABELS[trace.bindingConstraint];
+      return `constraint "${label}${date ? ` ${formatDate(date)}` : ""}"`;
+    }
+    if (trace.driver === "target_date") {
+      return "its target date, nothing leads up to this milestone";
+    }
+    if (trace.driver === "today") {
+      return "today, open work is never planned in the past";
+    }
+    return "the release start date";
+  };
+
+  const describePeriod = (periodId: string, description?: string) => {
+    const period = assignee?.capacityPeriods.find((p) => p.id === periodId);
+    if (!period) return description || "Capacity period";
+    const range = `${formatDate(period.startDate)} – ${formatDate(period.endDate)}`;
+    return description ? `${description} (${range})` : range;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Search className="h-4 w-4" />
+            Why is &quot;{task.name}&quot; scheduled here?
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {!trace || !task.startDate || !task.endDate ? (
+          <p className="text-muted-foreground">
+            This task has no dates, see the notices above the timeline for the
+            reason.
+          </p>
+        ) : trace.driver === "actual_dates" ? (
+          <p>
+            Completed, shown at its recorded dates{" "}
+            <span className="font-medium">
+              {formatDate(task.startDate)} – {formatDate(task.endDate)}
+            </span>
+            .
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <p>
+                Earliest possible start{" "}
+                <span className="font-medium">
+                  {formatDate(trace.earliestStart)}
+                </span>
+                , set by {describeDriver(trace)}.
+              </p>
+              <p>
+                Scheduled{" "}
+                <span className="font-medium">
+                  {formatDate(task.startDate)} – {formatDate(task.endDate)}
+                </span>
+                {task.startDate > trace.earliestStart &&
+                  ", later than that because of the days below"}
+                .
+              </p>
+            </div>
+
+            {trace.fullyAllocatedDays.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">
+                  Assignee fully booked by higher-priority tasks (
+                  {trace.fullyAllocatedDays.length} day
+                  {trace.fullyAllocatedDays.length > 1 ? "s" : ""})
+                </p>
+                <ul className="list-disc ml-5 text-muted-foreground">
+                  {trace.fullyAllocatedDays.map((day) => (
+                    <li key={day.date}>
+                      {formatDate(day.date)}:{" "}
+                      {day.taskIds.map(taskName).join(", ")}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {trace.unavailableDays.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">Assignee unavailable</p>
+                <div className="flex flex-wrap gap-1">
+                  {trace.unavailableDays.map((date) => (
+                    <Badge key={date} variant="outline" className="text-xs">
+                      {formatDate(date)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {trace.nonWorkingDays.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">Skipped weekends and holidays</p>
+                <div className="flex flex-wrap gap-1">
+                  {trace.nonWorkingDays.map((day) => (
+                    <Badge
+                      key={day.date}
+                      variant={
+                        day.reason === "holiday" ? "secondary" : "outline"
+                      }
+                      className="text-xs"
+                    >
+                      {formatDate(day.date)}
+                      {day.reason === "holiday" && " 🎉"}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {trace.capacityPeriods.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">Capacity consumed</p>
+                <ul className="list-disc ml-5 text-muted-foreground">
+                  {trace.capacityPeriods.map((period) => (
+                    <li key={period.periodId}>
+                      {describePeriod(period.periodId, period.description)}:{" "}
+                      {period.hours}h
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
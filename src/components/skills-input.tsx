@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import { normalizeSkill } from "@/lib/auto-assign";
+
+interface SkillsInputProps {
+  id: string;
+  value: string[];
+  onChange: (skills: string[]) => void;
+  suggestions?: string[]; // Skills already in use, offered while typing
+  placeholder?: string;
+}
+
+export function SkillsInput({
+  id,
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = "e.g., frontend",
+}: SkillsInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addSkill = () => {
+    const skill = draft.trim();
+    if (!skill) return;
+    if (!value.some((s) => normalizeSkill(s) === normalizeSkill(skill))) {
+      onChange([...value, skill]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={draft}
+          list={`${id}-suggestions`}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addSkill();
+            }
+          }}
+          placeholder={placeholder}
+        />
+        <datalist id={`${id}-suggestions`}>
+          {suggestions
+            .filter(
+              (s) =>
+                !value.some((v) => normalizeSkill(v) === normalizeSkill(s)),
+            )
+            .map((skill) => (
+              <option key={skill} value={skill} />
+            ))}
+        </datalist>
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={addSkill}
+          disabled={!draft.trim()}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((skill) => (
+            <div
+              key={skill}
+              className="flex items-center gap-1 bg-muted px-2 py-1 rounded-md text-sm"
+            >
+              <span>{skill}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                onClick={() => onChange(value.filter((s) => s !== skill))}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ListOrdered } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import {
+  compareSchedulingStrategies,
+  type StrategyOutcome,
+} from "@/lib/portfolio";
+import { SCHEDULING_STRATEGIES } from "@/lib/scheduling-strategies";
+import type {
+  Employee,
+  HolidayCalendar,
+  Release,
+  SchedulingStrategyId,
+} from "@/lib/types";
+
+interface StrategyComparisonProps {
+  release: Release;
+  releases: Release[]; // All releases, scheduled together as in the chart
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+  onSelectStrategy: (strategy: SchedulingStrategyId) => void;
+}
+
+// Outcomes and the plan they were compared on
+interface ComparisonRun {
+  releaseId: string;
+  outcomes: StrategyOutcome[];
+  releases: Release[];
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function StrategyComparison({
+  release,
+  releases,
+  roster,
+  holidayCalendars,
+  onSelectStrategy,
+}: StrategyComparisonProps) {
+  // A portfolio schedule per strategy, so they only run when asked for
+  const [run, setRun] = useState<ComparisonRun | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (release.tasks.length === 0) return null;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Lets the button show progress before the comparison blocks
+    setTimeout(() => {
+      setRun({
+        releaseId: release.id,
+        outcomes: compareSchedulingStrategies(release, releases, roster, {
+          today: new Date(),
+          holidayCalendars,
+        }),
+        releases,
+        roster,
+        holidayCalendars,
+      });
+      setRunning(false);
+    }, 0);
+  };
+
+  const completed = run?.releaseId === release.id ? run : null;
+  const outdated =
+    !!completed &&
+    (completed.releases !== releases ||
+      completed.roster !== roster ||
+      completed.holidayCalendars !== holidayCalendars);
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <ListOrdered className="h-4 w-4 text-primary" />
+        Scheduling Strategies
+      </h4>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleRun}
+        disabled={running}
+      >
+        {running ? "Comparing…" : completed ? "Compare again" : "Compare"}
+      </Button>
+    </div>
+  );
+
+  if (!completed) {
+    return (
+      <div className="border-t pt-4 space-y-3">
+        {header}
+        <p className="text-sm text-muted-foreground">
+          Compare the release date each strategy gives when deciding which ready
+          task gets people&apos;s time first.
+        </p>
+      </div>
+    );
+  }
+
+  const { outcomes } = completed;
+  const current = release.schedulingStrategy ?? "priority";
+  const currentDate = outcomes.find((o) => o.strategy === current)?.releaseDate;
+  const earliest = Math.min(
+    ...outcomes.map((o) => o.releaseDate?.getTime() ?? Infinity),
+  );
+
+  // Calendar days against the strategy in use, e.g. "-3d"
+  const formatDelta = (date: Date | null) => {
+    if (!date || !currentDate) return null;
+    const days = Math.round((date.getTime() - currentDate.getTime()) / DAY_MS);
+    if (days === 0) return null;
+    return `${days > 0 ? "+" : ""}${days}d`;
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      {header}
+      <p className="text-sm text-muted-foreground">
+        The release date each strategy gives when deciding which ready task gets
+        people&apos;s time first.
+      </p>
+      {outdated && (
+        <p className="text-xs text-muted-foreground">
+          The plan changed since this comparison; compare again to catch up.
+        </p>
+      )}
+      <div className="space-y-2">
+        {outcomes.map((outcome) => {
+          const strategy = SCHEDULING_STRATEGIES[outcome.strategy];
+          const delta = formatDelta(outcome.releaseDate);
+          return (
+            <div
+              key={outcome.strategy}
+              className="flex items-center justify-between gap-3 text-sm"
+            >
+              <span className="flex items-center gap-2">
+                {strategy.label}
+                {outcome.strategy === current && (
+                  <Badge variant="secondary" className="text-xs">
+                    In use
+                  </Badge>
+                )}
+                {outcome.releaseDate?.getTime() === earliest && (
+                  <Badge variant="outline" className="text-xs">
+                    Earliest
+                  </Badge>
+                )}
+              </span>
+              <span className="flex items-center gap-3 text-muted-foreground">
+                {outcome.unscheduledCount > 0 && (
+                  <span>{outcome.unscheduledCount} unscheduled</span>
+                )}
+                {outcome.violationCount > 0 && (
+                  <span>{outcome.violationCount} constraint(s) missed</span>
+                )}
+                <span className="font-medium text-foreground">
+                  {outcome.releaseDate
+                    ? formatDate(outcome.releaseDate)
+                    : "Not scheduled"}
+                </span>
+                {delta && (
+                  <Badge
+                    variant={delta.startsWith("+") ? "destructive" : "default"}
+                    className="text-xs"
+                  >
+                    {delta}
+                  </Badge>
+                )}
+                {outcome.strategy !== current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => onSelectStrategy(outcome.strategy)}
+                  >
+                    Use
+                  </Button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
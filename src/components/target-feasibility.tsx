@@ -0,0 +1,77 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Target } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import type { GanttData } from "@/lib/types";
+
+interface TargetFeasibilityProps {
+  ganttData: GanttData; // The release as scheduled in the chart
+}
+
+export function TargetFeasibility({ ganttData }: TargetFeasibilityProps) {
+  const target = ganttData.target;
+  if (!target) return null;
+
+  const overdue = ganttData.tasks
+    .filter((t) => t.latestStartPassed && !t.isEpic)
+    .sort((a, b) => a.latestStart!.getTime() - b.latestStart!.getTime());
+
+  return (
+    <div className="border-t pt-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Target className="h-4 w-4 text-primary" />
+          Target Date
+        </h4>
+        {target.feasible ? (
+          <Badge variant="secondary">On track</Badge>
+        ) : target.daysLate === null ? (
+          <Badge variant="outline">Not fully scheduled</Badge>
+        ) : (
+          <Badge variant="destructive">
+            Missed by {target.daysLate} working day
+            {target.daysLate > 1 ? "s" : ""}
+          </Badge>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-8 gap-y-2 text-sm">
+        <div>
+          <span className="text-muted-foreground">Target: </span>
+          {formatDate(target.targetDate)}
+        </div>
+        <div>
+          <span className="text-muted-foreground">Calculated: </span>
+          {ganttData.releaseDate
+            ? formatDate(ganttData.releaseDate)
+            : "Not scheduled"}
+        </div>
+        {target.daysLate !== null && target.daysLate < 0 && (
+          <div>
+            <span className="text-muted-foreground">Spare: </span>
+            {-target.daysLate} working day{target.daysLate < -1 ? "s" : ""}
+          </div>
+        )}
+      </div>
+      {overdue.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="text-muted-foreground">
+            {overdue.length} task{overdue.length > 1 ? "s" : ""} should already
+            have started to meet the target:
+          </p>
+          {overdue.slice(0, 5).map((task) => (
+            <div
+              key={task.id}
+              className="flex items-center justify-between gap-3"
+            >
+              <span className="truncate">{task.name}</span>
+              <span className="text-muted-foreground flex-shrink-0">
+                latest start {formatDate(task.latestStart!)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
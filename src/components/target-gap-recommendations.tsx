@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Lightbulb } from "lucide-react";
+import { formatDate } from "@/lib/date-utils";
+import { runInSlices, type StepProgress } from "@/lib/long-running";
+import {
+  targetGapSteps,
+  type GapOutcome,
+  type TargetGapAnalysis,
+} from "@/lib/target-gap";
+import type { Employee, HolidayCalendar, Release } from "@/lib/types";
+
+interface TargetGapRecommendationsProps {
+  release: Release;
+  releases: Release[]; // All releases, scheduled together as in the chart
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+// An analysis and the plan it was made on
+interface AnalysisRun {
+  releaseId: string;
+  analysis: TargetGapAnalysis | null;
+  releases: Release[];
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
+}
+
+export function TargetGapRecommendations({
+  release,
+  releases,
+  roster,
+  holidayCalendars,
+}: TargetGapRecommendationsProps) {
+  // Dozens of portfolio reschedules, so they only run when asked for and
+  // a slice at a time
+  const [run, setRun] = useState<AnalysisRun | null>(null);
+  const [progress, setProgress] = useState<StepProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  if (!release.targetEndDate) return null;
+
+  const handleRun = () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: 1 });
+    runInSlices(
+      targetGapSteps(release, releases, roster, {
+        today: new Date(),
+        holidayCalendars,
+      }),
+      { signal: controller.signal, onProgress: setProgress },
+    ).then((analysis) => {
+      if (controller.signal.aborted) return;
+      setRun({
+        releaseId: release.id,
+        analysis,
+        releases,
+        roster,
+        holidayCalendars,
+      });
+      setProgress(null);
+    });
+  };
+
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    setProgress(null);
+  };
+
+  const completed = run?.releaseId === release.id ? run : null;
+  const outdated =
+    !!completed &&
+    (completed.releases !== releases ||
+      completed.roster !== roster ||
+      completed.holidayCalendars !== holidayCalendars);
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Lightbulb className="h-4 w-4 text-primary" />
+        What Would It Take
+      </h4>
+      {progress ? (
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            Analyzing… {progress.done}/{progress.total}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleCancel}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={handleRun}>
+          {completed ? "Analyze again" : "Analyze"}
+        </Button>
+      )}
+    </div>
+  );
+
+  const analysis = completed?.analysis;
+  if (!analysis) {
+    return (
+      <div className="border-t pt-4 mb-4 space-y-3">
+        {header}
+        <p className="text-sm text-muted-foreground">
+          {completed
+            ? "The release meets its target or gets no date, so there is nothing to suggest."
+            : "Find extra hours, descoping or dependencies to drop that would bring the release back to its target."}
+        </p>
+        {outdated && (
+          <p className="text-xs text-muted-foreground">
+            The plan changed since this analysis; analyze again to catch up.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const taskName = (taskId: string) =>
+    release.tasks.find((t) => t.id === taskId)?.name ?? "Unknown task";
+  const employeeName = (employeeId: string) =>
+    roster.find((e) => e.id === employeeId)?.name ?? "Unknown";
+  const hasOptions =
+    analysis.extraHours.length > 0 ||
+    analysis.descope !== null ||
+    analysis.dependencies.length > 0;
+
+  const renderOutcome = (outcome: GapOutcome) => (
+    <span className="flex items-center gap-2 flex-shrink-0">
+      <span className="font-medium">
+        {outcome.releaseDate
+          ? formatDate(outcome.releaseDate)
+          : "Not scheduled"}
+      </span>
+      {outcome.feasible ? (
+        <Badge variant="default" className="text-xs">
+          Meets target
+        </Badge>
+      ) : (
+        outcome.daysLate !== null && (
+          <Badge variant="outline" className="text-xs">
+            {outcome.daysLate}d late
+          </Badge>
+        )
+      )}
+    </span>
+  );
+
+  return (
+    <div className="border-t pt-4 mb-4 space-y-3">
+      {header}
+      <p className="text-sm text-muted-foreground">
+        Each option reschedules this release together with the releases ahead of
+        it, as in the chart.
+      </p>
+      {outdated && (
+        <p className="text-xs text-muted-foreground">
+          The plan changed since this analysis; analyze again to catch up.
+        </p>
+      )}
+
+      {!hasOptions && (
+        <p className="text-sm text-muted-foreground">
+          No single change brings the release closer to its target.
+        </p>
+      )}
+
+      {analysis.extraHours.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="text-muted-foreground">Extra hours</p>
+          {analysis.extraHours.map((option) => (
+            <div
+              key={option.employeeId}
+              className="flex items-center justify-between gap-3"
+            >
+              <span className="truncate">
+                {employeeName(option.employeeId)} +{option.hoursPerWeek}h per
+                week
+              </span>
+              {renderOutcome(option)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {analysis.descope && (
+        <div className="space-y-1 text-sm">
+          <p className="text-muted-foreground">Descope</p>
+          <div className="flex items-center justify-between gap-3">
+            <span className="truncate">
+              {analysis.descope.taskIds.map(taskName).join(", ")}
+            </span>
+            {renderOutcome(analysis.descope)}
+          </div>
+        </div>
+      )}
+
+      {analysis.dependencies.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="text-muted-foreground">Break a dependency</p>
+          {analysis.dependencies.map((option) => (
+            <div
+              key={`${option.blockerTaskId}-${option.taskId}`}
+              className="flex items-center justify-between gap-3"
+            >
+              <span className="truncate">
+                {taskName(option.taskId)} no longer waits for{" "}
+                {taskName(option.blockerTaskId)}
+              </span>
+              {renderOutcome(option)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -22,7 +22,28 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { CheckSquare, User, Clock, Link } from "lucide-react";
-import type { Task, Employee } from "@/lib/types";
+import type {
+  ThreePointEstimate,
+  Task,
+  TaskAssignment,
+  TaskType,
+  Employee,
+  TaskDependency,
+  DependencyType,
+  Release,
+} from "@/lib/types";
+import {
+  DEPENDENCY_TYPES,
+  createDependency,
+  getTaskDependencies,
+} from "@/lib/dependencies";
+import { getActualDatesForStatus, getLoggedHours } from "@/lib/task-progress";
+import { toUTCDateOnly } from "@/lib/date-utils";
+import { findCyclicBlockerIds } from "@/lib/dependency-graph";
+import { getChildrenMap, getDescendantIds } from "@/lib/task-hierarchy";
+import { setTaskAssignments } from "@/lib/assignments";
+import { getKnownSkills, hasSkills } from "@/lib/auto-assign";
+import { SkillsInput } from "@/components/skills-input";
 
 interface TaskDialogProps {
   open: boolean;
@@ -30,65 +51,187 @@ interface TaskDialogProps {
   task?: Task | null;
   employees: Employee[];
   existingTasks: Task[];
+  otherReleases?: Release[]; // Their tasks can be picked as blockers too
   onSave: (
     task: Omit<Task, "id" | "calculatedStartDate" | "calculatedEndDate">,
   ) => void;
 }
 
+// Splits 100% evenly, the first person takes what rounding leaves over
+function withEvenShares(assignments: TaskAssignment[]): TaskAssignment[] {
+  const share = Math.floor(100 / assignments.length);
+  return assignments.map((a, index) => ({
+    ...a,
+    sharePercent: index === 0 ? 100 - share * (assignments.length - 1) : share,
+  }));
+}
+
 export function TaskDialog({
   open,
   onOpenChange,
   task,
   employees,
   existingTasks,
+  otherReleases = [],
   onSave,
 }: TaskDialogProps) {
   const [name, setName] = useState("");
+  const [type, setType] = useState<TaskType>("task");
+  const [targetDate, setTargetDate] = useState("");
+  const [parentId, setParentId] = useState<string | null>(null);
   const [estimatedHours, setEstimatedHours] = useState(8);
-  const [assignedEmployeeId, setAssignedEmployeeId] = useState<string | null>(
-    null,
-  );
-  const [blockerTaskIds, setBlockerTaskIds] = useState<string[]>([]);
+  // Everyone working on the task, the primary assignee first
+  const [assignments, setAssignments] = useState<TaskAssignment[]>([]);
+  const [splitByAvailability, setSplitByAvailability] = useState(false);
+  const [requiredSkills, setRequiredSkills] = useState<string[]>([]);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
   const [status, setStatus] = useState<Task["status"]>("pending");
+  const [estimateRange, setEstimateRange] = useState<
+    ThreePointEstimate | undefined
+  >(undefined);
+  const [startNoEarlierThan, setStartNoEarlierThan] = useState("");
+  const [finishNoLaterThan, setFinishNoLaterThan] = useState("");
+  const [mustStartOn, setMustStartOn] = useState("");
+  const [actualStartDate, setActualStartDate] = useState("");
+  const [actualEndDate, setActualEndDate] = useState("");
+  const [remainingHours, setRemainingHours] = useState("");
 
   // Filter out the current task from potential blockers to prevent self-dependency
   const availableBlockerTasks = existingTasks.filter((t) => t.id !== task?.id);
+  const externalBlockerTasks = otherReleases.flatMap((release) =>
+    release.tasks.map((t) => ({ task: t, releaseName: release.name })),
+  );
+  const allTasks = [
+    ...existingTasks,
+    ...externalBlockerTasks.map(({ task }) => task),
+  ];
+  // Tasks that already wait on this one (directly, transitively or through
+  // epics) would close a loop
+  const cyclicBlockerIds = task
+    ? findCyclicBlockerIds(allTasks, task.id)
+    : new Set<string>();
+  // A task can't sit under itself, one of its own children or a milestone
+  const descendantIds = task
+    ? getDescendantIds(task.id, getChildrenMap(existingTasks))
+    : [];
+  const availableParentTasks = availableBlockerTasks.filter(
+    (t) => t.type !== "milestone" && !descendantIds.includes(t.id),
+  );
 
   useEffect(() => {
     if (!open) {
       setName("");
+      setType("task");
+      setTargetDate("");
+      setParentId(null);
       setEstimatedHours(8);
-      setAssignedEmployeeId(null);
-      setBlockerTaskIds([]);
+      setAssignments([]);
+      setSplitByAvailability(false);
+      setRequiredSkills([]);
+      setDependencies([]);
       setStatus("pending");
+      setEstimateRange(undefined);
+      setStartNoEarlierThan("");
+      setFinishNoLaterThan("");
+      setMustStartOn("");
+      setActualStartDate("");
+      setActualEndDate("");
+      setRemainingHours("");
       return;
     }
 
     if (task) {
       setName(task?.name || "");
+      setType(task?.type || "task");
+      setTargetDate(task?.targetDate || "");
+      setParentId(task?.parentId || null);
       setEstimatedHours(task?.estimatedHours || 8);
-      setAssignedEmployeeId(task?.assignedEmployeeId || null);
-      setBlockerTaskIds(task?.blockerTaskIds || []);
+      setAssignments(
+        task.assignments?.length
+          ? task.assignments
+          : task.assignedEmployeeId
+            ? [{ employeeId: task.assignedEmployeeId, sharePercent: 100 }]
+            : [],
+      );
+      setSplitByAvailability(!!task.splitByAvailability);
+      setRequiredSkills(task.requiredSkills || []);
+      setDependencies(getTaskDependencies(task));
       setStatus(task?.status || "pending");
+      setEstimateRange(task?.estimateRange);
+      setStartNoEarlierThan(task?.startNoEarlierThan || "");
+      setFinishNoLaterThan(task?.finishNoLaterThan || "");
+      setMustStartOn(task?.mustStartOn || "");
+      setActualStartDate(task?.actualStartDate || "");
+      setActualEndDate(task?.actualEndDate || "");
+      setRemainingHours(task?.remainingHours?.toString() ?? "");
     } else {
       setName("");
+      setType("task");
+      setTargetDate("");
+      setParentId(null);
       setEstimatedHours(8);
-      setAssignedEmployeeId(null);
-      setBlockerTaskIds([]);
+      setAssignments([]);
+      setSplitByAvailability(false);
+      setRequiredSkills([]);
+      setDependencies([]);
       setStatus("pending");
+      setEstimateRange(undefined);
+      setStartNoEarlierThan("");
+      setFinishNoLaterThan("");
+      setMustStartOn("");
+      setActualStartDate("");
+      setActualEndDate("");
+      setRemainingHours("");
     }
   }, [task, open]);
 
+  const handleStatusChange = (value: Task["status"]) => {
+    const today = toUTCDateOnly(new Date());
+    const dates = getActualDatesForStatus(
+      {
+        actualStartDate: actualStartDate || undefined,
+        actualEndDate: actualEndDate || undefined,
+      },
+      value,
+      today,
+    );
+    setStatus(value);
+    setActualStartDate(dates.actualStartDate || "");
+    setActualEndDate(dates.actualEndDate || "");
+  };
+
   const handleSave = () => {
     if (!name.trim()) return;
 
+    const isMilestone = type === "milestone";
     onSave({
       name: name.trim(),
-      estimatedHours,
-      assignedEmployeeId,
-      blockerTaskIds,
+      type: isMilestone ? "milestone" : undefined,
+      targetDate: isMilestone ? targetDate || undefined : undefined,
+      parentId: parentId || undefined,
+      // Milestones take no time and belong to nobody
+      estimatedHours: isMilestone ? 0 : estimatedHours,
+      estimateRange: isMilestone ? undefined : estimateRange,
+      ...setTaskAssignments(isMilestone ? [] : assignments),
+      splitByAvailability:
+        !isMilestone && assignments.length > 1 && splitByAvailability
+          ? true
+          : undefined,
+      requiredSkills:
+        !isMilestone && requiredSkills.length > 0 ? requiredSkills : undefined,
+      blockerTaskIds: dependencies.map((d) => d.taskId),
+      dependencies,
       priority: task?.priority || existingTasks.length,
       status,
+      startNoEarlierThan: startNoEarlierThan || undefined,
+      finishNoLaterThan: finishNoLaterThan || undefined,
+      mustStartOn: mustStartOn || undefined,
+      actualStartDate: actualStartDate || undefined,
+      actualEndDate: actualEndDate || undefined,
+      remainingHours:
+        remainingHours === ""
+          ? undefined
+          : Math.max(Number.parseFloat(remainingHours) || 0, 0),
     });
     console.log(existingTasks);
 
@@ -96,10 +239,57 @@ export function TaskDialog({
   };
 
   const toggleBlockerTask = (taskId: string) => {
-    setBlockerTaskIds((prev) =>
-      prev.includes(taskId)
-        ? prev.filter((id) => id !== taskId)
-        : [...prev, taskId],
+    setDependencies((prev) =>
+      prev.some((d) => d.taskId === taskId)
+        ? prev.filter((d) => d.taskId !== taskId)
+        : cyclicBlockerIds.has(taskId)
+          ? prev
+          : [...prev, createDependency(taskId)],
+    );
+  };
+
+  const updateDependency = (
+    taskId: string,
+    updates: Partial<Omit<TaskDependency, "taskId">>,
+  ) => {
+    setDependencies((prev) =>
+      prev.map((d) => (d.taskId === taskId ? { ...d, ...updates } : d)),
+    );
+  };
+
+  const assignedEmployeeId = assignments[0]?.employeeId ?? null;
+  const totalSharePercent = assignments.reduce(
+    (sum, a) => sum + a.sharePercent,
+    0,
+  );
+
+  // The new primary keeps the share the previous one had
+  const setPrimaryAssignee = (employeeId: string | null) => {
+    setAssignments((prev) => {
+      if (!employeeId) return [];
+      const others = prev.slice(1).filter((a) => a.employeeId !== employeeId);
+      return [
+        { employeeId, sharePercent: prev[0]?.sharePercent ?? 100 },
+        ...others,
+      ];
+    });
+  };
+
+  const toggleCoAssignee = (employeeId: string) => {
+    setAssignments((prev) =>
+      withEvenShares(
+        prev.some((a) => a.employeeId === employeeId)
+          ? prev.filter((a) => a.employeeId !== employeeId)
+          : [...prev, { employeeId, sharePercent: 0 }],
+      ),
+    );
+  };
+
+  const updateShare = (employeeId: string, sharePercent: number) => {
+    setAssignments((prev) =>
+      prev.map((a) =>
+        a.employeeId === employeeId ? { ...a, sharePercent } : a,
+      ),
     );
   };
 
@@ -111,7 +301,11 @@ export function TaskDialog({
 
   const getTaskName = (taskId: string) => {
     const task = availableBlockerTasks.find((t) => t.id === taskId);
-    return task ? task.name : "Unknown Task";
+    if (task) return task.name;
+    const external = externalBlockerTasks.find((t) => t.task.id === taskId);
+    return external
+      ? `${external.task.name} (${external.releaseName})`
+      : "Unknown Task";
   };
 
   return (
@@ -142,27 +336,87 @@ export function TaskDialog({
               />
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value: TaskType) => setType(value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="task">Task</SelectItem>
+                  <SelectItem value="milestone">
+                    Milestone (zero duration, e.g. code freeze)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {availableParentTasks.length > 0 && (
               <div className="space-y-2">
-                <Label htmlFor="hours">Estimated Hours</Label>
-                <Input
-                  id="hours"
-                  type="number"
-                  min="0.5"
-                  step="0.5"
-                  value={estimatedHours}
-                  onChange={(e) =>
-                    setEstimatedHours(Number.parseFloat(e.target.value) || 0)
+                <Label>Parent Epic</Label>
+                <Select
+                  value={parentId || "none"}
+                  onValueChange={(value) =>
+                    setParentId(value === "none" ? null : value)
                   }
-                  placeholder="8"
-                />
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (top level)</SelectItem>
+                    {availableParentTasks.map((parentTask) => (
+                      <SelectItem key={parentTask.id} value={parentTask.id}>
+                        {parentTask.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Epics take their hours, dates and progress from the tasks
+                  under them.
+                </p>
               </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {type === "milestone" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="target-date">Target Date</Label>
+                  <Input
+                    id="target-date"
+                    type="date"
+                    value={targetDate}
+                    onChange={(e) => setTargetDate(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="hours">Estimated Hours</Label>
+                  <Input
+                    id="hours"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={estimatedHours}
+                    onChange={(e) =>
+                      setEstimatedHours(Number.parseFloat(e.target.value) || 0)
+                    }
+                    placeholder="8"
+                  />
+                </div>
+              )}
 
               <div className="space-y-2">
                 <Label>Status</Label>
                 <Select
                   value={status}
-                  onValueChange={(value: Task["status"]) => setStatus(value)}
+                  onValueChange={(value: Task["status"]) =>
+                    handleStatusChange(value)
+                  }
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -178,51 +432,350 @@ export function TaskDialog({
             </div>
           </div>
 
-          {/* Assignment */}
-          <div className="space-y-2">
-            <Label>Assigned Employee</Label>
-            <Select
-              value={assignedEmployeeId || "unassigned"}
-              onValueChange={(value) =>
-                setAssignedEmployeeId(value === "unassigned" ? null : value)
-              }
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select an employee" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="unassigned">
-                  <div className="flex items-center gap-2">
-                    <User className="h-4 w-4 text-muted-foreground" />
-                    Unassigned
+          {type === "task" && (
+            <>
+              {/* Three-point estimate */}
+              <div className="space-y-3">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="estimate-range"
+                    checked={!!estimateRange}
+                    onCheckedChange={(checked) =>
+                      setEstimateRange(
+                        checked
+                          ? {
+                              optimisticHours: estimatedHours,
+                              mostLikelyHours: estimatedHours,
+                              pessimisticHours: estimatedHours,
+                            }
+                          : undefined,
+                      )
+                    }
+                  />
+                  <Label htmlFor="estimate-range" className="cursor-pointer">
+                    Three-point estimate
+                  </Label>
+                </div>
+                {estimateRange && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {(
+                      [
+                        ["optimisticHours", "Optimistic"],
+                        ["mostLikelyHours", "Most Likely"],
+                        ["pessimisticHours", "Pessimistic"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <div key={key} className="space-y-2">
+                        <Label htmlFor={key}>{label} Hours</Label>
+                        <Input
+                          id={key}
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={estimateRange[key]}
+                          onChange={(e) =>
+                            setEstimateRange({
+                              ...estimateRange,
+                              [key]: Number.parseFloat(e.target.value) || 0,
+                            })
+                          }
+                        />
+                      </div>
+                    ))}
                   </div>
-                </SelectItem>
-                {employees.map((employee) => (
-                  <SelectItem key={employee.id} value={employee.id}>
-                    <div className="flex items-center gap-2">
-                      <User className="h-4 w-4 text-primary" />
-                      <span>{employee.name}</span>
-                      <Badge variant="outline" className="text-xs">
-                        {employee.position}
-                      </Badge>
+                )}
+                {estimateRange &&
+                  (estimateRange.optimisticHours >
+                    estimateRange.mostLikelyHours ||
+                    estimateRange.mostLikelyHours >
+                      estimateRange.pessimisticHours) && (
+                    <p className="text-sm text-destructive">
+                      Expected optimistic ≤ most likely ≤ pessimistic.
+                    </p>
+                  )}
+              </div>
+
+              {/* Assignment */}
+              <div className="space-y-2">
+                <Label>Assigned Employee</Label>
+                <Select
+                  value={assignedEmployeeId || "unassigned"}
+                  onValueChange={(value) =>
+                    setPrimaryAssignee(value === "unassigned" ? null : value)
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">
+                      <div className="flex items-center gap-2">
+                        <User className="h-4 w-4 text-muted-foreground" />
+                        Unassigned
+                      </div>
+                    </SelectItem>
+                    {employees.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id}>
+                        <div className="flex items-center gap-2">
+                          <User className="h-4 w-4 text-primary" />
+                          <span>{employee.name}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {employee.position}
+                          </Badge>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {assignedEmployeeId && (
+                  <p className="text-sm text-muted-foreground">
+                    Assigned to:{" "}
+                    {assignments
+                      .map((a) => getEmployeeName(a.employeeId))
+                      .join(", ")}
+                  </p>
+                )}
+              </div>
+
+              {/* Skills */}
+              <div className="space-y-2">
+                <Label htmlFor="required-skills">Required Skills</Label>
+                <SkillsInput
+                  id="required-skills"
+                  value={requiredSkills}
+                  onChange={setRequiredSkills}
+                  suggestions={getKnownSkills(employees)}
+                />
+                {assignments
+                  .filter(
+                    (a) =>
+                      !hasSkills(
+                        employees.find((e) => e.id === a.employeeId) ?? {},
+                        requiredSkills,
+                      ),
+                  )
+                  .map((a) => (
+                    <p
+                      key={a.employeeId}
+                      className="text-sm text-amber-600 dark:text-amber-400"
+                    >
+                      {getEmployeeName(a.employeeId)} is missing some of these
+                      skills.
+                    </p>
+                  ))}
+              </div>
+
+              {/* Split between several people */}
+              {assignedEmployeeId && employees.length > 1 && (
+                <div className="space-y-3">
+                  <div>
+                    <Label className="text-base">Split With</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Optional. Others who share the work on this task.
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    {employees
+                      .filter((e) => e.id !== assignedEmployeeId)
+                      .map((employee) => (
+                        <div
+                          key={employee.id}
+                          className="flex items-center space-x-2"
+                        >
+                          <Checkbox
+                            id={`co-assignee-${employee.id}`}
+                            checked={assignments.some(
+                              (a) => a.employeeId === employee.id,
+                            )}
+                            onCheckedChange={() =>
+                              toggleCoAssignee(employee.id)
+                            }
+                          />
+                          <Label
+                            htmlFor={`co-assignee-${employee.id}`}
+                            className="text-sm font-normal cursor-pointer"
+                          >
+                            {employee.name}
+                          </Label>
+                        </div>
+                      ))}
+                  </div>
+
+                  {assignments.length > 1 && (
+                    <div className="space-y-3 rounded-md border p-3">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="split-by-availability"
+                          checked={splitByAvailability}
+                          onCheckedChange={(checked) =>
+                            setSplitByAvailability(checked === true)
+                          }
+                        />
+                        <Label
+                          htmlFor="split-by-availability"
+                          className="text-sm font-normal cursor-pointer"
+                        >
+                          Give the hours to whoever is free first
+                        </Label>
+                      </div>
+                      {!splitByAvailability && (
+                        <>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {assignments.map((assignment) => (
+                              <div
+                                key={assignment.employeeId}
+                                className="flex items-center gap-2"
+                              >
+                                <span className="text-sm flex-1 truncate">
+                                  {getEmployeeName(assignment.employeeId)}
+                                </span>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  value={assignment.sharePercent}
+                                  onChange={(e) =>
+                                    updateShare(
+                                      assignment.employeeId,
+                                      Math.max(
+                                        Number.parseFloat(e.target.value) || 0,
+                                        0,
+                                      ),
+                                    )
+                                  }
+                                  className="w-20"
+                                />
+                                <span className="text-sm text-muted-foreground">
+                                  % ·{" "}
+                                  {Math.round(
+                                    (assignment.sharePercent /
+                                      (totalSharePercent || 1)) *
+                                      estimatedHours *
+                                      10,
+                                  ) / 10}
+                                  h
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                          {totalSharePercent !== 100 && (
+                            <p className="text-sm text-muted-foreground">
+                              Shares add up to {totalSharePercent}% and are
+                              scaled to 100%.
+                            </p>
+                          )}
+                        </>
+                      )}
                     </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            {assignedEmployeeId && (
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {/* Date Constraints */}
+          <div className="space-y-4">
+            <div>
+              <Label className="text-base">Date Constraints</Label>
               <p className="text-sm text-muted-foreground">
-                Assigned to: {getEmployeeName(assignedEmployeeId)}
+                Optional. The scheduler honors these dates and flags the task
+                when it cannot.
               </p>
-            )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="start-no-earlier-than">
+                  Start No Earlier Than
+                </Label>
+                <Input
+                  id="start-no-earlier-than"
+                  type="date"
+                  value={startNoEarlierThan}
+                  onChange={(e) => setStartNoEarlierThan(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="must-start-on">Must Start On</Label>
+                <Input
+                  id="must-start-on"
+                  type="date"
+                  value={mustStartOn}
+                  onChange={(e) => setMustStartOn(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="finish-no-later-than">
+                  Finish No Later Than
+                </Label>
+                <Input
+                  id="finish-no-later-than"
+                  type="date"
+                  value={finishNoLaterThan}
+                  min={startNoEarlierThan || mustStartOn || undefined}
+                  onChange={(e) => setFinishNoLaterThan(e.target.value)}
+                />
+              </div>
+            </div>
           </div>
 
+          {/* Progress */}
+          {status !== "pending" && (
+            <div className="space-y-4">
+              <div>
+                <Label className="text-base">Progress</Label>
+                <p className="text-sm text-muted-foreground">
+                  Dates are filled in when the status changes. Completed tasks
+                  stay at these dates; started ones keep their start while the
+                  remaining hours are planned from today.
+                </p>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="actual-start-date">Actual Start</Label>
+                  <Input
+                    id="actual-start-date"
+                    type="date"
+                    value={actualStartDate}
+                    onChange={(e) => setActualStartDate(e.target.value)}
+                  />
+                </div>
+                {status !== "completed" && type === "task" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="remaining-hours">Remaining Hours</Label>
+                    <Input
+                      id="remaining-hours"
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      placeholder={`${Math.max(estimatedHours - (task ? getLoggedHours(task) : 0), 0)}`}
+                      value={remainingHours}
+                      onChange={(e) => setRemainingHours(e.target.value)}
+                    />
+                  </div>
+                )}
+                {status === "completed" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="actual-end-date">Actual End</Label>
+                    <Input
+                      id="actual-end-date"
+                      type="date"
+                      value={actualEndDate}
+                      min={actualStartDate || undefined}
+                      onChange={(e) => setActualEndDate(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Blocker Tasks */}
           <div className="space-y-4">
             <div>
               <Label className="text-base">Blocker Tasks</Label>
               <p className="text-sm text-muted-foreground">
-                Select tasks that must be completed before this task can start.
+                Select tasks this one depends on, then set how they are linked
+                and the lag in working days (negative lag allows overlap).
               </p>
             </div>
 
@@ -237,74 +790,180 @@ export function TaskDialog({
               </div>
             ) : (
               <div className="space-y-2 max-h-48 overflow-y-auto border rounded-lg p-3">
-                {availableBlockerTasks.map((blockerTask) => (
-                  <div
-                    key={blockerTask.id}
-                    className="flex items-center space-x-3"
-                  >
-                    <Checkbox
-                      id={`blocker-${blockerTask.id}`}
-                      checked={blockerTaskIds.includes(blockerTask.id)}
-                      onCheckedChange={() => toggleBlockerTask(blockerTask.id)}
-                    />
-                    <Label
-                      htmlFor={`blocker-${blockerTask.id}`}
-                      className="flex-1 cursor-pointer min-w-0"
+                {availableBlockerTasks.map((blockerTask) => {
+                  const selected = dependencies.some(
+                    (d) => d.taskId === blockerTask.id,
+                  );
+                  // An existing cyclic link stays removable
+                  const blocked = cyclicBlockerIds.has(blockerTask.id);
+                  return (
+                    <div
+                      key={blockerTask.id}
+                      className="flex items-center space-x-3"
                     >
-                      <div className="flex items-center justify-between w-full">
-                        <span className="text-sm">{blockerTask.name}</span>
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline" className="text-xs">
-                            <Clock className="h-3 w-3 mr-1" />
-                            {blockerTask.estimatedHours}h
-                          </Badge>
-                          <Badge
-                            variant={
-                              blockerTask.status === "completed"
-                                ? "default"
-                                : blockerTask.status === "in-progress"
-                                  ? "secondary"
-                                  : "outline"
+                      <Checkbox
+                        id={`blocker-${blockerTask.id}`}
+                        checked={selected}
+                        disabled={blocked && !selected}
+                        onCheckedChange={() =>
+                          toggleBlockerTask(blockerTask.id)
+                        }
+                      />
+                      <Label
+                        htmlFor={`blocker-${blockerTask.id}`}
+                        className="flex-1 cursor-pointer min-w-0"
+                      >
+                        <div className="flex items-center justify-between w-full">
+                          <span className="text-sm">{blockerTask.name}</span>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              <Clock className="h-3 w-3 mr-1" />
+                              {blockerTask.estimatedHours}h
+                            </Badge>
+                            <Badge
+                              variant={
+                                blockerTask.status === "completed"
+                                  ? "default"
+                                  : blockerTask.status === "in-progress"
+                                    ? "secondary"
+                                    : "outline"
+                              }
+                              className="text-xs"
+                            >
+                              {blockerTask.status}
+                            </Badge>
+                          </div>
+                        </div>
+                        {blockerTask.assignedEmployeeId && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Assigned to:{" "}
+                            {getEmployeeName(blockerTask.assignedEmployeeId)}
+                          </p>
+                        )}
+                        {blocked && (
+                          <p className="text-xs text-destructive mt-1">
+                            Already depends on this task, blocking on it would
+                            create a cycle.
+                          </p>
+                        )}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {externalBlockerTasks.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm">From other releases</Label>
+                <div className="space-y-2 max-h-40 overflow-y-auto border rounded-lg p-3">
+                  {externalBlockerTasks.map(
+                    ({ task: blockerTask, releaseName }) => {
+                      const selected = dependencies.some(
+                        (d) => d.taskId === blockerTask.id,
+                      );
+                      const blocked = cyclicBlockerIds.has(blockerTask.id);
+                      return (
+                        <div
+                          key={blockerTask.id}
+                          className="flex items-center space-x-3"
+                        >
+                          <Checkbox
+                            id={`blocker-${blockerTask.id}`}
+                            checked={selected}
+                            disabled={blocked && !selected}
+                            onCheckedChange={() =>
+                              toggleBlockerTask(blockerTask.id)
                             }
-                            className="text-xs"
+                          />
+                          <Label
+                            htmlFor={`blocker-${blockerTask.id}`}
+                            className="flex-1 cursor-pointer min-w-0"
                           >
-                            {blockerTask.status}
-                          </Badge>
+                            <div className="flex items-center justify-between w-full">
+                              <span className="text-sm">
+                                {blockerTask.name}
+                              </span>
+                              <Badge variant="outline" className="text-xs">
+                                {releaseName}
+                              </Badge>
+                            </div>
+                            {blocked && (
+                              <p className="text-xs text-destructive mt-1">
+                                Already depends on this task, blocking on it
+                                would create a cycle.
+                              </p>
+                            )}
+                          </Label>
                         </div>
-                      </div>
-                      {blockerTask.assignedEmployeeId && (
-                        <p className="text-xs text-muted-foreground mt-1">
-                          Assigned to:{" "}
-                          {getEmployeeName(blockerTask.assignedEmployeeId)}
-                        </p>
-                      )}
-                    </Label>
-                  </div>
-                ))}
+                      );
+                    },
+                  )}
+                </div>
               </div>
             )}
 
-            {blockerTaskIds.length > 0 && (
+            {dependencies.length > 0 && (
               <div className="space-y-2">
                 <Label className="text-sm">Selected Blockers:</Label>
-                <div className="flex flex-wrap gap-2">
-                  {blockerTaskIds.map((taskId) => {
-                    const name = getTaskName(taskId);
+                <div className="space-y-2">
+                  {dependencies.map((dependency) => {
+                    const name = getTaskName(dependency.taskId);
                     return (
-                      <Badge
-                        key={taskId}
-                        variant="secondary"
-                        className="gap-1 max-w-[200px] truncate overflow-hidden whitespace-nowrap"
-                        title={name}
+                      <div
+                        key={dependency.taskId}
+                        className="flex items-center gap-2"
                       >
-                        <Link
-                          className="h-3 w-3 flex-none shrink-0"
-                          aria-hidden
+                        <Badge
+                          variant="secondary"
+                          className="gap-1 flex-1 justify-start min-w-0 truncate overflow-hidden whitespace-nowrap"
+                          title={name}
+                        >
+                          <Link
+                            className="h-3 w-3 flex-none shrink-0"
+                            aria-hidden
+                          />
+                          <span className="ml-1 overflow-hidden truncate">
+                            {name}
+                          </span>
+                        </Badge>
+                        <Select
+                          value={dependency.type}
+                          onValueChange={(value: DependencyType) =>
+                            updateDependency(dependency.taskId, {
+                              type: value,
+                            })
+                          }
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(
+                              Object.keys(DEPENDENCY_TYPES) as DependencyType[]
+                            ).map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {DEPENDENCY_TYPES[type].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          step="1"
+                          className="w-20"
+                          aria-label="Lag in working days"
+                          value={dependency.lagDays}
+                          onChange={(e) =>
+                            updateDependency(dependency.taskId, {
+                              lagDays: Number.parseInt(e.target.value) || 0,
+                            })
+                          }
                         />
-                        <span className="ml-1 overflow-hidden truncate inline-block max-w-[140px]">
-                          {name}
+                        <span className="text-xs text-muted-foreground">
+                          days
                         </span>
-                      </Badge>
+                      </div>
                     );
                   })}
                 </div>
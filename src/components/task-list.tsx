@@ -32,27 +32,85 @@ import {
   Pause,
   CheckCircle,
   AlertCircle,
+  Flag,
+  ChevronDown,
+  ChevronRight,
+  FolderTree,
 } from "lucide-react";
-import type { Task, Employee } from "@/lib/types";
+import type { Task, Employee, Release, WorkLogEntry } from "@/lib/types";
+import { formatDependency, getTaskDependencies } from "@/lib/dependencies";
+import {
+  getLoggedHours,
+  getRemainingHours,
+  getRolledUpProgress,
+  getTaskProgress,
+  summarizeWork,
+  summarizeWorkByEmployee,
+  type WorkSummary,
+} from "@/lib/task-progress";
+import { LogTimePopover } from "@/components/log-time-popover";
+import { formatDate } from "@/lib/date-utils";
+import { getTaskAssignments } from "@/lib/assignments";
+import {
+  getAncestorIds,
+  getChildrenMap,
+  getLeafDescendantIds,
+  getParentMap,
+  orderTasksAsTree,
+} from "@/lib/task-hierarchy";
 
 interface TaskListProps {
   tasks: Task[];
   employees: Employee[];
+  otherReleases?: Release[]; // To name blockers from other releases
   onEditTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
   onReorderTasks: (tasks: Task[]) => void;
   onUpdateTaskStatus: (taskId: string, status: Task["status"]) => void;
+  onLogTime: (
+    taskId: string,
+    entry: Omit<WorkLogEntry, "id">,
+    remainingHours?: number,
+  ) => void;
+}
+
+// Shares of split tasks leave fractions of an hour
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 10) / 10}h`;
+}
+
+// Logged plus remaining against the original estimate, e.g. "+4h"
+function formatVariance(summary: WorkSummary): string | null {
+  const variance =
+    summary.loggedHours + summary.remainingHours - summary.estimatedHours;
+  if (Math.abs(variance) < 0.05) return null;
+  return `${variance > 0 ? "+" : ""}${formatHours(variance)}`;
 }
 
 export function TaskList({
   tasks,
   employees,
+  otherReleases = [],
   onEditTask,
   onDeleteTask,
   onReorderTasks,
   onUpdateTaskStatus,
+  onLogTime,
 }: TaskListProps) {
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [collapsedEpics, setCollapsedEpics] = useState<Set<string>>(new Set());
+
+  const toggleEpic = (epicId: string) => {
+    setCollapsedEpics((prev) => {
+      const next = new Set(prev);
+      if (next.has(epicId)) {
+        next.delete(epicId);
+      } else {
+        next.add(epicId);
+      }
+      return next;
+    });
+  };
 
   const getEmployeeName = (employeeId: string | null) => {
     if (!employeeId) return "Unassigned";
@@ -60,11 +118,38 @@ export function TaskList({
     return employee ? employee.name : "Unknown Employee";
   };
 
+  // "Alice 60%, Bob 40%" for split tasks
+  const formatAssignees = (task: Task) => {
+    const assignments = getTaskAssignments(task);
+    if (assignments.length < 2) {
+      return getEmployeeName(task.assignedEmployeeId);
+    }
+    const names = assignments.map((a) =>
+      task.splitByAvailability
+        ? getEmployeeName(a.employeeId)
+        : `${getEmployeeName(a.employeeId)} ${Math.round(a.sharePercent)}%`,
+    );
+    return task.splitByAvailability
+      ? `${names.join(", ")} (whoever is free)`
+      : names.join(", ");
+  };
+
   const getTaskName = (taskId: string) => {
     const task = tasks.find((t) => t.id === taskId);
-    return task ? task.name : "Unknown Task";
+    if (task) return task.name;
+    for (const release of otherReleases) {
+      const external = release.tasks.find((t) => t.id === taskId);
+      if (external) return `${external.name} (${release.name})`;
+    }
+    return "Unknown Task";
   };
 
+  const findBlockerTask = (taskId: string) =>
+    tasks.find((t) => t.id === taskId) ||
+    otherReleases
+      .flatMap((release) => release.tasks)
+      .find((t) => t.id === taskId);
+
   const getStatusIcon = (status: Task["status"]) => {
     switch (status) {
       case "completed":
@@ -130,20 +215,74 @@ export function TaskList({
     setDraggedTask(null);
   };
 
-  const getTaskProgress = (task: Task) => {
-    switch (task.status) {
-      case "completed":
-        return 100;
-      case "in-progress":
-        return 50;
-      case "blocked":
-        return 0;
-      default:
-        return 0;
-    }
-  };
+  // Children follow their epic, siblings stay in priority order
+  const parents = getParentMap(tasks);
+  const children = getChildrenMap(tasks);
+  const sortedTasks = orderTasksAsTree(
+    [...tasks].sort((a, b) => a.priority - b.priority),
+    parents,
+  ).filter(
+    (task) =>
+      !getAncestorIds(task.id, parents).some((id) => collapsedEpics.has(id)),
+  );
+
+  const getLeafTasks = (epicId: string) =>
+    getLeafDescendantIds(epicId, children).map((id) =>
+      tasks.find((t) => t.id === id)!,
+    );
 
-  const sortedTasks = [...tasks].sort((a, b) => a.priority - b.priority);
+  const renderEmployeeSummary = () => {
+    if (!tasks.some((t) => t.workLog?.length)) return null;
+    // Epics carry no work of their own
+    const summaries = Array.from(
+      summarizeWorkByEmployee(
+        tasks.filter((t) => !children.has(t.id)),
+      ).entries(),
+    );
+
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Estimate vs Actual</CardTitle>
+          <CardDescription>
+            Logged and remaining hours against the original estimates, per
+            employee.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {summaries.map(([employeeId, summary]) => {
+            const variance = formatVariance(summary);
+            return (
+              <div
+                key={employeeId ?? "unassigned"}
+                className="flex items-center justify-between text-sm"
+              >
+                <span className="flex items-center gap-2">
+                  <User className="h-3 w-3 text-muted-foreground" />
+                  {getEmployeeName(employeeId)}
+                </span>
+                <span className="flex items-center gap-3 text-muted-foreground">
+                  <span>{formatHours(summary.estimatedHours)} estimated</span>
+                  <span>{formatHours(summary.loggedHours)} logged</span>
+                  <span>{formatHours(summary.remainingHours)} remaining</span>
+                  {variance && (
+                    <Badge
+                      variant={
+                        variance.startsWith("+") ? "destructive" : "secondary"
+                      }
+                      className="text-xs"
+                    >
+                      {variance}
+                    </Badge>
+                  )}
+                </span>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    );
+  };
 
   if (tasks.length === 0) {
     return (
@@ -192,144 +331,238 @@ export function TaskList({
         </div>
       </div>
 
-      {sortedTasks.map((task) => (
-        <Card
-          key={task.id}
-          className={`transition-all duration-200 ${
-            draggedTask?.id === task.id
-              ? "opacity-50 scale-95"
-              : "hover:shadow-md"
-          }`}
-          draggable
-          onDragStart={(e) => handleDragStart(e, task)}
-          onDragOver={handleDragOver}
-          onDrop={(e) => handleDrop(e, task)}
-          onDragEnd={handleDragEnd}
-        >
-          <CardHeader className="pb-3">
-            <div className="flex items-start justify-between">
-              <div className="flex items-start gap-3 flex-1">
-                <div className="cursor-grab active:cursor-grabbing mt-1">
-                  <GripVertical className="h-4 w-4 text-muted-foreground" />
+      {renderEmployeeSummary()}
+
+      {sortedTasks.map((task) => {
+        const isEpic = children.has(task.id);
+        const leafTasks = isEpic ? getLeafTasks(task.id) : [task];
+        const work = isEpic
+          ? summarizeWork(leafTasks)
+          : {
+              estimatedHours: task.estimatedHours,
+              loggedHours: getLoggedHours(task),
+              remainingHours: getRemainingHours(task),
+            };
+        const variance = formatVariance(work);
+        const progress = isEpic
+          ? getRolledUpProgress(leafTasks)
+          : getTaskProgress(task);
+
+        return (
+          <Card
+            key={task.id}
+            className={`transition-all duration-200 ${
+              draggedTask?.id === task.id
+                ? "opacity-50 scale-95"
+                : "hover:shadow-md"
+            }`}
+            draggable
+            onDragStart={(e) => handleDragStart(e, task)}
+            onDragOver={handleDragOver}
+            onDrop={(e) => handleDrop(e, task)}
+            onDragEnd={handleDragEnd}
+            style={{
+              marginLeft: getAncestorIds(task.id, parents).length * 24,
+            }}
+          >
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start gap-3 flex-1">
+                  <div className="cursor-grab active:cursor-grabbing mt-1">
+                    <GripVertical className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                  <div className="flex-1">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {isEpic && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5"
+                          onClick={() => toggleEpic(task.id)}
+                        >
+                          {collapsedEpics.has(task.id) ? (
+                            <ChevronRight className="h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4" />
+                          )}
+                        </Button>
+                      )}
+                      {getStatusIcon(task.status)}
+                      {task.name}
+                      <Badge variant="outline" className="text-xs">
+                        #{task.priority + 1}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription className="flex items-center gap-4 mt-1">
+                      {isEpic ? (
+                        <>
+                          <span className="flex items-center gap-1">
+                            <FolderTree className="h-3 w-3" />
+                            Epic • {leafTasks.length} tasks
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {work.estimatedHours}h estimated
+                          </span>
+                        </>
+                      ) : task.type === "milestone" ? (
+                        <span className="flex items-center gap-1">
+                          <Flag className="h-3 w-3 text-violet-600" />
+                          Milestone
+                          {task.targetDate &&
+                            ` • target ${formatDate(task.targetDate)}`}
+                        </span>
+                      ) : (
+                        <>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {task.estimatedHours}h estimated
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {formatAssignees(task)}
+                          </span>
+                        </>
+                      )}
+                    </CardDescription>
+                  </div>
                 </div>
-                <div className="flex-1">
-                  <CardTitle className="text-base flex items-center gap-2">
-                    {getStatusIcon(task.status)}
-                    {task.name}
-                    <Badge variant="outline" className="text-xs">
-                      #{task.priority + 1}
-                    </Badge>
-                  </CardTitle>
-                  <CardDescription className="flex items-center gap-4 mt-1">
-                    <span className="flex items-center gap-1">
-                      <Clock className="h-3 w-3" />
-                      {task.estimatedHours}h estimated
-                    </span>
-                    <span className="flex items-center gap-1">
-                      <User className="h-3 w-3" />
-                      {getEmployeeName(task.assignedEmployeeId)}
-                    </span>
-                  </CardDescription>
+                <div className="flex items-center gap-2">
+                  {task.status !== "completed" &&
+                    task.type !== "milestone" &&
+                    !isEpic && (
+                      <LogTimePopover
+                        task={task}
+                        employees={employees}
+                        onLogTime={onLogTime}
+                      />
+                    )}
+                  <Badge
+                    variant={getStatusBadgeVariant(task.status)}
+                    className="text-xs"
+                  >
+                    {task.status}
+                  </Badge>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="h-8 w-8">
+                        <MoreHorizontal className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => onUpdateTaskStatus(task.id, "pending")}
+                      >
+                        <Pause className="mr-2 h-4 w-4" />
+                        Mark as Pending
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() =>
+                          onUpdateTaskStatus(task.id, "in-progress")
+                        }
+                      >
+                        <Play className="mr-2 h-4 w-4" />
+                        Mark as In Progress
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => onUpdateTaskStatus(task.id, "completed")}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Mark as Completed
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => onUpdateTaskStatus(task.id, "blocked")}
+                      >
+                        <AlertCircle className="mr-2 h-4 w-4" />
+                        Mark as Blocked
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onEditTask(task)}>
+                        <Edit className="mr-2 h-4 w-4" />
+                        Edit Task
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => onDeleteTask(task.id)}
+                        className="text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete Task
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </div>
-              <div className="flex items-center gap-2">
-                <Badge
-                  variant={getStatusBadgeVariant(task.status)}
-                  className="text-xs"
-                >
-                  {task.status}
-                </Badge>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="h-8 w-8">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem
-                      onClick={() => onUpdateTaskStatus(task.id, "pending")}
-                    >
-                      <Pause className="mr-2 h-4 w-4" />
-                      Mark as Pending
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onUpdateTaskStatus(task.id, "in-progress")}
-                    >
-                      <Play className="mr-2 h-4 w-4" />
-                      Mark as In Progress
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onUpdateTaskStatus(task.id, "completed")}
-                    >
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                      Mark as Completed
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onUpdateTaskStatus(task.id, "blocked")}
-                    >
-                      <AlertCircle className="mr-2 h-4 w-4" />
-                      Mark as Blocked
-                    </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => onEditTask(task)}>
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit Task
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onDeleteTask(task.id)}
-                      className="text-destructive"
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete Task
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-3">
-            {/* Progress Bar */}
-            <div className="space-y-1">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Progress</span>
-                <span className="font-medium">{getTaskProgress(task)}%</span>
-              </div>
-              <Progress value={getTaskProgress(task)} className="h-2" />
-            </div>
-
-            {/* Blocker Tasks */}
-            {task.blockerTaskIds.length > 0 && (
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Link className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm font-medium">Blocked by:</span>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {/* Progress Bar */}
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Progress</span>
+                  <span className="font-medium">{progress}%</span>
                 </div>
-                <div className="flex flex-wrap gap-2 ml-6">
-                  {task.blockerTaskIds.map((blockerId) => {
-                    const blockerTask = tasks.find((t) => t.id === blockerId);
-                    return (
-                      <Badge
-                        key={blockerId}
-                        variant={
-                          blockerTask?.status === "completed"
-                            ? "default"
-                            : "secondary"
+                <Progress value={progress} className="h-2" />
+                {leafTasks.some(
+                  (t) => t.workLog?.length || t.remainingHours !== undefined,
+                ) && (
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <span>{work.loggedHours}h logged</span>
+                    <span>{work.remainingHours}h remaining</span>
+                    {variance && (
+                      <span
+                        className={
+                          variance.startsWith("+")
+                            ? "text-destructive"
+                            : "text-green-600"
                         }
-                        className="text-xs gap-1"
                       >
-                        <Link className="h-3 w-3" />
-                        {getTaskName(blockerId)}
-                        {blockerTask?.status === "completed" && (
-                          <CheckCircle className="h-3 w-3" />
-                        )}
-                      </Badge>
-                    );
-                  })}
-                </div>
+                        {variance} vs estimate
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
-            )}
-          </CardContent>
-        </Card>
-      ))}
+
+              {/* Blocker Tasks */}
+              {task.blockerTaskIds.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Link className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm font-medium">Blocked by:</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 ml-6">
+                    {getTaskDependencies(task).map((dependency) => {
+                      const blockerId = dependency.taskId;
+                      const blockerTask = findBlockerTask(blockerId);
+                      const label = formatDependency(dependency);
+                      return (
+                        <Badge
+                          key={blockerId}
+                          variant={
+                            blockerTask?.status === "completed"
+                              ? "default"
+                              : "secondary"
+                          }
+                          className="text-xs gap-1"
+                        >
+                          <Link className="h-3 w-3" />
+                          {getTaskName(blockerId)}
+                          {label !== "FS" && (
+                            <span className="text-muted-foreground">
+                              ({label})
+                            </span>
+                          )}
+                          {blockerTask?.status === "completed" && (
+                            <CheckCircle className="h-3 w-3" />
+                          )}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,54 @@
+import type { Task, TaskAssignment } from "@/lib/types";
+
+type AssignedTask = Pick<
+  Task,
+  "assignedEmployeeId" | "assignments" | "splitByAvailability"
+>;
+
+// Who works on the task and which percentage of its hours each does. Tasks
+// without `assignments` are done entirely by assignedEmployeeId. Shares are
+// scaled to add up to 100; without usable shares, or when the task goes to
+// whoever is free, everyone gets the same part.
+export function getTaskAssignments(task: AssignedTask): TaskAssignment[] {
+  if (!task.assignments?.length) {
+    return task.assignedEmployeeId
+      ? [{ employeeId: task.assignedEmployeeId, sharePercent: 100 }]
+      : [];
+  }
+
+  const shares = new Map<string, number>();
+  for (const assignment of task.assignments) {
+    const share =
+      Number.isFinite(assignment.sharePercent) && assignment.sharePercent > 0
+        ? assignment.sharePercent
+        : 0;
+    shares.set(
+      assignment.employeeId,
+      (shares.get(assignment.employeeId) ?? 0) + share,
+    );
+  }
+
+  const total = Array.from(shares.values()).reduce((sum, s) => sum + s, 0);
+  return Array.from(shares.entries()).map(([employeeId, share]) => ({
+    employeeId,
+    sharePercent:
+      task.splitByAvailability || total <= 0
+        ? 100 / shares.size
+        : (share / total) * 100,
+  }));
+}
+
+export function getAssigneeIds(task: AssignedTask): string[] {
+  return getTaskAssignments(task).map((a) => a.employeeId);
+}
+
+// Keeps assignedEmployeeId pointing at the first assignee, so code that only
+// knows about one person still finds someone
+export function setTaskAssignments(
+  assignments: TaskAssignment[],
+): Pick<Task, "assignedEmployeeId" | "assignments"> {
+  return {
+    assignedEmployeeId: assignments[0]?.employeeId ?? null,
+    assignments: assignments.length > 1 ? assignments : undefined,
+  };
+}
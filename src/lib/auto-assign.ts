@@ -0,0 +1,185 @@
+import type { Employee, HolidayCalendar, Release, Task } from "@/lib/types";
+import { scheduleInPortfolio } from "@/lib/portfolio";
+import { staffRelease } from "@/lib/roster";
+import { getChildrenMap } from "@/lib/task-hierarchy";
+import { runToEnd, type Steps } from "@/lib/long-running";
+
+export interface AssignmentProposal {
+  taskId: string;
+  employeeId: string;
+  startDate?: Date; // Where the task lands with this assignee
+  endDate?: Date;
+}
+
+export interface AutoAssignResult {
+  proposals: AssignmentProposal[];
+  // Tasks nobody could take: no one has the skills, or no one has capacity
+  unassignable: { taskId: string; reason: "no_skill_match" | "no_capacity" }[];
+  currentReleaseDate: Date | null;
+  proposedReleaseDate: Date | null; // With every proposal accepted
+}
+
+export interface AutoAssignOptions {
+  today?: Date; // Passed through to the portfolio schedule
+  holidayCalendars?: HolidayCalendar[]; // Passed through to the portfolio schedule
+}
+
+// Skills match regardless of case and surrounding spaces
+export function normalizeSkill(skill: string): string {
+  return skill.trim().toLowerCase();
+}
+
+export function hasSkills(
+  employee: Pick<Employee, "skills">,
+  requiredSkills: string[] = [],
+): boolean {
+  const skills = new Set((employee.skills || []).map(normalizeSkill));
+  return requiredSkills.every((skill) => skills.has(normalizeSkill(skill)));
+}
+
+// Every skill anyone has, for suggestions in the editors
+export function getKnownSkills(
+  employees: Pick<Employee, "skills">[],
+): string[] {
+  const skills = new Map<string, string>();
+  for (const employee of employees) {
+    for (const skill of employee.skills || []) {
+      if (!skills.has(normalizeSkill(skill))) {
+        skills.set(normalizeSkill(skill), skill.trim());
+      }
+    }
+  }
+  return Array.from(skills.values()).sort((a, b) => a.localeCompare(b));
+}
+
+// Open work nobody is on; epics and milestones never get an assignee
+function needsAssignee(task: Task, children: Map<string, string[]>): boolean {
+  return (
+    !task.assignedEmployeeId &&
+    !task.assignments?.length &&
+    task.type !== "milestone" &&
+    task.status !== "completed" &&
+    !children.has(task.id)
+  );
+}
+
+// Greedy: unassigned tasks are taken in schedule order and each goes to the
+// qualified member with whom the release ends earliest, ties broken by the
+// task's own end date and then member order. Every candidate is tried by
+// rescheduling the release with the assignments picked so far after the
+// releases ahead of it, so capacity the earlier picks and other releases use
+// is respected.
+export function proposeAssignments(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: AutoAssignOptions = {},
+): AutoAssignResult {
+  return runToEnd(autoAssignSteps(release, releases, roster, options));
+}
+
+// proposeAssignments yielding after every reschedule
+export function* autoAssignSteps(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: AutoAssignOptions = {},
+): Steps<AutoAssignResult> {
+  const schedule = (tasks: Task[]) =>
+    scheduleInPortfolio({ ...release, tasks }, releases, roster, options);
+  const { employees } = staffRelease(release, roster);
+
+  const current = schedule(release.tasks);
+  const children = getChildrenMap(release.tasks);
+  const open = new Set(
+    release.tasks.filter((t) => needsAssignee(t, children)).map((t) => t.id),
+  );
+  // Scheduled order of the current plan, unscheduled tasks last by priority
+  const ordered = release.tasks
+    .filter((t) => open.has(t.id))
+    .sort((a, b) => {
+      const aStart = current.tasks.find((t) => t.id === a.id)?.startDate;
+      const bStart = current.tasks.find((t) => t.id === b.id)?.startDate;
+      const byStart =
+        (aStart?.getTime() ?? Infinity) - (bStart?.getTime() ?? Infinity);
+      return byStart || a.priority - b.priority;
+    });
+
+  const total =
+    1 +
+    ordered.reduce(
+      (sum, task) =>
+        sum + employees.filter((e) => hasSkills(e, task.requiredSkills)).length,
+      0,
+    );
+  let done = 1;
+  yield { done, total };
+
+  let tasks = release.tasks;
+  let proposedReleaseDate = current.releaseDate;
+  const proposals: AssignmentProposal[] = [];
+  const unassignable: AutoAssignResult["unassignable"] = [];
+
+  for (const task of ordered) {
+    const candidates = employees.filter((e) =>
+      hasSkills(e, task.requiredSkills),
+    );
+    if (candidates.length === 0) {
+      unassignable.push({ taskId: task.id, reason: "no_skill_match" });
+      continue;
+    }
+
+    let best: {
+      tasks: Task[];
+      proposal: AssignmentProposal;
+      releaseTime: number;
+      endTime: number;
+      releaseDate: Date | null;
+    } | null = null;
+    for (const employee of candidates) {
+      const trial = tasks.map((t) =>
+        t.id === task.id ? { ...t, assignedEmployeeId: employee.id } : t,
+      );
+      const result = schedule(trial);
+      yield { done: ++done, total };
+      const scheduled = result.tasks.find((t) => t.id === task.id);
+      if (!scheduled?.endDate) continue;
+
+      const releaseTime = result.releaseDate?.getTime() ?? Infinity;
+      const endTime = scheduled.endDate.getTime();
+      if (
+        !best ||
+        releaseTime < best.releaseTime ||
+        (releaseTime === best.releaseTime && endTime < best.endTime)
+      ) {
+        best = {
+          tasks: trial,
+          proposal: {
+            taskId: task.id,
+            employeeId: employee.id,
+            startDate: scheduled.startDate,
+            endDate: scheduled.endDate,
+          },
+          releaseTime,
+          endTime,
+          releaseDate: result.releaseDate,
+        };
+      }
+    }
+
+    if (!best) {
+      unassignable.push({ taskId: task.id, reason: "no_capacity" });
+      continue;
+    }
+    tasks = best.tasks;
+    proposedReleaseDate = best.releaseDate;
+    proposals.push(best.proposal);
+  }
+
+  return {
+    proposals,
+    unassignable,
+    currentReleaseDate: current.releaseDate,
+    proposedReleaseDate,
+  };
+}
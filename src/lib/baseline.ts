@@ -0,0 +1,260 @@
+import type {
+  Baseline,
+  BaselineTask,
+  Employee,
+  GanttData,
+  HolidayCalendar,
+  Release,
+  Task,
+} from "@/lib/types";
+import {
+  countWorkingDaysAfter,
+  parseDateOnly,
+  toUTCDateOnly,
+  type WorkCalendar,
+} from "@/lib/date-utils";
+import { getReleaseCalendar } from "@/lib/holiday-calendars";
+import { scheduleInPortfolio } from "@/lib/portfolio";
+import { removeTasks } from "@/lib/scenarios";
+import { getChildrenMap } from "@/lib/task-hierarchy";
+
+export interface TaskVariance {
+  taskId: string;
+  name: string;
+  baselineStart?: Date;
+  baselineEnd?: Date;
+  startDate?: Date;
+  endDate?: Date;
+  // Working days later than the baseline, negative when earlier; null when
+  // either side has no date
+  startSlip: number | null;
+  endSlip: number | null;
+  change?: "added" | "removed"; // Relative to the baseline
+}
+
+export interface BaselineVariance {
+  baselineDate: Date | null;
+  releaseDate: Date | null;
+  releaseSlip: number | null; // Working days, as for tasks
+  tasks: TaskVariance[]; // Current tasks in schedule order, removed ones last
+}
+
+export type SlipCauseKind =
+  | "estimate"
+  | "assignee"
+  | "dependencies"
+  | "added"
+  | "removed";
+
+// A change since the baseline and how far it moves the release date
+export interface SlipCause {
+  kind: SlipCauseKind;
+  taskId: string;
+  name: string;
+  days: number; // Working days the release date moves back when only this change is undone
+}
+
+export interface SlipCauseOptions {
+  today?: Date; // Passed through to calculatePortfolioSchedule
+  holidayCalendars?: HolidayCalendar[]; // Passed through to calculatePortfolioSchedule
+}
+
+// Calculated dates of every task in `ganttData` plus the inputs of `tasks`
+// that findSlipCauses compares against later
+export function captureBaseline(
+  tasks: Task[],
+  ganttData: GanttData,
+): Pick<Baseline, "releaseDate" | "tasks"> {
+  const scheduled = new Map(ganttData.tasks.map((t) => [t.id, t]));
+  return {
+    releaseDate: toDateString(ganttData.releaseDate),
+    tasks: tasks.map((task) => ({
+      taskId: task.id,
+      name: task.name,
+      startDate: toDateString(scheduled.get(task.id)?.startDate),
+      endDate: toDateString(scheduled.get(task.id)?.endDate),
+      estimatedHours: task.estimatedHours,
+      assignedEmployeeId: task.assignedEmployeeId,
+      blockerTaskIds: [...task.blockerTaskIds],
+    })),
+  };
+}
+
+export function calculateVariance(
+  baseline: Baseline,
+  ganttData: GanttData,
+  calendar: WorkCalendar,
+): BaselineVariance {
+  const before = new Map(baseline.tasks.map((t) => [t.taskId, t]));
+  const current = new Set(ganttData.tasks.map((t) => t.id));
+  const slip = (from?: Date | null, to?: Date | null) =>
+    from && to ? countWorkingDaysAfter(from, to, calendar) : null;
+
+  const tasks: TaskVariance[] = ganttData.tasks.map((task) => {
+    const previous = before.get(task.id);
+    const baselineStart = toDate(previous?.startDate);
+    const baselineEnd = toDate(previous?.endDate);
+    return {
+      taskId: task.id,
+      name: task.name,
+      baselineStart,
+      baselineEnd,
+      startDate: task.startDate,
+      endDate: task.endDate,
+      startSlip: slip(baselineStart, task.startDate),
+      endSlip: slip(baselineEnd, task.endDate),
+      ...(!previous && { change: "added" as const }),
+    };
+  });
+  for (const previous of baseline.tasks) {
+    if (current.has(previous.taskId)) continue;
+    tasks.push({
+      taskId: previous.taskId,
+      name: previous.name,
+      baselineStart: toDate(previous.startDate),
+      baselineEnd: toDate(previous.endDate),
+      startSlip: null,
+      endSlip: null,
+      change: "removed",
+    });
+  }
+
+  const baselineDate = toDate(baseline.releaseDate) ?? null;
+  return {
+    baselineDate,
+    releaseDate: ganttData.releaseDate,
+    releaseSlip: slip(baselineDate, ganttData.releaseDate),
+    tasks,
+  };
+}
+
+// Finds task changes since the baseline (estimates, assignees, blockers,
+// added and removed tasks) and undoes each one on its own to see how far the
+// release date moves back. The release is scheduled with the releases ahead
+// of it, as when the baseline was saved. Changes that do not move it are left
+// out. The days need not add up to the whole slip: changes interact, and
+// capacity, other releases, holidays, progress and time passing move dates
+// too.
+export function findSlipCauses(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  baseline: Baseline,
+  options: SlipCauseOptions = {},
+): SlipCause[] {
+  const calendar = getReleaseCalendar(release, options.holidayCalendars);
+  const schedule = (tasks: Task[]) =>
+    scheduleInPortfolio({ ...release, tasks }, releases, roster, options)
+      .releaseDate;
+  const currentDate = schedule(release.tasks);
+  if (!currentDate) return [];
+
+  const before = new Map(baseline.tasks.map((t) => [t.taskId, t]));
+  const children = getChildrenMap(release.tasks);
+  const trials: {
+    kind: SlipCauseKind;
+    task: { id: string; name: string };
+    tasks: Task[];
+  }[] = [];
+  const revert = (taskId: string, fields: Partial<Task>) =>
+    release.tasks.map((t) => (t.id === taskId ? { ...t, ...fields } : t));
+
+  for (const task of release.tasks) {
+    if (children.has(task.id)) continue;
+    const previous = before.get(task.id);
+    if (!previous) {
+      trials.push({
+        kind: "added",
+        task,
+        tasks: removeTasks(release.tasks, [task.id]),
+      });
+      continue;
+    }
+    if (task.estimatedHours !== previous.estimatedHours) {
+      trials.push({
+        kind: "estimate",
+        task,
+        tasks: revert(task.id, { estimatedHours: previous.estimatedHours }),
+      });
+    }
+    if (task.assignedEmployeeId !== previous.assignedEmployeeId) {
+      trials.push({
+        kind: "assignee",
+        task,
+        tasks: revert(task.id, {
+          assignedEmployeeId: previous.assignedEmployeeId,
+          assignments: undefined,
+        }),
+      });
+    }
+    if (!sameIds(task.blockerTaskIds, previous.blockerTaskIds)) {
+      const blockerTaskIds = previous.blockerTaskIds.filter((id) =>
+        release.tasks.some((t) => t.id === id),
+      );
+      trials.push({
+        kind: "dependencies",
+        task,
+        tasks: revert(task.id, {
+          blockerTaskIds,
+          dependencies: task.dependencies?.filter((d) =>
+            blockerTaskIds.includes(d.taskId),
+          ),
+        }),
+      });
+    }
+  }
+
+  const lastPriority = Math.max(0, ...release.tasks.map((t) => t.priority));
+  for (const previous of baseline.tasks) {
+    if (release.tasks.some((t) => t.id === previous.taskId)) continue;
+    trials.push({
+      kind: "removed",
+      task: { id: previous.taskId, name: previous.name },
+      tasks: [
+        ...release.tasks,
+        restoreTask(previous, release.tasks, lastPriority + 1),
+      ],
+    });
+  }
+
+  return trials
+    .flatMap(({ kind, task, tasks }) => {
+      const date = schedule(tasks);
+      if (!date) return [];
+      const days = countWorkingDaysAfter(date, currentDate, calendar);
+      return days === 0
+        ? []
+        : [{ kind, taskId: task.id, name: task.name, days }];
+    })
+    .sort((a, b) => b.days - a.days);
+}
+
+function restoreTask(
+  previous: BaselineTask,
+  tasks: Task[],
+  priority: number,
+): Task {
+  return {
+    id: previous.taskId,
+    name: previous.name,
+    priority,
+    estimatedHours: previous.estimatedHours,
+    status: "pending",
+    blockerTaskIds: previous.blockerTaskIds.filter((id) =>
+      tasks.some((t) => t.id === id),
+    ),
+    assignedEmployeeId: previous.assignedEmployeeId,
+  };
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+function toDateString(date: Date | null | undefined): string | undefined {
+  return date ? toUTCDateOnly(date) : undefined;
+}
+
+function toDate(dateString: string | undefined): Date | undefined {
+  return dateString ? parseDateOnly(dateString) : undefined;
+}
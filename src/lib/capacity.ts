@@ -0,0 +1,623 @@
+import type {
+  CapacityPeriod,
+  Employee,
+  HolidayCalendar,
+  Release,
+  StaffedRelease,
+  WeekdayHours,
+} from "@/lib/types";
+import {
+  DEFAULT_WORKING_WEEKDAYS,
+  isHoliday,
+  isWeekend,
+  isWorkingDay,
+  parseDateOnly,
+  toUTCDateOnly,
+  type WorkCalendar,
+} from "@/lib/date-utils";
+import { getTaskDependencies } from "@/lib/dependencies";
+import {
+  getEmployeeCalendar,
+  getReleaseCalendar,
+} from "@/lib/holiday-calendars";
+import { getRemainingHours } from "@/lib/task-progress";
+
+export interface EmployeeCapacity {
+  employeeId: string;
+  date: string;
+  hoursAvailable: number;
+  hoursAllocated: number; // Track allocated hours per day
+  taskIds: string[]; // Tasks holding hours on this day, in allocation order
+}
+
+// Working days of one employee, materialized lazily up to horizonEnd so long
+// releases don't pay for days no task ever reaches.
+export interface EmployeeCapacityCalendar {
+  employee: Employee;
+  days: EmployeeCapacity[];
+  dayIndex: Map<string, number>; // Position in `days` by date
+  generatedUntil: Date; // Last materialized date (inclusive)
+  horizonEnd: Date;
+  workCalendar: WorkCalendar; // Includes the employee's own holidays
+  // The whole person when this calendar is only one release's share of them;
+  // hours booked here are booked there too, so releases can't double-book
+  pool?: EmployeeCapacityCalendar;
+}
+
+export interface PlanningHorizon {
+  endDate: Date;
+  isExplicit: boolean; // Set on the release rather than derived
+}
+
+export interface AllocationPlan {
+  startDate: Date;
+  endDate: Date;
+  allocations: { index: number; hours: number }[];
+}
+
+export interface PlanningHorizonOptions {
+  today?: Date; // Open work starts no earlier than this
+  holidayCalendars?: HolidayCalendar[]; // Resolves the release's and employees' calendars
+  // Releases that may take the same people first; their work counts too
+  otherReleases?: Pick<Release, "startDate" | "tasks">[];
+}
+
+const CAPACITY_CHUNK_DAYS = 92;
+
+// Without an explicit horizon the plan may run until the last day anyone has
+// capacity defined; nothing assigned can be scheduled past that point.
+// Open-ended default hours carry on until all remaining work fits.
+export function getPlanningHorizon(
+  release: StaffedRelease,
+  options: PlanningHorizonOptions = {},
+): PlanningHorizon {
+  if (release.planningHorizonEnd) {
+    return {
+      endDate: new Date(release.planningHorizonEnd + "T00:00:00"),
+      isExplicit: true,
+    };
+  }
+
+  let lastCapacityDate = release.startDate;
+  for (const employee of release.employees) {
+    for (const period of employee.capacityPeriods) {
+      if (hasPeriodHours(period) && period.endDate > lastCapacityDate) {
+        lastCapacityDate = period.endDate;
+      }
+    }
+  }
+  if (release.employees.some(hasDefaultHours)) {
+    const openEndedDate = getOpenEndedHorizon(release, options);
+    if (openEndedDate > lastCapacityDate) lastCapacityDate = openEndedDate;
+  }
+
+  return {
+    endDate: new Date(lastCapacityDate + "T00:00:00"),
+    isExplicit: false,
+  };
+}
+
+// Enough days for all remaining work, done one task after another by the
+// slowest person with default hours, to fit after the last date that changes
+// anyone's hours or holds work back. Lags and holidays each cost a working day.
+function getOpenEndedHorizon(
+  release: StaffedRelease,
+  options: PlanningHorizonOptions,
+): string {
+  const releases = [release, ...(options.otherReleases || [])];
+  let from = release.startDate;
+  const raise = (date: string | undefined) => {
+    if (date && date > from) from = date;
+  };
+  if (options.today) raise(toUTCDateOnly(options.today));
+  for (const other of releases) raise(other.startDate);
+  for (const employee of release.employees) {
+    for (const period of employee.capacityPeriods) raise(period.endDate);
+    for (const block of employee.overhead || []) raise(block.endDate);
+  }
+
+  let hours = 0;
+  let extraWorkingDays = 0;
+  for (const task of releases.flatMap((r) => r.tasks)) {
+    if (task.status === "completed") continue;
+    // Anything that holds the task back to a date
+    raise(task.actualStartDate);
+    raise(task.startNoEarlierThan);
+    raise(task.mustStartOn);
+    raise(task.targetDate);
+    hours += getRemainingHours(task);
+    for (const dependency of getTaskDependencies(task)) {
+      extraWorkingDays += Math.max(dependency.lagDays, 0);
+    }
+  }
+
+  const releaseCalendar = getReleaseCalendar(release, options.holidayCalendars);
+  const holidays = new Set<string>();
+  let weeklyHours = Number.POSITIVE_INFINITY;
+  for (const employee of release.employees.filter(hasDefaultHours)) {
+    const workCalendar = getEmployeeCalendar(
+      releaseCalendar,
+      employee,
+      options.holidayCalendars,
+    );
+    for (const holiday of workCalendar.holidays) {
+      if (holiday >= release.startDate) holidays.add(holiday);
+    }
+    const weekly = getOpenEndedWeeklyHours(employee, workCalendar);
+    if (weekly > 0) weeklyHours = Math.min(weeklyHours, weekly);
+  }
+  // Overhead takes all of their default hours, so they never finish anything
+  if (weeklyHours === Number.POSITIVE_INFINITY) return from;
+  extraWorkingDays += holidays.size;
+
+  const weeks =
+    Math.ceil(hours / weeklyHours) +
+    Math.ceil(extraWorkingDays / releaseCalendar.workingWeekdays.length) +
+    1;
+  const end = new Date(from + "T00:00:00");
+  end.setDate(end.getDate() + weeks * 7);
+  return toUTCDateOnly(end);
+}
+
+// Plannable default hours in a week once the overhead that never ends is off
+function getOpenEndedWeeklyHours(
+  employee: Employee,
+  workCalendar: WorkCalendar,
+): number {
+  let hours = 0;
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const dayHours = employee.defaultWeekdayHours
+      ? (employee.defaultWeekdayHours[weekday] ?? 0)
+      : workCalendar.workingWeekdays.includes(weekday)
+        ? (employee.defaultHoursPerDay ?? 0)
+        : 0;
+    const overhead = (employee.overhead || [])
+      .filter((block) => !block.endDate && block.weekdays.includes(weekday))
+      .reduce((sum, block) => sum + block.hoursPerDay, 0);
+    hours += Math.max(dayHours - overhead, 0) * (employee.focusFactor ?? 1);
+  }
+  return hours;
+}
+
+export function createCapacityCalendars(
+  employees: Employee[],
+  projectStartDate: string,
+  horizonEnd: Date,
+  workCalendar: WorkCalendar,
+  holidayCalendars: HolidayCalendar[] = [], // Resolves employees' holidayCalendarIds
+): Map<string, EmployeeCapacityCalendar> {
+  const calendars = new Map<string, EmployeeCapacityCalendar>();
+  const dayBeforeStart = new Date(projectStartDate + "T00:00:00");
+  dayBeforeStart.setDate(dayBeforeStart.getDate() - 1);
+
+  for (const employee of employees) {
+    calendars.set(employee.id, {
+      employee,
+      days: [],
+      dayIndex: new Map(),
+      generatedUntil: new Date(dayBeforeStart),
+      horizonEnd,
+      workCalendar: getEmployeeCalendar(
+        workCalendar,
+        employee,
+        holidayCalendars,
+      ),
+    });
+  }
+
+  return calendars;
+}
+
+// Materializes capacity up to `until` (capped at the horizon). Returns false
+// once nothing more can be added.
+export function extendCapacityCalendar(
+  calendar: EmployeeCapacityCalendar,
+  until: Date,
+): boolean {
+  const target = until < calendar.horizonEnd ? until : calendar.horizonEnd;
+  if (calendar.generatedUntil >= target) return false;
+
+  const currentDate = new Date(calendar.generatedUntil);
+  currentDate.setDate(currentDate.getDate() + 1);
+
+  while (currentDate <= target) {
+    const { workCalendar } = calendar;
+    const hours = getEmployeeHoursForDate(
+      calendar.employee,
+      currentDate,
+      workCalendar.workingWeekdays,
+    );
+    const plannableHours = getPlannableHours(
+      calendar.employee,
+      currentDate,
+      hours,
+    );
+    // Weekends only count for people whose weekly pattern works them
+    if (
+      isWorkingDay(currentDate, workCalendar) ||
+      (hours > 0 && !isHoliday(currentDate, workCalendar))
+    ) {
+      const date = toUTCDateOnly(currentDate);
+      calendar.dayIndex.set(date, calendar.days.length);
+      calendar.days.push({
+        employeeId: calendar.employee.id,
+        date,
+        hoursAvailable: plannableHours,
+        hoursAllocated: 0, // Initialize allocated hours
+        taskIds: [],
+      });
+    }
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+
+  calendar.generatedUntil = new Date(target);
+  return true;
+}
+
+// Finds the earliest capacity for `hours` starting at `from` without
+// reserving it; the caller commits the allocations once the plan is final.
+export function planAllocation(
+  calendar: EmployeeCapacityCalendar,
+  from: Date,
+  hours: number,
+): AllocationPlan | null {
+  const fromDateStr = toUTCDateOnly(from);
+  extendCapacityCalendar(calendar, from);
+
+  let remainingHours = hours;
+  const allocations: AllocationPlan["allocations"] = [];
+  let i = calendar.days.findIndex((c) => c.date >= fromDateStr);
+  if (i === -1) i = calendar.days.length;
+
+  while (remainingHours > 0) {
+    const dayCapacity = getCalendarDay(calendar, i);
+    if (!dayCapacity) break;
+
+    const availableHours = getFreeHours(calendar, dayCapacity);
+    if (availableHours > 0) {
+      const hoursToAllocate = Math.min(remainingHours, availableHours);
+      remainingHours -= hoursToAllocate;
+      allocations.push({ index: i, hours: hoursToAllocate });
+    }
+    i++;
+  }
+
+  if (remainingHours > 0 || allocations.length === 0) return null;
+  return toAllocationPlan(calendar, allocations);
+}
+
+// One person's part of a task split between several people
+export interface SplitAllocationPlan {
+  calendar: EmployeeCapacityCalendar;
+  plan: AllocationPlan;
+}
+
+// Like planAllocation, but day by day the hours go to whichever of the people
+// still has time, earlier calendars first. Only people who get hours are
+// returned.
+export function planSharedAllocation(
+  calendars: EmployeeCapacityCalendar[],
+  from: Date,
+  hours: number,
+): SplitAllocationPlan[] | null {
+  const fromDateStr = toUTCDateOnly(from);
+  const cursors = calendars.map((calendar) => {
+    extendCapacityCalendar(calendar, from);
+    const index = calendar.days.findIndex((c) => c.date >= fromDateStr);
+    return {
+      calendar,
+      index: index === -1 ? calendar.days.length : index,
+      allocations: [] as AllocationPlan["allocations"],
+    };
+  });
+
+  let remainingHours = hours;
+  while (remainingHours > 0) {
+    // The next day any of them works
+    let date: string | null = null;
+    for (const cursor of cursors) {
+      const day = getCalendarDay(cursor.calendar, cursor.index);
+      if (day && (date === null || day.date < date)) date = day.date;
+    }
+    if (date === null) break;
+
+    for (const cursor of cursors) {
+      const day = cursor.calendar.days[cursor.index];
+      if (!day || day.date !== date) continue;
+      const availableHours = getFreeHours(cursor.calendar, day);
+      if (availableHours > 0 && remainingHours > 0) {
+        const hoursToAllocate = Math.min(remainingHours, availableHours);
+        remainingHours -= hoursToAllocate;
+        cursor.allocations.push({
+          index: cursor.index,
+          hours: hoursToAllocate,
+        });
+      }
+      cursor.index++;
+    }
+  }
+
+  if (remainingHours > 0) return null;
+  return cursors
+    .filter((cursor) => cursor.allocations.length > 0)
+    .map((cursor) => ({
+      calendar: cursor.calendar,
+      plan: toAllocationPlan(cursor.calendar, cursor.allocations),
+    }));
+}
+
+// Day `index` of the calendar, materializing more days when needed
+function getCalendarDay(
+  calendar: EmployeeCapacityCalendar,
+  index: number,
+): EmployeeCapacity | undefined {
+  while (index >= calendar.days.length) {
+    const chunkEnd = new Date(calendar.generatedUntil);
+    chunkEnd.setDate(chunkEnd.getDate() + CAPACITY_CHUNK_DAYS);
+    if (!extendCapacityCalendar(calendar, chunkEnd)) return undefined;
+  }
+  return calendar.days[index];
+}
+
+// Unbooked hours of the day, limited by the person's shared day if any
+function getFreeHours(
+  calendar: EmployeeCapacityCalendar,
+  day: EmployeeCapacity,
+): number {
+  const availableHours = day.hoursAvailable - day.hoursAllocated;
+  if (!calendar.pool) return availableHours;
+  const poolDay = getPoolDay(calendar.pool, day.date);
+  return Math.min(
+    availableHours,
+    poolDay ? poolDay.hoursAvailable - poolDay.hoursAllocated : 0,
+  );
+}
+
+function toAllocationPlan(
+  calendar: EmployeeCapacityCalendar,
+  allocations: AllocationPlan["allocations"],
+): AllocationPlan {
+  const first = calendar.days[allocations[0].index];
+  const last = calendar.days[allocations[allocations.length - 1].index];
+  return {
+    startDate: new Date(first.date + "T00:00:00"),
+    endDate: new Date(last.date + "T00:00:00"),
+    allocations,
+  };
+}
+
+export function commitAllocation(
+  calendar: EmployeeCapacityCalendar,
+  plan: AllocationPlan,
+  taskId: string,
+): void {
+  for (const allocation of plan.allocations) {
+    const day = calendar.days[allocation.index];
+    day.hoursAllocated += allocation.hours;
+    day.taskIds.push(taskId);
+
+    const poolDay = calendar.pool && getPoolDay(calendar.pool, day.date);
+    if (poolDay) {
+      poolDay.hoursAllocated += allocation.hours;
+      poolDay.taskIds.push(taskId);
+    }
+  }
+}
+
+// The person's day across all releases, or undefined when they don't work it
+export function getPoolDay(
+  pool: EmployeeCapacityCalendar,
+  date: string,
+): EmployeeCapacity | undefined {
+  if (!pool.dayIndex.has(date)) {
+    extendCapacityCalendar(pool, parseDateOnly(date));
+  }
+  const index = pool.dayIndex.get(date);
+  return index === undefined ? undefined : pool.days[index];
+}
+
+// Whether the employee has any capacity defined after `date`, i.e. whether a
+// later horizon would have let their work fit. Default hours that overhead
+// takes all of don't count.
+export function hasCapacityAfter(
+  calendar: EmployeeCapacityCalendar,
+  date: Date,
+): boolean {
+  const { employee } = calendar;
+  if (
+    hasDefaultHours(employee) &&
+    getOpenEndedWeeklyHours(employee, calendar.workCalendar) > 0
+  ) {
+    return true;
+  }
+  const dateString = toUTCDateOnly(date);
+  return employee.capacityPeriods.some(
+    (period) => hasPeriodHours(period) && period.endDate > dateString,
+  );
+}
+
+export function getEmployeeHoursForDate(
+  employee: Employee,
+  date: Date,
+  workingWeekdays: number[] = DEFAULT_WORKING_WEEKDAYS,
+): number {
+  // No capacity defined for this date means the default, if any
+  const period = getCapacityPeriodForDate(employee, date);
+  const pattern = period ? period.weekdayHours : employee.defaultWeekdayHours;
+  if (pattern) return pattern[date.getDay()] ?? 0;
+  // A flat rate only covers the working days of the week
+  if (isWeekend(date, workingWeekdays)) return 0;
+  return period ? period.hoursPerDay : (employee.defaultHoursPerDay ?? 0);
+}
+
+// What is left of the day's `hours` for planned work once overhead and the
+// focus factor are taken off
+export function getPlannableHours(
+  employee: Employee,
+  date: Date,
+  hours: number,
+): number {
+  const focusFactor = employee.focusFactor ?? 1;
+  const overhead = getOverheadHoursForDate(employee, date);
+  return Math.max(hours - overhead, 0) * focusFactor;
+}
+
+export function getOverheadHoursForDate(
+  employee: Employee,
+  date: Date,
+): number {
+  const dateString = toUTCDateOnly(date);
+  let hours = 0;
+  for (const block of employee.overhead || []) {
+    if (!block.weekdays.includes(date.getDay())) continue;
+    if (block.startDate && dateString < block.startDate) continue;
+    if (block.endDate && dateString > block.endDate) continue;
+    if (
+      block.everyWeeks &&
+      block.everyWeeks > 1 &&
+      block.startDate &&
+      getWeeksBetween(block.startDate, dateString) % block.everyWeeks !== 0
+    ) {
+      continue;
+    }
+    hours += block.hoursPerDay;
+  }
+  return hours;
+}
+
+// Whole weeks, Monday to Sunday, from the week of `from` to the week of `to`
+function getWeeksBetween(from: string, to: string): number {
+  const weekStart = (date: string) => {
+    const d = new Date(date + "T00:00:00");
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+    return d.getTime();
+  };
+  return Math.round((weekStart(to) - weekStart(from)) / (7 * 86_400_000));
+}
+
+export function getWeeklyHours(pattern: WeekdayHours): number {
+  return pattern.reduce((sum, hours) => sum + hours, 0);
+}
+
+export function isWeekdayHours(value: unknown): value is WeekdayHours {
+  return (
+    Array.isArray(value) &&
+    value.length === 7 &&
+    value.every((hours) => Number.isFinite(hours) && hours >= 0)
+  );
+}
+
+function hasPeriodHours(period: CapacityPeriod): boolean {
+  return period.weekdayHours
+    ? getWeeklyHours(period.weekdayHours) > 0
+    : period.hoursPerDay > 0;
+}
+
+function hasDefaultHours(employee: Employee): boolean {
+  return employee.defaultWeekdayHours
+    ? getWeeklyHours(employee.defaultWeekdayHours) > 0
+    : (employee.defaultHoursPerDay ?? 0) > 0;
+}
+
+// The period that supplies the employee's hours on `date`
+export function getCapacityPeriodForDate(
+  employee: Pick<Employee, "capacityPeriods">,
+  date: Date,
+): CapacityPeriod | undefined {
+  const dateString = toUTCDateOnly(date);
+
+  let winner: CapacityPeriod | undefined;
+  for (const period of employee.capacityPeriods) {
+    if (period.startDate > dateString || period.endDate < dateString) continue;
+    if (!winner || comparePeriodPrecedence(period, winner) < 0) {
+      winner = period;
+    }
+  }
+  return winner;
+}
+
+// Which of two periods covering the same day supplies its hours: one without
+// any hours (vacation, leave) always wins, otherwise the shorter, more
+// specific one. Equal periods go by list order.
+function comparePeriodPrecedence(a: CapacityPeriod, b: CapacityPeriod): number {
+  const offA = !hasPeriodHours(a);
+  const offB = !hasPeriodHours(b);
+  if (offA !== offB) return offA ? -1 : 1;
+  return getPeriodDays(a) - getPeriodDays(b);
+}
+
+function getPeriodDays(period: CapacityPeriod): number {
+  return (
+    (Date.parse(period.endDate) - Date.parse(period.startDate)) / 86_400_000 + 1
+  );
+}
+
+export interface CapacityPeriodOverlap {
+  periodId: string; // Supplies the hours on the shared days
+  overriddenPeriodId: string;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+}
+
+export function findCapacityPeriodOverlaps(
+  periods: CapacityPeriod[],
+): CapacityPeriodOverlap[] {
+  const overlaps: CapacityPeriodOverlap[] = [];
+  for (let i = 0; i < periods.length; i++) {
+    for (let j = i + 1; j < periods.length; j++) {
+      const [a, b] = [periods[i], periods[j]];
+      const startDate = a.startDate > b.startDate ? a.startDate : b.startDate;
+      const endDate = a.endDate < b.endDate ? a.endDate : b.endDate;
+      if (startDate > endDate) continue;
+
+      const [winner, loser] =
+        comparePeriodPrecedence(b, a) < 0 ? [b, a] : [a, b];
+      overlaps.push({
+        periodId: winner.id,
+        overriddenPeriodId: loser.id,
+        startDate,
+        endDate,
+      });
+    }
+  }
+  return overlaps;
+}
+
+export interface CapacitySegment {
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string
+  period?: CapacityPeriod; // Unset where no period applies
+}
+
+// Runs of days supplied by the same period, from the first period's start to
+// the last one's end, after overlaps are resolved
+export function getCapacityTimeline(
+  employee: Pick<Employee, "capacityPeriods">,
+): CapacitySegment[] {
+  const periods = employee.capacityPeriods.filter(
+    (p) => p.startDate && p.endDate && p.startDate <= p.endDate,
+  );
+  if (periods.length === 0) return [];
+  const valid = { capacityPeriods: periods };
+
+  const first = periods
+    .map((p) => p.startDate)
+    .reduce((a, b) => (a < b ? a : b));
+  const last = periods.map((p) => p.endDate).reduce((a, b) => (a > b ? a : b));
+
+  const segments: CapacitySegment[] = [];
+  const current = new Date(first + "T00:00:00");
+  const end = new Date(last + "T00:00:00");
+  while (current <= end) {
+    const date = toUTCDateOnly(current);
+    const period = getCapacityPeriodForDate(valid, current);
+    const previous = segments[segments.length - 1];
+    if (previous && previous.period?.id === period?.id) {
+      previous.endDate = date;
+    } else {
+      segments.push({ startDate: date, endDate: date, period });
+    }
+    current.setDate(current.getDate() + 1);
+  }
+  return segments;
+}
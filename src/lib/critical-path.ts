@@ -0,0 +1,162 @@
+import type { DependencyType, GanttTask } from "@/lib/types";
+import {
+  countWorkingDaysAfter,
+  getWorkingDaysBetween,
+  shiftWorkingDays,
+  type WorkCalendar,
+} from "@/lib/date-utils";
+
+// A precedence edge in the calculated schedule. `gap` is measured in working
+// days between the linked dates: predecessor end -> successor start for
+// finish-to-start, start -> start and end -> end for the other types.
+export interface ScheduleLink {
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  gap: number;
+}
+
+export interface TaskFloat {
+  totalFloat: number; // working days the task can slip without moving the release date
+  freeFloat: number; // working days the task can slip without moving any successor
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  floats: Map<string, TaskFloat>;
+  criticalPath: string[]; // critical task ids ordered by start date
+}
+
+export interface LatestDates {
+  latestStart: Date;
+  latestFinish: Date;
+}
+
+// Backward pass: the latest start and finish of every scheduled task that
+// still lets everything finish by `endDate`, keeping each task's duration
+export function calculateLatestDates(
+  tasks: GanttTask[],
+  links: ScheduleLink[],
+  endDate: Date,
+  calendar: WorkCalendar,
+): Map<string, LatestDates> {
+  const scheduled = getScheduledTasks(tasks);
+  const successors = getSuccessorLinks(scheduled, links);
+  const latest = new Map<string, LatestDates>();
+
+  const visit = (taskId: string, path: Set<string>) => {
+    if (latest.has(taskId)) return;
+    const task = scheduled.get(taskId)!;
+    const duration = Math.max(
+      getWorkingDaysBetween(task.startDate!, task.endDate!, calendar) - 1,
+      0,
+    );
+    let finish = new Date(endDate);
+    path.add(taskId);
+    for (const link of successors.get(taskId) || []) {
+      if (path.has(link.successorId)) continue;
+      visit(link.successorId, path);
+      const successor = latest.get(link.successorId)!;
+
+      let bound: Date;
+      if (link.type === "finish-to-finish") {
+        bound = shiftWorkingDays(successor.latestFinish, -link.gap, calendar);
+      } else if (link.type === "start-to-start") {
+        bound = shiftWorkingDays(
+          successor.latestStart,
+          duration - link.gap,
+          calendar,
+        );
+      } else {
+        bound = shiftWorkingDays(successor.latestStart, -link.gap, calendar);
+      }
+      if (bound < finish) finish = bound;
+    }
+    path.delete(taskId);
+
+    latest.set(taskId, {
+      latestStart: shiftWorkingDays(finish, -duration, calendar),
+      latestFinish: finish,
+    });
+  };
+
+  for (const taskId of scheduled.keys()) visit(taskId, new Set());
+  return latest;
+}
+
+export function calculateCriticalPath(
+  tasks: GanttTask[],
+  links: ScheduleLink[],
+  releaseDate: Date | null,
+  calendar: WorkCalendar,
+): CriticalPathResult {
+  const floats = new Map<string, TaskFloat>();
+  if (!releaseDate) return { floats, criticalPath: [] };
+
+  const scheduled = getScheduledTasks(tasks);
+  const successors = getSuccessorLinks(scheduled, links);
+  const latest = calculateLatestDates(tasks, links, releaseDate, calendar);
+
+  for (const task of scheduled.values()) {
+    const totalFloat = countWorkingDaysAfter(
+      task.endDate!,
+      latest.get(task.id)!.latestFinish,
+      calendar,
+    );
+
+    let freeFloat = countWorkingDaysAfter(task.endDate!, releaseDate, calendar);
+    for (const link of successors.get(task.id) || []) {
+      const successor = scheduled.get(link.successorId)!;
+      const [from, to] =
+        link.type === "finish-to-finish"
+          ? [task.endDate!, successor.endDate!]
+          : link.type === "start-to-start"
+            ? [task.startDate!, successor.startDate!]
+            : [task.endDate!, successor.startDate!];
+      freeFloat = Math.min(
+        freeFloat,
+        countWorkingDaysAfter(from, to, calendar) - link.gap,
+      );
+    }
+
+    floats.set(task.id, {
+      totalFloat,
+      freeFloat: Math.min(freeFloat, totalFloat),
+      isCritical: totalFloat <= 0,
+    });
+  }
+
+  const criticalPath = Array.from(scheduled.values())
+    .filter((t) => floats.get(t.id)?.isCritical)
+    .sort(
+      (a, b) =>
+        a.startDate!.getTime() - b.startDate!.getTime() ||
+        a.endDate!.getTime() - b.endDate!.getTime(),
+    )
+    .map((t) => t.id);
+
+  return { floats, criticalPath };
+}
+
+function getScheduledTasks(tasks: GanttTask[]): Map<string, GanttTask> {
+  return new Map(
+    tasks
+      .filter((t) => t.startDate && t.endDate)
+      .map((t) => [t.id, t] as const),
+  );
+}
+
+function getSuccessorLinks(
+  scheduled: Map<string, GanttTask>,
+  links: ScheduleLink[],
+): Map<string, ScheduleLink[]> {
+  const successors = new Map<string, ScheduleLink[]>();
+  for (const link of links) {
+    if (!scheduled.has(link.predecessorId)) continue;
+    if (!scheduled.has(link.successorId)) continue;
+    const outs = successors.get(link.predecessorId) || [];
+    outs.push(link);
+    successors.set(link.predecessorId, outs);
+  }
+  return successors;
+}
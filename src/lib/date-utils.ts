@@ -1,26 +1,43 @@
 // Utility functions for date calculations and working day logic
 
-export function isWeekend(date: Date): boolean {
-  const day = date.getDay();
-  return day === 0 || day === 6; // Sunday or Saturday
+// Which days of the week are worked and which dates are off
+export interface WorkCalendar {
+  workingWeekdays: number[]; // Sunday = 0, as in Date.getDay()
+  holidays: string[]; // ISO date strings
 }
 
-export function isHoliday(date: Date, customHolidays: string[]): boolean {
+export const DEFAULT_WORKING_WEEKDAYS = [1, 2, 3, 4, 5]; // Monday to Friday
+
+export const DEFAULT_WORK_CALENDAR: WorkCalendar = {
+  workingWeekdays: DEFAULT_WORKING_WEEKDAYS,
+  holidays: [],
+};
+
+export function isWeekend(
+  date: Date,
+  workingWeekdays: number[] = DEFAULT_WORKING_WEEKDAYS,
+): boolean {
+  return !workingWeekdays.includes(date.getDay());
+}
+
+export function isHoliday(date: Date, calendar: WorkCalendar): boolean {
   const dateString = toUTCDateOnly(date);
-  return customHolidays.includes(dateString);
+  return calendar.holidays.includes(dateString);
 }
 
 export function isWorkingDay(
   date: Date,
-  customHolidays: string[] = [],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR,
 ): boolean {
-  return !isWeekend(date) && !isHoliday(date, customHolidays);
+  return (
+    !isWeekend(date, calendar.workingWeekdays) && !isHoliday(date, calendar)
+  );
 }
 
 export function addWorkingDays(
   startDate: Date,
   workingDays: number,
-  customHolidays: string[] = [],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR,
 ): Date {
   const result = new Date(startDate);
   let daysAdded = 0;
@@ -28,7 +45,7 @@ export function addWorkingDays(
   while (daysAdded < workingDays) {
     result.setDate(result.getDate() + 1);
 
-    if (isWorkingDay(result, customHolidays)) {
+    if (isWorkingDay(result, calendar)) {
       daysAdded++;
     }
   }
@@ -39,13 +56,13 @@ export function addWorkingDays(
 export function getWorkingDaysBetween(
   startDate: Date,
   endDate: Date,
-  customHolidays: string[] = [],
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR,
 ): number {
   let workingDays = 0;
   const current = new Date(startDate);
 
   while (current <= endDate) {
-    if (isWorkingDay(current, customHolidays)) {
+    if (isWorkingDay(current, calendar)) {
       workingDays++;
     }
     current.setDate(current.getDate() + 1);
@@ -63,8 +80,51 @@ export function formatDate(date: Date | string): string {
   });
 }
 
+// The local day as YYYY-MM-DD; called for every day the scheduler looks at,
+// so it is built from the parts rather than through toISOString
 export function toUTCDateOnly(date: Date): string {
-  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
-    .toISOString()
-    .split("T")[0];
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Local midnight of a date written by toUTCDateOnly
+export function parseDateOnly(date: string): Date {
+  return new Date(date + "T00:00:00");
+}
+
+export function shiftWorkingDays(
+  date: Date,
+  workingDays: number,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR,
+): Date {
+  const result = new Date(date);
+  const step = workingDays < 0 ? -1 : 1;
+  let remaining = Math.abs(workingDays);
+
+  while (remaining > 0) {
+    result.setDate(result.getDate() + step);
+
+    if (isWorkingDay(result, calendar)) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+// Number of working days in (from, to]; negative when `to` is before `from`
+export function countWorkingDaysAfter(
+  from: Date,
+  to: Date,
+  calendar: WorkCalendar = DEFAULT_WORK_CALENDAR,
+): number {
+  if (to.getTime() === from.getTime()) return 0;
+
+  const [earlier, later] = to > from ? [from, to] : [to, from];
+  const dayAfter = new Date(earlier);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+
+  const days = getWorkingDaysBetween(dayAfter, later, calendar);
+  return to > from ? days : -days;
 }
@@ -0,0 +1,45 @@
+import type { DependencyType, Task, TaskDependency } from "@/lib/types";
+
+export const DEPENDENCY_TYPES: Record<
+  DependencyType,
+  { label: string; shortLabel: string; description: string }
+> = {
+  "finish-to-start": {
+    label: "Finish to start",
+    shortLabel: "FS",
+    description: "Starts after the blocker finishes",
+  },
+  "start-to-start": {
+    label: "Start to start",
+    shortLabel: "SS",
+    description: "Starts once the blocker has started",
+  },
+  "finish-to-finish": {
+    label: "Finish to finish",
+    shortLabel: "FF",
+    description: "Finishes no earlier than the blocker",
+  },
+};
+
+export function createDependency(taskId: string): TaskDependency {
+  return { taskId, type: "finish-to-start", lagDays: 0 };
+}
+
+// blockerTaskIds stays the list of edges; `dependencies` only annotates them,
+// so tasks saved before dependency types existed keep working unchanged.
+export function getTaskDependencies(task: Task): TaskDependency[] {
+  return (task.blockerTaskIds || []).map((blockerId) => {
+    const dependency = task.dependencies?.find((d) => d.taskId === blockerId);
+    return dependency ? { ...dependency } : createDependency(blockerId);
+  });
+}
+
+export function formatDependency(dependency: TaskDependency): string {
+  const { shortLabel } = DEPENDENCY_TYPES[dependency.type];
+  if (!dependency.lagDays) return shortLabel;
+  return `${shortLabel}${dependency.lagDays > 0 ? "+" : ""}${dependency.lagDays}d`;
+}
+
+export function isDependencyType(value: unknown): value is DependencyType {
+  return typeof value === "string" && value in DEPENDENCY_TYPES;
+}
@@ -0,0 +1,216 @@
+import type { DependencyCycle, DependencyEdge, Task } from "@/lib/types";
+import {
+  expandEpicDependencies,
+  getAncestorIds,
+  getChildrenMap,
+  getLeafDescendantIds,
+  getParentMap,
+} from "@/lib/task-hierarchy";
+
+// Tarjan's algorithm over "blocker -> dependent" edges. Only components that
+// actually contain a cycle are returned (size > 1 or a self-dependency).
+export function findStronglyConnectedComponents(tasks: Task[]): string[][] {
+  const dependents = buildDependentsMap(tasks);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  const strongConnect = (taskId: string) => {
+    index.set(taskId, counter);
+    lowLink.set(taskId, counter);
+    counter++;
+    stack.push(taskId);
+    onStack.add(taskId);
+
+    for (const next of dependents.get(taskId) || []) {
+      if (!index.has(next)) {
+        strongConnect(next);
+        lowLink.set(taskId, Math.min(lowLink.get(taskId)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(taskId, Math.min(lowLink.get(taskId)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(taskId) === index.get(taskId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== taskId);
+
+      const selfLoop = dependents.get(taskId)?.includes(taskId);
+      if (component.length > 1 || selfLoop) {
+        components.push(component.reverse());
+      }
+    }
+  };
+
+  for (const task of tasks) {
+    if (!index.has(task.id)) strongConnect(task.id);
+  }
+
+  return components;
+}
+
+// Loops are looked for among leaf tasks with the links they inherit from
+// epics, as the scheduler sees them. The path runs through leaves; each edge
+// is the link as entered, which may be on an epic or point at one.
+export function findDependencyCycles(tasks: Task[]): DependencyCycle[] {
+  const leaves = expandEpicDependencies(tasks);
+  const dependents = buildDependentsMap(leaves);
+  const parents = getParentMap(tasks);
+  const tasksMap = new Map(tasks.map((t) => [t.id, t]));
+
+  return findStronglyConnectedComponents(leaves).map((component) => {
+    const members = new Set(component);
+    const start = component[0];
+    const path = findPathBack(start, members, dependents) || [start];
+
+    const edges = path.map((blockerTaskId, i) =>
+      getDeclaredEdge(
+        { blockerTaskId, taskId: path[(i + 1) % path.length] },
+        tasksMap,
+        parents,
+      ),
+    );
+
+    return { componentTaskIds: component, path, edges };
+  });
+}
+
+// Adding `blockerTaskId` as a blocker of `taskId` closes a loop when the
+// blocker already (transitively) waits on the task.
+export function wouldCreateCycle(
+  tasks: Task[],
+  taskId: string,
+  blockerTaskId: string,
+): boolean {
+  return findCyclicBlockerIds(tasks, taskId).has(blockerTaskId);
+}
+
+// Every task that would close a loop as a blocker of `taskId`, the task
+// itself included. Links bind through leaves the way expandEpicDependencies
+// passes them on, so epics on either side count through their children.
+export function findCyclicBlockerIds(
+  tasks: Task[],
+  taskId: string,
+): Set<string> {
+  const parents = getParentMap(tasks);
+  const children = getChildrenMap(tasks);
+  const dependents = buildDependentsMap(expandEpicDependencies(tasks));
+  const leavesOf = (id: string) =>
+    children.has(id) ? getLeafDescendantIds(id, children) : [id];
+
+  // What already waits on each leaf that would take the new blocker
+  const waiting = leavesOf(taskId).map((leafId) => ({
+    leafId,
+    ancestors: getAncestorIds(leafId, parents),
+    reached: collectDependents(leafId, dependents),
+  }));
+
+  const cyclic = new Set([taskId]);
+  for (const blocker of tasks) {
+    if (blocker.id === taskId) continue;
+    const closesLoop = waiting.some(
+      ({ leafId, ancestors, reached }) =>
+        // Waiting on your own ancestor or subtree means nothing
+        !ancestors.includes(blocker.id) &&
+        leavesOf(blocker.id).some(
+          (targetId) =>
+            targetId !== leafId &&
+            reached.has(targetId) &&
+            (leafId === taskId ||
+              !getAncestorIds(targetId, parents).includes(taskId)),
+        ),
+    );
+    if (closesLoop) cyclic.add(blocker.id);
+  }
+
+  return cyclic;
+}
+
+function buildDependentsMap(tasks: Task[]): Map<string, string[]> {
+  const known = new Set(tasks.map((t) => t.id));
+  const dependents = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    for (const blockerId of task.blockerTaskIds || []) {
+      if (!known.has(blockerId)) continue;
+      const list = dependents.get(blockerId) || [];
+      if (!list.includes(task.id)) list.push(task.id);
+      dependents.set(blockerId, list);
+    }
+  }
+
+  return dependents;
+}
+
+// Tasks that transitively wait on `taskId`
+function collectDependents(
+  taskId: string,
+  dependents: Map<string, string[]>,
+): Set<string> {
+  const reached = new Set<string>();
+  const queue = [taskId];
+  while (queue.length > 0) {
+    for (const next of dependents.get(queue.shift()!) || []) {
+      if (reached.has(next)) continue;
+      reached.add(next);
+      queue.push(next);
+    }
+  }
+  return reached;
+}
+
+// The entered link behind a leaf edge: on the leaf or the nearest of its
+// epics, pointing at the blocker or the nearest of its epics
+function getDeclaredEdge(
+  edge: DependencyEdge,
+  tasksMap: Map<string, Task>,
+  parents: Map<string, string>,
+): DependencyEdge {
+  const blockers = [
+    edge.blockerTaskId,
+    ...getAncestorIds(edge.blockerTaskId, parents),
+  ];
+  for (const taskId of [edge.taskId, ...getAncestorIds(edge.taskId, parents)]) {
+    const blockerTaskIds = tasksMap.get(taskId)?.blockerTaskIds || [];
+    const blockerTaskId = blockers.find((id) => blockerTaskIds.includes(id));
+    if (blockerTaskId) return { blockerTaskId, taskId };
+  }
+  return edge;
+}
+
+// Shortest walk inside the component from `start` back to itself
+function findPathBack(
+  start: string,
+  members: Set<string>,
+  dependents: Map<string, string[]>,
+): string[] | null {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  const seen = new Set<string>();
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of dependents.get(current) || []) {
+      if (!members.has(next)) continue;
+      if (next === start) {
+        const path = [current];
+        while (path[0] !== start) path.unshift(previous.get(path[0])!);
+        return path;
+      }
+      if (seen.has(next)) continue;
+      seen.add(next);
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
@@ -1,21 +1,72 @@
 import type {
   Task,
   Employee,
-  Release,
+  StaffedRelease,
   GanttTask,
   GanttData,
   UnscheduledReason,
+  ScheduleViolation,
+  ScheduleTrace,
+  TaskDependency,
+  HolidayCalendar,
+  GanttAssigneeSegment,
+  SchedulingStrategyId,
+  TargetAssessment,
 } from "@/lib/types";
-import { isWorkingDay, addWorkingDays } from "@/lib/date-utils";
-
-interface EmployeeCapacity {
-  employeeId: string;
-  date: string;
-  hoursAvailable: number;
-  hoursAllocated: number; // Track allocated hours per day
-}
-
-export function orderTasksByDependenciesAndPriority(tasks: Task[]): Task[] {
+import {
+  isWorkingDay,
+  isHoliday,
+  addWorkingDays,
+  countWorkingDaysAfter,
+  shiftWorkingDays,
+  toUTCDateOnly,
+  type WorkCalendar,
+} from "@/lib/date-utils";
+import { getReleaseCalendar } from "@/lib/holiday-calendars";
+import { getTaskDependencies } from "@/lib/dependencies";
+import { getAssigneeIds, getTaskAssignments } from "@/lib/assignments";
+import { getRemainingHours, getTaskProgress } from "@/lib/task-progress";
+import {
+  createCapacityCalendars,
+  getPlanningHorizon,
+  hasCapacityAfter,
+  planAllocation,
+  planSharedAllocation,
+  commitAllocation,
+  getCapacityPeriodForDate,
+  getEmployeeHoursForDate,
+  getPoolDay,
+  type AllocationPlan,
+  type EmployeeCapacityCalendar,
+  type PlanningHorizon,
+  type SplitAllocationPlan,
+} from "@/lib/capacity";
+import {
+  calculateCriticalPath,
+  calculateLatestDates,
+  type ScheduleLink,
+} from "@/lib/critical-path";
+import { findDependencyCycles } from "@/lib/dependency-graph";
+import {
+  byPriority,
+  getSchedulingStrategy,
+  type TaskComparator,
+} from "@/lib/scheduling-strategies";
+import {
+  expandEpicDependencies,
+  getAncestorIds,
+  getChildrenMap,
+  getLeafDescendantIds,
+  getParentMap,
+  orderTasksAsTree,
+} from "@/lib/task-hierarchy";
+
+// Topological order; among tasks that are ready at the same time `compare`
+// decides, by default the task list priority
+export function orderTasksByDependenciesAndPriority(
+  tasks: Task[],
+  compare: TaskComparator = byPriority,
+): Task[] {
   const graph = new Map<string, Set<string>>();
   const inDegree = new Map<string, number>();
   const taskById = new Map(tasks.map((t) => [t.id, t]));
@@ -41,7 +92,7 @@ export function orderTasksByDependenciesAndPriority(tasks: Task[]): Task[] {
     if ((inDegree.get(t.id) || 0) === 0) zero.push(t);
   }
 
-  const sortZero = () => zero.sort((a, b) => a.priority - b.priority);
+  const sortZero = () => zero.sort(compare);
 
   const ordered: Task[] = [];
   sortZero();
@@ -62,59 +113,133 @@ export function orderTasksByDependenciesAndPriority(tasks: Task[]): Task[] {
   }
 
   if (ordered.length !== tasks.length) {
-    const remaining = tasks
-      .filter((t) => !ordered.includes(t))
-      .sort((a, b) => a.priority - b.priority);
+    const remaining = tasks.filter((t) => !ordered.includes(t)).sort(compare);
     return ordered.concat(remaining);
   }
 
   return ordered;
 }
 
-export function calculateGanttData(release: Release): GanttData {
-  const { tasks, employees, startDate, customHolidays } = release;
-
-  const tasksMap = new Map<string, Task>(tasks.map((t) => [t.id, t]));
-
-  const sortedTasks = orderTasksByDependenciesAndPriority(tasks);
+export interface GanttOptions {
+  today?: Date; // When set, open work is planned from this date on
+  // Calendars shared with other releases, by employee id of this release
+  capacityCalendars?: Map<string, EmployeeCapacityCalendar>;
+  // Already scheduled tasks of other releases, so blockers across releases resolve
+  externalSchedules?: Map<string, { startDate: Date; endDate: Date }>;
+  // Shared calendars the release's holidayCalendarIds refer to
+  holidayCalendars?: HolidayCalendar[];
+  strategy?: SchedulingStrategyId; // Overrides the release's own strategy
+}
 
-  const employeeCapacities = calculateEmployeeCapacities(
-    employees,
-    startDate,
-    customHolidays,
+export function calculateGanttData(
+  release: StaffedRelease,
+  options: GanttOptions = {},
+): GanttData {
+  const { tasks, employees, startDate } = release;
+  const workCalendar = getReleaseCalendar(release, options.holidayCalendars);
+  const today = options.today
+    ? nextWorkingDay(options.today, workCalendar)
+    : null;
+
+  // Only leaf tasks are scheduled; epics are rolled up from them afterwards
+  const parents = getParentMap(tasks);
+  const children = getChildrenMap(tasks);
+  const leafTasks = expandEpicDependencies(tasks);
+  const tasksMap = new Map<string, Task>(leafTasks.map((t) => [t.id, t]));
+
+  const strategy = getSchedulingStrategy(
+    options.strategy ?? release.schedulingStrategy,
+  );
+  const sortedTasks = orderTasksByDependenciesAndPriority(
+    leafTasks,
+    strategy.createComparator(leafTasks),
   );
 
+  const horizon = getPlanningHorizon(release, {
+    today: options.today,
+    holidayCalendars: options.holidayCalendars,
+  });
+  const capacityCalendars =
+    options.capacityCalendars ??
+    createCapacityCalendars(
+      employees,
+      startDate,
+      horizon.endDate,
+      workCalendar,
+      options.holidayCalendars,
+    );
+
   const ganttTasks: GanttTask[] = [];
-  const taskScheduleMap = new Map<string, { startDate: Date; endDate: Date }>();
+  const taskScheduleMap = new Map<string, { startDate: Date; endDate: Date }>(
+    options.externalSchedules,
+  );
 
   for (const task of sortedTasks) {
     const schedule = calculateTaskSchedule(
       startDate,
       task,
       taskScheduleMap,
-      employeeCapacities,
-      customHolidays,
+      capacityCalendars,
+      horizon,
+      workCalendar,
+      today,
       tasksMap,
       new Set(), // visited
     );
 
+    const isMilestone = task.type === "milestone";
+    const assigneeIds = getAssigneeIds(task);
     const ganttTask: GanttTask = {
       id: task.id,
       name: task.name,
       estimatedHours: task.estimatedHours,
       startDate: schedule?.startDate,
       endDate: schedule?.endDate,
-      progress: getTaskProgress(task.status),
+      progress: getTaskProgress(task),
       dependencies: task.blockerTaskIds,
-      assignedEmployee: task.assignedEmployeeId
-        ? getEmployeeName(task.assignedEmployeeId, employees)
-        : undefined,
-      color: getTaskColor(task.assignedEmployeeId, employees),
+      dependencyLinks: getTaskDependencies(task),
+      assignedEmployee:
+        assigneeIds.length > 0
+          ? assigneeIds.map((id) => getEmployeeName(id, employees)).join(", ")
+          : undefined,
+      color: isMilestone
+        ? MILESTONE_COLOR
+        : getTaskColor(assigneeIds[0] ?? null, employees),
     };
 
+    if (assigneeIds.length > 1 && schedule?.parts?.length) {
+      ganttTask.assigneeSegments = schedule.parts.map(
+        (part): GanttAssigneeSegment => ({
+          employeeId: part.calendar.employee.id,
+          employeeName: part.calendar.employee.name,
+          color: getTaskColor(part.calendar.employee.id, employees),
+          hours: part.plan.allocations.reduce((sum, a) => sum + a.hours, 0),
+          startDate: part.plan.startDate,
+          endDate: part.plan.endDate,
+        }),
+      );
+    }
+
+    if (isMilestone) {
+      ganttTask.isMilestone = true;
+      ganttTask.targetDate = task.targetDate;
+      delete ganttTask.assignedEmployee;
+    }
+
     if (schedule?.unscheduledReason) {
       ganttTask.unscheduledReason = schedule.unscheduledReason;
     }
+    if (schedule?.violations && schedule.violations.length > 0) {
+      ganttTask.violations = schedule.violations;
+    }
+    if (schedule?.trace) {
+      ganttTask.trace = schedule.trace;
+    }
+
+    if (parents.has(task.id)) {
+      ganttTask.parentId = parents.get(task.id);
+      ganttTask.depth = getAncestorIds(task.id, parents).length;
+    }
 
     ganttTasks.push(ganttTask);
     if (schedule && schedule.startDate && schedule.endDate) {
@@ -131,32 +256,237 @@ export function calculateGanttData(release: Release): GanttData {
       ? new Date(Math.max(...ganttTasks.map((t) => t.endDate!.getTime())))
       : null;
 
+  const scheduleLinks = buildScheduleLinks(ganttTasks, tasksMap, workCalendar);
+  const { floats, criticalPath } = calculateCriticalPath(
+    ganttTasks,
+    scheduleLinks,
+    projectEndDate,
+    workCalendar,
+  );
+  for (const ganttTask of ganttTasks) {
+    const float = floats.get(ganttTask.id);
+    if (!float) continue;
+    ganttTask.totalFloat = float.totalFloat;
+    ganttTask.freeFloat = float.freeFloat;
+    ganttTask.isCritical = float.isCritical;
+  }
+
+  // Backward pass: how late each task may start and still meet the target
+  let target: TargetAssessment | undefined;
+  if (release.targetEndDate) {
+    const targetDate = previousWorkingDay(
+      new Date(release.targetEndDate + "T00:00:00"),
+      workCalendar,
+    );
+    const latest = calculateLatestDates(
+      ganttTasks,
+      scheduleLinks,
+      targetDate,
+      workCalendar,
+    );
+    for (const ganttTask of ganttTasks) {
+      const dates = latest.get(ganttTask.id);
+      if (!dates) continue;
+      ganttTask.latestStart = dates.latestStart;
+      ganttTask.latestFinish = dates.latestFinish;
+      const task = tasksMap.get(ganttTask.id)!;
+      if (
+        today &&
+        (task.status === "pending" || task.status === "blocked") &&
+        dates.latestStart < today
+      ) {
+        ganttTask.latestStartPassed = true;
+      }
+    }
+
+    target = {
+      targetDate,
+      feasible: !!projectEndDate && projectEndDate <= targetDate,
+      daysLate: projectEndDate
+        ? countWorkingDaysAfter(targetDate, projectEndDate, workCalendar)
+        : null,
+    };
+  }
+
   const employeeColors = employees.map((employee, index) => ({
     id: employee.id,
     name: employee.name,
     color: getEmployeeColor(index),
   }));
 
-  console.log(ganttTasks);
+  // Epics follow the schedule order of their first leaf, children right
+  // below their parent
+  const leafById = new Map(ganttTasks.map((t) => [t.id, t]));
+  const epicById = new Map(
+    tasks
+      .filter((task) => children.has(task.id))
+      .map((epic) => [
+        epic.id,
+        buildEpicGanttTask(
+          epic,
+          getLeafDescendantIds(epic.id, children).map((id) =>
+            leafById.get(id)!,
+          ),
+          parents,
+        ),
+      ]),
+  );
+  const displayTasks: GanttTask[] = [];
+  const added = new Set<string>();
+  for (const ganttTask of ganttTasks) {
+    for (const epicId of getAncestorIds(ganttTask.id, parents).reverse()) {
+      if (added.has(epicId)) continue;
+      added.add(epicId);
+      displayTasks.push(epicById.get(epicId)!);
+    }
+    displayTasks.push(ganttTask);
+  }
+
   return {
-    tasks: ganttTasks,
+    tasks: orderTasksAsTree(displayTasks, parents),
     employees: employeeColors,
     releaseDate: projectEndDate,
+    criticalPath,
+    cycles: findDependencyCycles(tasks),
+    ...(target && { target }),
   };
 }
 
+function buildEpicGanttTask(
+  epic: Task,
+  leaves: GanttTask[],
+  parents: Map<string, string>,
+): GanttTask {
+  const scheduled = leaves.every((t) => t.startDate && t.endDate);
+  const estimatedHours = leaves.reduce((sum, t) => sum + t.estimatedHours, 0);
+  const progress =
+    estimatedHours > 0
+      ? leaves.reduce((sum, t) => sum + t.progress * t.estimatedHours, 0) /
+        estimatedHours
+      : leaves.reduce((sum, t) => sum + t.progress, 0) / leaves.length;
+  const floats = leaves
+    .map((t) => t.totalFloat)
+    .filter((f): f is number => f !== undefined);
+
+  const ganttTask: GanttTask = {
+    id: epic.id,
+    name: epic.name,
+    estimatedHours,
+    startDate: scheduled
+      ? new Date(Math.min(...leaves.map((t) => t.startDate!.getTime())))
+      : undefined,
+    endDate: scheduled
+      ? new Date(Math.max(...leaves.map((t) => t.endDate!.getTime())))
+      : undefined,
+    progress: Math.round(progress),
+    dependencies: epic.blockerTaskIds,
+    dependencyLinks: getTaskDependencies(epic),
+    color: EPIC_COLOR,
+    isEpic: true,
+    depth: getAncestorIds(epic.id, parents).length,
+  };
+
+  if (parents.has(epic.id)) ganttTask.parentId = parents.get(epic.id);
+  if (floats.length > 0) ganttTask.totalFloat = Math.min(...floats);
+  if (leaves.some((t) => t.isCritical)) ganttTask.isCritical = true;
+  const latestStarts = leaves.filter((t) => t.latestStart);
+  if (scheduled && latestStarts.length === leaves.length) {
+    ganttTask.latestStart = new Date(
+      Math.min(...leaves.map((t) => t.latestStart!.getTime())),
+    );
+    ganttTask.latestFinish = new Date(
+      Math.max(...leaves.map((t) => t.latestFinish!.getTime())),
+    );
+  }
+  if (leaves.some((t) => t.latestStartPassed)) {
+    ganttTask.latestStartPassed = true;
+  }
+
+  return ganttTask;
+}
+
+// Dependencies link the dates their type names, a finish-to-start blocker
+// releases its successor the next working day. An assignee hands over from
+// one task to the next scheduled one either on the same day (shared day) or
+// the next working day, which makes that handover a precedence too.
+function buildScheduleLinks(
+  ganttTasks: GanttTask[],
+  tasksMap: Map<string, Task>,
+  workCalendar: WorkCalendar,
+): ScheduleLink[] {
+  const links: ScheduleLink[] = [];
+
+  for (const ganttTask of ganttTasks) {
+    for (const dependency of ganttTask.dependencyLinks) {
+      links.push({
+        predecessorId: dependency.taskId,
+        successorId: ganttTask.id,
+        type: dependency.type,
+        gap:
+          dependency.type === "finish-to-start" && !ganttTask.isMilestone
+            ? 1 + dependency.lagDays
+            : dependency.lagDays,
+      });
+    }
+  }
+
+  // A split task hands over from and to each of its assignees
+  const lastByEmployee = new Map<string, GanttTask>();
+  for (const ganttTask of ganttTasks) {
+    const task = tasksMap.get(ganttTask.id);
+    if (!task || ganttTask.isMilestone) continue;
+    if (!ganttTask.startDate || !ganttTask.endDate) continue;
+
+    for (const employeeId of getAssigneeIds(task)) {
+      const previous = lastByEmployee.get(employeeId);
+      if (
+        previous &&
+        previous.endDate! <= ganttTask.startDate &&
+        !links.some(
+          (l) =>
+            l.predecessorId === previous.id && l.successorId === ganttTask.id,
+        )
+      ) {
+        const gap = countWorkingDaysAfter(
+          previous.endDate!,
+          ganttTask.startDate,
+          workCalendar,
+        );
+        if (gap <= 1) {
+          links.push({
+            predecessorId: previous.id,
+            successorId: ganttTask.id,
+            type: "finish-to-start",
+            gap,
+          });
+        }
+      }
+      if (!previous || previous.endDate! <= ganttTask.endDate) {
+        lastByEmployee.set(employeeId, ganttTask);
+      }
+    }
+  }
+
+  return links;
+}
+
 function calculateTaskSchedule(
   releaseStartDate: string,
   task: Task,
   taskScheduleMap: Map<string, { startDate: Date; endDate: Date }>,
-  employeeCapacities: Map<string, EmployeeCapacity[]>,
-  customHolidays: string[],
+  capacityCalendars: Map<string, EmployeeCapacityCalendar>,
+  horizon: PlanningHorizon,
+  workCalendar: WorkCalendar,
+  today: Date | null,
   tasksMap: Map<string, Task>,
   visited: Set<string>,
 ): {
   startDate?: Date;
   endDate?: Date;
   unscheduledReason?: UnscheduledReason;
+  violations?: ScheduleViolation[];
+  trace?: ScheduleTrace;
+  parts?: SplitAllocationPlan[]; // Hours booked per assignee
 } | null {
   if (visited.has(task.id)) {
     return {
@@ -165,13 +495,43 @@ function calculateTaskSchedule(
   }
   visited.add(task.id);
 
-  let earliestStartDate = new Date(
-    task.calculatedStartDate || releaseStartDate,
+  // Finished work stays where it happened and holds no capacity
+  if (task.status === "completed" && task.actualEndDate) {
+    const endDate = new Date(task.actualEndDate + "T00:00:00");
+    const actualStart = task.actualStartDate
+      ? new Date(task.actualStartDate + "T00:00:00")
+      : endDate;
+    const startDate = actualStart < endDate ? actualStart : endDate;
+    return {
+      startDate,
+      endDate,
+      violations: getConstraintViolations(task, { startDate, endDate }),
+      trace: {
+        earliestStart: startDate,
+        driver: "actual_dates",
+        nonWorkingDays: [],
+        fullyAllocatedDays: [],
+        unavailableDays: [],
+        capacityPeriods: [],
+      },
+    };
+  }
+
+  // Milestones are a single point in time: every link binds that one date
+  // and a finish-to-start one lands on the blocker's last day
+  const isMilestone = task.type === "milestone";
+
+  // Raw (possibly non-working) date that bound the start, kept for the trace
+  let earliestBound = new Date(
+    (task.calculatedStartDate || releaseStartDate) + "T00:00:00",
   );
-  earliestStartDate = nextWorkingDay(earliestStartDate, customHolidays);
+  let earliestStartDate = nextWorkingDay(earliestBound, workCalendar);
+  let cause: ScheduleCause = { driver: "release_start" };
 
-  let latestBlockerEndTime: number | null = null;
-  for (const blockerId of task.blockerTaskIds || []) {
+  let finishNoEarlierThan: Date | null = null;
+  let finishDependency: TaskDependency | undefined;
+  for (const dependency of getTaskDependencies(task)) {
+    const blockerId = dependency.taskId;
     let blockerSchedule = taskScheduleMap.get(blockerId);
 
     if (!blockerSchedule && tasksMap.has(blockerId)) {
@@ -180,8 +540,10 @@ function calculateTaskSchedule(
         releaseStartDate,
         blockerTask,
         taskScheduleMap,
-        employeeCapacities,
-        customHolidays,
+        capacityCalendars,
+        horizon,
+        workCalendar,
+        today,
         tasksMap,
         new Set(visited),
       );
@@ -198,9 +560,21 @@ function calculateTaskSchedule(
     }
 
     if (blockerSchedule && blockerSchedule.endDate) {
-      const candidate = blockerSchedule.endDate.getTime();
-      if (latestBlockerEndTime === null || candidate > latestBlockerEndTime) {
-        latestBlockerEndTime = candidate;
+      const bound = getDependencyBound(
+        dependency,
+        blockerSchedule,
+        workCalendar,
+        isMilestone,
+      );
+      if (dependency.type === "finish-to-finish" && !isMilestone) {
+        if (!finishNoEarlierThan || bound > finishNoEarlierThan) {
+          finishNoEarlierThan = bound;
+          finishDependency = dependency;
+        }
+      } else if (bound > earliestStartDate) {
+        earliestBound = bound;
+        earliestStartDate = nextWorkingDay(bound, workCalendar);
+        cause = { driver: "blocker", bindingDependency: dependency };
       }
     } else if (!blockerSchedule && !tasksMap.has(blockerId)) {
       return {
@@ -213,147 +587,348 @@ function calculateTaskSchedule(
     }
   }
 
-  if (latestBlockerEndTime !== null) {
-    const afterBlocker = new Date(latestBlockerEndTime);
-    afterBlocker.setDate(afterBlocker.getDate() + 1);
-    earliestStartDate = nextWorkingDay(afterBlocker, customHolidays);
+  // A milestone nothing leads up to simply sits on its target date
+  if (isMilestone && task.targetDate && cause.driver === "release_start") {
+    const target = new Date(task.targetDate + "T00:00:00");
+    if (target > earliestStartDate) {
+      earliestBound = target;
+      earliestStartDate = nextWorkingDay(target, workCalendar);
+      cause = { driver: "target_date" };
+    }
   }
 
-  if (!task.assignedEmployeeId) {
-    const rawEndDate = addWorkingDays(
-      earliestStartDate,
-      Math.ceil(task.estimatedHours / 8),
-      customHolidays,
-    );
-    const endDate = nextWorkingDay(rawEndDate, customHolidays);
-    return { startDate: earliestStartDate, endDate };
+  for (const constraint of ["startNoEarlierThan", "mustStartOn"] as const) {
+    const constraintDate = task[constraint];
+    if (!constraintDate) continue;
+    const bound = new Date(constraintDate + "T00:00:00");
+    if (bound > earliestStartDate) {
+      earliestBound = bound;
+      earliestStartDate = nextWorkingDay(bound, workCalendar);
+      cause = { driver: "constraint", bindingConstraint: constraint };
+    }
   }
 
-  const employeeCapacity =
-    employeeCapacities.get(task.assignedEmployeeId) || [];
-
-  if (!employeeCapacity || employeeCapacity.length === 0) {
-    return {
-      unscheduledReason: "no_capacity",
-    };
+  if (today && task.status !== "completed" && today > earliestStartDate) {
+    earliestBound = today;
+    earliestStartDate = today;
+    cause = { driver: "today" };
   }
 
-  let remainingHours = task.estimatedHours;
-  let startDate = new Date(earliestStartDate);
-  let foundStart = false;
+  const assignments = isMilestone ? [] : getTaskAssignments(task);
+  const assigneeCalendars: EmployeeCapacityCalendar[] = [];
+  for (const assignment of assignments) {
+    const calendar = capacityCalendars.get(assignment.employeeId);
+    if (!calendar) {
+      return {
+        unscheduledReason: "no_capacity",
+      };
+    }
+    assigneeCalendars.push(calendar);
+  }
 
-  const dateIndexMap = new Map<string, number>();
-  employeeCapacity.forEach((c, i) => dateIndexMap.set(c.date, i));
+  // Completed tasks without recorded dates are still placed by their estimate
+  const hours = isMilestone
+    ? 0
+    : task.status === "completed"
+      ? task.estimatedHours
+      : getRemainingHours(task);
+  const planFrom = (from: Date): TaskPlan | null => {
+    // Nothing left to do: the task only waits to be closed
+    if (hours <= 0) {
+      return { startDate: from, endDate: from, parts: [] };
+    }
+    if (assigneeCalendars.length === 0) {
+      const plan = planWithoutAssignee(from, hours, workCalendar);
+      return { startDate: plan.startDate, endDate: plan.endDate, parts: [] };
+    }
 
-  const startDateStr = earliestStartDate.toISOString().split("T")[0];
-  const idx = dateIndexMap.has(startDateStr)
-    ? (dateIndexMap.get(startDateStr) as number)
-    : employeeCapacity.findIndex((c) => c.date > startDateStr);
+    let parts: SplitAllocationPlan[] | null = [];
+    if (task.splitByAvailability && assigneeCalendars.length > 1) {
+      parts = planSharedAllocation(assigneeCalendars, from, hours);
+    } else {
+      for (const [i, calendar] of assigneeCalendars.entries()) {
+        const shareHours = (assignments[i].sharePercent / 100) * hours;
+        if (shareHours <= 0) continue;
+        const plan = planAllocation(calendar, from, shareHours);
+        if (!plan) return null;
+        parts.push({ calendar, plan });
+      }
+    }
+    if (!parts || parts.length === 0) return null;
 
-  if (idx === -1) {
-    // нет доступных записей после earliestStartDate
     return {
-      unscheduledReason: "no_capacity",
+      startDate: new Date(
+        Math.min(...parts.map((p) => p.plan.startDate.getTime())),
+      ),
+      endDate: new Date(
+        Math.max(...parts.map((p) => p.plan.endDate.getTime())),
+      ),
+      parts,
     };
-  }
+  };
 
-  let lastUsedDateStr: string | null = null;
-  for (let i = idx; i < employeeCapacity.length && remainingHours > 0; i++) {
-    const dayCapacity = employeeCapacity[i];
-    const availableHours =
-      dayCapacity.hoursAvailable - dayCapacity.hoursAllocated;
+  let plan = planFrom(earliestStartDate);
 
-    if (availableHours > 0) {
-      if (!foundStart) {
-        startDate = new Date(dayCapacity.date + "T00:00:00");
-        foundStart = true;
-      }
+  // Finish-to-finish: push the work later until it no longer ends early
+  while (plan && finishNoEarlierThan && plan.endDate < finishNoEarlierThan) {
+    const shortfall = countWorkingDaysAfter(
+      plan.endDate,
+      finishNoEarlierThan,
+      workCalendar,
+    );
+    plan = planFrom(shiftWorkingDays(plan.startDate, shortfall, workCalendar));
+    cause = { driver: "blocker", bindingDependency: finishDependency };
+  }
 
-      const hoursToAllocate = Math.min(remainingHours, availableHours);
-      remainingHours -= hoursToAllocate;
-      dayCapacity.hoursAllocated += hoursToAllocate;
-      lastUsedDateStr = dayCapacity.date;
-    }
+  if (!plan) {
+    // Capacity past the horizon, set or derived, means the horizon, not
+    // the employee, is what stopped the task from fitting
+    const limitedByHorizon = assigneeCalendars.some((calendar) =>
+      hasCapacityAfter(calendar, calendar.horizonEnd),
+    );
+    return {
+      unscheduledReason: limitedByHorizon ? "beyond_horizon" : "no_capacity",
+    };
   }
 
-  if (remainingHours <= 0 && lastUsedDateStr) {
-    const endDate = new Date(lastUsedDateStr + "T00:00:00");
-    return { startDate, endDate };
-  } else {
+  if (horizon.isExplicit && plan.endDate > horizon.endDate) {
     return {
-      unscheduledReason: "no_capacity",
+      unscheduledReason: "beyond_horizon",
     };
   }
+
+  // Traced before committing so the task's own hours don't count as booked.
+  // A split task is explained by the assignee who finishes last.
+  const lastPart = plan.parts.reduce<SplitAllocationPlan | undefined>(
+    (last, part) =>
+      !last || part.plan.endDate > last.plan.endDate ? part : last,
+    undefined,
+  );
+  const trace = buildScheduleTrace(
+    cause,
+    earliestBound,
+    earliestStartDate,
+    lastPart?.plan ?? {
+      startDate: plan.startDate,
+      endDate: plan.endDate,
+      allocations: [],
+    },
+    lastPart?.calendar ?? assigneeCalendars[0],
+    workCalendar,
+  );
+
+  for (const part of plan.parts) {
+    commitAllocation(part.calendar, part.plan, task.id);
+  }
+
+  // Started work keeps its real start; only the rest is planned
+  const actualStart =
+    task.status === "in-progress" && task.actualStartDate
+      ? new Date(task.actualStartDate + "T00:00:00")
+      : null;
+  const startDate =
+    actualStart && actualStart < plan.startDate ? actualStart : plan.startDate;
+
+  return {
+    startDate,
+    endDate: plan.endDate,
+    violations: getConstraintViolations(task, {
+      startDate,
+      endDate: plan.endDate,
+    }),
+    trace,
+    parts: plan.parts,
+  };
 }
 
-function calculateEmployeeCapacities(
-  employees: Employee[],
-  projectStartDate: string,
-  customHolidays: string[],
-): Map<string, EmployeeCapacity[]> {
-  const capacityMap = new Map<string, EmployeeCapacity[]>();
-  const startDate = new Date(projectStartDate);
-  const endDate = new Date(startDate);
-  endDate.setMonth(endDate.getMonth() + 12); // Calculate for 1 year ahead
-
-  for (const employee of employees) {
-    const capacities: EmployeeCapacity[] = [];
-    const currentDate = new Date(startDate);
-
-    while (currentDate <= endDate) {
-      if (isWorkingDay(currentDate, customHolidays)) {
-        const hoursAvailable = getEmployeeHoursForDate(employee, currentDate);
-        capacities.push({
-          employeeId: employee.id,
-          date: currentDate.toISOString().split("T")[0],
-          hoursAvailable,
-          hoursAllocated: 0, // Initialize allocated hours
+// Where a task's hours go, one part per assignee who works on it
+interface TaskPlan {
+  startDate: Date;
+  endDate: Date;
+  parts: SplitAllocationPlan[];
+}
+
+type ScheduleCause = Pick<
+  ScheduleTrace,
+  "driver" | "bindingDependency" | "bindingConstraint"
+>;
+
+function buildScheduleTrace(
+  cause: ScheduleCause,
+  earliestBound: Date,
+  earliestStart: Date,
+  plan: AllocationPlan,
+  capacityCalendar: EmployeeCapacityCalendar | null | undefined,
+  releaseCalendar: WorkCalendar,
+): ScheduleTrace {
+  // The assignee is also off on their own public holidays
+  const workCalendar = capacityCalendar?.workCalendar ?? releaseCalendar;
+  const nonWorkingDays: ScheduleTrace["nonWorkingDays"] = [];
+  const current = new Date(
+    earliestBound < earliestStart ? earliestBound : earliestStart,
+  );
+  current.setHours(0, 0, 0, 0);
+  while (current <= plan.endDate) {
+    // Weekends the assignee's weekly pattern works are not days off for them
+    const workedWeekend =
+      capacityCalendar &&
+      !isHoliday(current, workCalendar) &&
+      getEmployeeHoursForDate(
+        capacityCalendar.employee,
+        current,
+        workCalendar.workingWeekdays,
+      ) > 0;
+    if (!isWorkingDay(current, workCalendar) && !workedWeekend) {
+      nonWorkingDays.push({
+        date: toUTCDateOnly(current),
+        reason: isHoliday(current, workCalendar) ? "holiday" : "weekend",
+      });
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  const fullyAllocatedDays: ScheduleTrace["fullyAllocatedDays"] = [];
+  const unavailableDays: string[] = [];
+  const periods = new Map<string, ScheduleTrace["capacityPeriods"][number]>();
+
+  if (capacityCalendar) {
+    const from = toUTCDateOnly(earliestStart);
+    const to = toUTCDateOnly(plan.endDate);
+    for (const day of capacityCalendar.days) {
+      if (day.date < from || day.date > to) continue;
+      // Other releases' bookings only show on the person's shared day
+      const poolDay =
+        capacityCalendar.pool && getPoolDay(capacityCalendar.pool, day.date);
+      if (day.hoursAvailable <= 0) {
+        unavailableDays.push(day.date);
+      } else if (day.hoursAllocated >= day.hoursAvailable) {
+        fullyAllocatedDays.push({ date: day.date, taskIds: [...day.taskIds] });
+      } else if (poolDay && poolDay.hoursAllocated >= poolDay.hoursAvailable) {
+        fullyAllocatedDays.push({
+          date: day.date,
+          taskIds: [...poolDay.taskIds],
         });
       }
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
-    capacityMap.set(employee.id, capacities);
+    for (const allocation of plan.allocations) {
+      const day = capacityCalendar.days[allocation.index];
+      const period = getCapacityPeriodForDate(
+        capacityCalendar.employee,
+        new Date(day.date + "T00:00:00"),
+      );
+      if (!period) continue;
+      const entry = periods.get(period.id) || {
+        periodId: period.id,
+        description: period.description,
+        hours: 0,
+      };
+      entry.hours += allocation.hours;
+      periods.set(period.id, entry);
+    }
   }
 
-  return capacityMap;
+  return {
+    ...cause,
+    earliestStart,
+    nonWorkingDays,
+    fullyAllocatedDays,
+    unavailableDays,
+    capacityPeriods: Array.from(periods.values()),
+  };
 }
 
-function getEmployeeHoursForDate(employee: Employee, date: Date): number {
-  const dateString = date.toISOString().split("T")[0];
-
-  for (const period of employee.capacityPeriods) {
-    if (period.startDate <= dateString && period.endDate >= dateString) {
-      return period.hoursPerDay;
-    }
+function getConstraintViolations(
+  task: Task,
+  schedule: { startDate: Date; endDate: Date },
+): ScheduleViolation[] {
+  const violations: ScheduleViolation[] = [];
+  const startStr = toUTCDateOnly(schedule.startDate);
+  const endStr = toUTCDateOnly(schedule.endDate);
+
+  if (task.mustStartOn && startStr !== task.mustStartOn) {
+    violations.push("must_start_missed");
+  }
+  if (task.finishNoLaterThan && endStr > task.finishNoLaterThan) {
+    violations.push("deadline_missed");
+  }
+  if (
+    task.type === "milestone" &&
+    task.targetDate &&
+    endStr > task.targetDate
+  ) {
+    violations.push("milestone_slipped");
   }
 
-  return 0; // No capacity defined for this date
+  return violations;
 }
 
-function nextWorkingDay(date: Date, customHolidays: string[]): Date {
+// Unassigned work is assumed to take 8 hours per working day
+function planWithoutAssignee(
+  from: Date,
+  hours: number,
+  workCalendar: WorkCalendar,
+): AllocationPlan {
+  const startDate = nextWorkingDay(from, workCalendar);
+  const rawEndDate = addWorkingDays(
+    startDate,
+    Math.ceil(hours / 8),
+    workCalendar,
+  );
+  const endDate = nextWorkingDay(rawEndDate, workCalendar);
+  return { startDate, endDate, allocations: [] };
+}
+
+function getDependencyBound(
+  dependency: TaskDependency,
+  blockerSchedule: { startDate: Date; endDate: Date },
+  workCalendar: WorkCalendar,
+  toMilestone = false,
+): Date {
+  switch (dependency.type) {
+    case "start-to-start":
+      return shiftWorkingDays(
+        blockerSchedule.startDate,
+        dependency.lagDays,
+        workCalendar,
+      );
+    case "finish-to-finish":
+      return shiftWorkingDays(
+        blockerSchedule.endDate,
+        dependency.lagDays,
+        workCalendar,
+      );
+    default:
+      return shiftWorkingDays(
+        blockerSchedule.endDate,
+        (toMilestone ? 0 : 1) + dependency.lagDays,
+        workCalendar,
+      );
+  }
+}
+
+function nextWorkingDay(date: Date, workCalendar: WorkCalendar): Date {
   const d = new Date(date);
   // normalize to local midnight to make comparisons predictable
   d.setHours(0, 0, 0, 0);
-  while (!isWorkingDay(d, customHolidays)) {
+  while (!isWorkingDay(d, workCalendar)) {
     d.setDate(d.getDate() + 1);
   }
   return d;
 }
 
-function getTaskProgress(status: Task["status"]): number {
-  switch (status) {
-    case "completed":
-      return 100;
-    case "in-progress":
-      return 50;
-    case "blocked":
-      return 0;
-    default:
-      return 0;
+function previousWorkingDay(date: Date, workCalendar: WorkCalendar): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  while (!isWorkingDay(d, workCalendar)) {
+    d.setDate(d.getDate() - 1);
   }
+  return d;
 }
 
+const MILESTONE_COLOR = "#7c3aed"; // violet-600
+const EPIC_COLOR = "#334155"; // slate-700
+
 function getEmployeeName(employeeId: string, employees: Employee[]): string {
   const employee = employees.find((e) => e.id === employeeId);
   return employee ? employee.name : "Unknown";
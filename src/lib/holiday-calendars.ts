@@ -0,0 +1,144 @@
+import type { Employee, Holiday, HolidayCalendar, Release } from "@/lib/types";
+import {
+  DEFAULT_WORKING_WEEKDAYS,
+  toUTCDateOnly,
+  type WorkCalendar,
+} from "@/lib/date-utils";
+
+interface IcsEvent {
+  start?: string; // ISO date
+  end?: string; // ISO date
+  allDay?: boolean; // DTEND is a date, so the event ends the day before it
+  summary?: string;
+}
+
+// Longest event expanded into single days; guards against malformed ranges
+const MAX_EVENT_DAYS = 366;
+
+// The release's work week plus its own holidays and those of every shared
+// calendar it references
+export function getReleaseCalendar(
+  release: Pick<
+    Release,
+    "customHolidays" | "workingWeekdays" | "holidayCalendarIds"
+  >,
+  holidayCalendars: HolidayCalendar[] = [],
+): WorkCalendar {
+  const holidays = new Set(release.customHolidays);
+  for (const calendarId of release.holidayCalendarIds || []) {
+    const calendar = holidayCalendars.find((c) => c.id === calendarId);
+    for (const holiday of calendar?.holidays || []) {
+      holidays.add(holiday.date);
+    }
+  }
+
+  // A week without working days would never let anything be scheduled
+  const workingWeekdays = (release.workingWeekdays || []).filter(
+    (day) => Number.isInteger(day) && day >= 0 && day <= 6,
+  );
+
+  return {
+    workingWeekdays:
+      workingWeekdays.length > 0 ? workingWeekdays : DEFAULT_WORKING_WEEKDAYS,
+    holidays: Array.from(holidays).sort(),
+  };
+}
+
+// The release calendar with the employee's own public holidays added, so only
+// they are off on them
+export function getEmployeeCalendar(
+  releaseCalendar: WorkCalendar,
+  employee: Pick<Employee, "holidayCalendarIds">,
+  holidayCalendars: HolidayCalendar[] = [],
+): WorkCalendar {
+  if (!employee.holidayCalendarIds?.length) return releaseCalendar;
+
+  const holidays = new Set(releaseCalendar.holidays);
+  for (const calendarId of employee.holidayCalendarIds) {
+    const calendar = holidayCalendars.find((c) => c.id === calendarId);
+    for (const holiday of calendar?.holidays || []) {
+      holidays.add(holiday.date);
+    }
+  }
+
+  return { ...releaseCalendar, holidays: Array.from(holidays).sort() };
+}
+
+// Reads the events of an iCalendar (.ics) file as holidays. Events
+// spanning several days become one holiday per day; recurrence rules are not
+// expanded, so a recurring event contributes its first occurrence only.
+export function parseIcsCalendar(text: string): {
+  name?: string;
+  holidays: Holiday[];
+} {
+  // Long lines continue on the next line after a leading space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let name: string | undefined;
+  const byDate = new Map<string, Holiday>();
+  let event: IcsEvent | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+    const [property, ...params] = line.slice(0, colon).toUpperCase().split(";");
+    const value = line.slice(colon + 1).trim();
+
+    if (property === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = {};
+    } else if (property === "END" && value.toUpperCase() === "VEVENT") {
+      if (event?.start) {
+        for (const date of getEventDays(event)) {
+          if (!byDate.has(date))
+            byDate.set(date, { date, name: event.summary });
+        }
+      }
+      event = null;
+    } else if (property === "X-WR-CALNAME" && !event) {
+      name = unescapeText(value);
+    } else if (event && property === "DTSTART") {
+      event.start = toIsoDate(value);
+    } else if (event && property === "DTEND") {
+      event.end = toIsoDate(value);
+      event.allDay = params.includes("VALUE=DATE") || /^\d{8}$/.test(value);
+    } else if (event && property === "SUMMARY") {
+      event.summary = unescapeText(value);
+    }
+  }
+
+  return {
+    name,
+    holidays: Array.from(byDate.values()).sort((a, b) =>
+      a.date.localeCompare(b.date),
+    ),
+  };
+}
+
+// YYYYMMDD or YYYYMMDDTHHMMSS[Z] to an ISO date
+function toIsoDate(value: string): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function getEventDays(event: IcsEvent): string[] {
+  const days = [event.start!];
+  if (!event.end) return days;
+
+  const current = new Date(event.start + "T00:00:00");
+  const last = new Date(event.end + "T00:00:00");
+  if (event.allDay) last.setDate(last.getDate() - 1);
+
+  current.setDate(current.getDate() + 1);
+  while (current <= last && days.length < MAX_EVENT_DAYS) {
+    days.push(toUTCDateOnly(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return days;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([\\;,])/g, "$1")
+    .trim();
+}
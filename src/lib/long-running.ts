@@ -0,0 +1,59 @@
+// Calculations that reschedule many times are written as generators that
+// yield after each reschedule, so the page can run them a slice at a time
+// and show progress, while tests simply run them to the end.
+
+export interface StepProgress {
+  done: number;
+  total: number; // Upper bound; a calculation may finish early
+}
+
+export type Steps<T> = Generator<StepProgress, T, void>;
+
+export interface SliceOptions {
+  onProgress?: (progress: StepProgress) => void;
+  signal?: AbortSignal; // Stops the calculation before its next step
+  sliceMs?: number; // Time to run before handing the main thread back
+}
+
+const DEFAULT_SLICE_MS = 50;
+
+export function runToEnd<T>(steps: Steps<T>): T {
+  for (;;) {
+    const next = steps.next();
+    if (next.done) return next.value;
+  }
+}
+
+// Runs the steps in slices with a macrotask between them, so the browser can
+// paint and handle input. Resolves with the result, or null when cancelled.
+export function runInSlices<T>(
+  steps: Steps<T>,
+  options: SliceOptions = {},
+): Promise<T | null> {
+  const sliceMs = options.sliceMs ?? DEFAULT_SLICE_MS;
+
+  return new Promise((resolve, reject) => {
+    const runSlice = () => {
+      if (options.signal?.aborted) {
+        resolve(null);
+        return;
+      }
+      try {
+        const sliceEnd = Date.now() + sliceMs;
+        let next = steps.next();
+        while (!next.done && Date.now() < sliceEnd) {
+          next = steps.next();
+        }
+        if (next.done) {
+          resolve(next.value);
+          return;
+        }
+        options.onProgress?.(next.value);
+        setTimeout(runSlice, 0);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    setTimeout(runSlice, 0);
+  });
+}
@@ -0,0 +1,249 @@
+import type {
+  Employee,
+  GanttData,
+  PortfolioSchedule,
+  Release,
+  SchedulingStrategyId,
+  StaffedRelease,
+} from "@/lib/types";
+import { calculateGanttData, type GanttOptions } from "@/lib/gantt-calculator";
+import {
+  createCapacityCalendars,
+  getPlanningHorizon,
+  type EmployeeCapacityCalendar,
+} from "@/lib/capacity";
+import { staffRelease } from "@/lib/roster";
+import { getReleaseCalendar } from "@/lib/holiday-calendars";
+import { SCHEDULING_STRATEGIES } from "@/lib/scheduling-strategies";
+
+export interface StrategyOutcome {
+  strategy: SchedulingStrategyId;
+  releaseDate: Date | null;
+  unscheduledCount: number; // Tasks the strategy could not place
+  violationCount: number; // Tasks with a missed deadline or constraint
+}
+
+// Lower priority numbers go first, releases without one after them; ties go
+// to the release that starts earlier.
+export function compareReleasePriority(a: Release, b: Release): number {
+  const priorityA = a.priority ?? Number.POSITIVE_INFINITY;
+  const priorityB = b.priority ?? Number.POSITIVE_INFINITY;
+  if (priorityA !== priorityB) return priorityA < priorityB ? -1 : 1;
+  return a.startDate.localeCompare(b.startDate);
+}
+
+// Releases are scheduled one at a time and take capacity in that order. A
+// release waiting on another release's tasks goes after it, otherwise the
+// higher priority one goes first. Releases waiting on each other fall back to
+// priority; the blockers that are not scheduled yet stay external.
+export function orderReleasesForScheduling(releases: Release[]): Release[] {
+  const releaseOfTask = new Map<string, string>();
+  for (const release of releases) {
+    for (const task of release.tasks) {
+      releaseOfTask.set(task.id, release.id);
+    }
+  }
+
+  const waitsOn = new Map<string, Set<string>>();
+  for (const release of releases) {
+    const upstream = new Set<string>();
+    for (const task of release.tasks) {
+      for (const blockerId of task.blockerTaskIds) {
+        const blockerRelease = releaseOfTask.get(blockerId);
+        if (blockerRelease && blockerRelease !== release.id) {
+          upstream.add(blockerRelease);
+        }
+      }
+    }
+    waitsOn.set(release.id, upstream);
+  }
+
+  const remaining = [...releases].sort(compareReleasePriority);
+  const ordered: Release[] = [];
+  const done = new Set<string>();
+
+  while (remaining.length > 0) {
+    let index = remaining.findIndex((release) =>
+      [...waitsOn.get(release.id)!].every((id) => done.has(id)),
+    );
+    if (index === -1) index = 0;
+
+    const [next] = remaining.splice(index, 1);
+    ordered.push(next);
+    done.add(next.id);
+  }
+
+  return ordered;
+}
+
+// Releases that take capacity before `releaseId`, i.e. all that can move it;
+// every release when it is not among them
+export function getReleasesScheduledBefore(
+  releases: Release[],
+  releaseId: string,
+): Release[] {
+  const ordered = orderReleasesForScheduling(releases);
+  const index = ordered.findIndex((r) => r.id === releaseId);
+  return index === -1 ? ordered : ordered.slice(0, index);
+}
+
+// Schedules `release`, possibly a changed copy of the one with its id, after
+// the releases ahead of it; the ones after it cannot move it
+export function scheduleInPortfolio(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: Pick<GanttOptions, "today" | "holidayCalendars"> = {},
+): GanttData {
+  const before = getReleasesScheduledBefore(
+    releases.map((r) => (r.id === release.id ? release : r)),
+    release.id,
+  );
+  return calculatePortfolioSchedule([...before, release], roster, options)
+    .releases[release.id];
+}
+
+// One calendar per person, behind every release calendar they appear in.
+// A release books within its allocation and the person's day at once, so
+// hours taken by one release are gone for the next. The person works the
+// weekdays of any of their releases and is off on any of their holidays.
+export function createPersonCalendars(
+  releases: StaffedRelease[],
+  roster: Employee[],
+  options: Pick<GanttOptions, "today" | "holidayCalendars"> = {},
+): Map<string, EmployeeCapacityCalendar> {
+  const { holidayCalendars = [] } = options;
+  const horizons = new Map(
+    releases.map((r) => [r.id, getPortfolioHorizon(r, releases, options)]),
+  );
+  const releasesOf = new Map<string, StaffedRelease[]>();
+  for (const release of releases) {
+    for (const employee of release.employees) {
+      releasesOf.set(employee.id, [
+        ...(releasesOf.get(employee.id) || []),
+        release,
+      ]);
+    }
+  }
+
+  const pools = new Map<string, EmployeeCapacityCalendar>();
+  for (const person of roster) {
+    const personReleases = releasesOf.get(person.id);
+    if (!personReleases) continue;
+
+    const startDate = personReleases
+      .map((r) => r.startDate)
+      .reduce((a, b) => (a < b ? a : b));
+    const horizonEnd = new Date(
+      Math.max(...personReleases.map((r) => horizons.get(r.id)!.getTime())),
+    );
+    const workCalendars = personReleases.map((r) =>
+      getReleaseCalendar(r, holidayCalendars),
+    );
+    const workCalendar = {
+      workingWeekdays: Array.from(
+        new Set(workCalendars.flatMap((c) => c.workingWeekdays)),
+      ),
+      holidays: Array.from(new Set(workCalendars.flatMap((c) => c.holidays))),
+    };
+    pools.set(
+      person.id,
+      createCapacityCalendars(
+        [person],
+        startDate,
+        horizonEnd,
+        workCalendar,
+        holidayCalendars,
+      ).get(person.id)!,
+    );
+  }
+
+  return pools;
+}
+
+export function calculatePortfolioSchedule(
+  releases: Release[],
+  roster: Employee[],
+  options: GanttOptions = {},
+): PortfolioSchedule {
+  const ordered = orderReleasesForScheduling(releases).map((release) =>
+    staffRelease(release, roster),
+  );
+  const pools = createPersonCalendars(ordered, roster, options);
+  const schedules = new Map<string, { startDate: Date; endDate: Date }>();
+  const results: Record<string, GanttData> = {};
+
+  for (const release of ordered) {
+    const calendars = createCapacityCalendars(
+      release.employees,
+      release.startDate,
+      getPortfolioHorizon(release, ordered, options),
+      getReleaseCalendar(release, options.holidayCalendars),
+      options.holidayCalendars,
+    );
+    for (const [employeeId, calendar] of calendars) {
+      calendar.pool = pools.get(employeeId);
+    }
+
+    const ganttData = calculateGanttData(release, {
+      ...options,
+      capacityCalendars: calendars,
+      externalSchedules: schedules,
+    });
+
+    for (const task of ganttData.tasks) {
+      if (task.startDate && task.endDate) {
+        schedules.set(task.id, {
+          startDate: task.startDate,
+          endDate: task.endDate,
+        });
+      }
+    }
+    results[release.id] = ganttData;
+  }
+
+  return {
+    releaseOrder: ordered.map((release) => release.id),
+    releases: results,
+  };
+}
+
+// Schedules the portfolio once per built-in strategy, changing only this
+// release's, so their end dates can be compared with the same people busy
+// elsewhere as in the chart.
+export function compareSchedulingStrategies(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: Pick<GanttOptions, "today" | "holidayCalendars"> = {},
+): StrategyOutcome[] {
+  return Object.values(SCHEDULING_STRATEGIES).map(({ id }) => {
+    const { tasks, releaseDate } = scheduleInPortfolio(
+      { ...release, schedulingStrategy: id },
+      releases,
+      roster,
+      options,
+    );
+    const leaves = tasks.filter((t) => !t.isEpic);
+    return {
+      strategy: id,
+      releaseDate,
+      unscheduledCount: leaves.filter((t) => t.unscheduledReason).length,
+      violationCount: leaves.filter((t) => t.violations?.length).length,
+    };
+  });
+}
+
+// Work of the other releases may take this release's people first, so it
+// counts towards how far the release's capacity has to reach
+function getPortfolioHorizon(
+  release: StaffedRelease,
+  releases: StaffedRelease[],
+  options: Pick<GanttOptions, "today" | "holidayCalendars">,
+): Date {
+  return getPlanningHorizon(release, {
+    today: options.today,
+    holidayCalendars: options.holidayCalendars,
+    otherReleases: releases.filter((r) => r.id !== release.id),
+  }).endDate;
+}
@@ -0,0 +1,132 @@
+import type {
+  Employee,
+  ProjectData,
+  Release,
+  StaffedRelease,
+} from "@/lib/types";
+
+// Releases saved before the roster existed kept their own employee records
+type LegacyRelease = Release & { employees?: Employee[] };
+
+// The same person re-entered in several releases is recognised by name
+export function getPersonKey(employee: Pick<Employee, "name">): string {
+  return employee.name.trim().toLowerCase();
+}
+
+// Roster records of the release's members, in member order
+export function getReleaseEmployees(
+  release: Release,
+  roster: Employee[],
+): Employee[] {
+  return release.members.flatMap((member) => {
+    const employee = roster.find((e) => e.id === member.employeeId);
+    return employee ? [employee] : [];
+  });
+}
+
+export function staffRelease(
+  release: Release,
+  roster: Employee[],
+): StaffedRelease {
+  const { members, ...rest } = release;
+  return {
+    ...rest,
+    employees: members.flatMap((member) => {
+      const employee = roster.find((e) => e.id === member.employeeId);
+      return employee
+        ? [scaleCapacity(employee, member.allocationPercent)]
+        : [];
+    }),
+  };
+}
+
+function scaleCapacity(
+  employee: Employee,
+  allocationPercent: number,
+): Employee {
+  if (allocationPercent >= 100) return employee;
+  const share = Math.max(allocationPercent, 0) / 100;
+  return {
+    ...employee,
+    capacityPeriods: employee.capacityPeriods.map((period) => ({
+      ...period,
+      hoursPerDay: period.hoursPerDay * share,
+      weekdayHours: period.weekdayHours?.map((hours) => hours * share),
+    })),
+    defaultHoursPerDay:
+      employee.defaultHoursPerDay !== undefined
+        ? employee.defaultHoursPerDay * share
+        : undefined,
+    defaultWeekdayHours: employee.defaultWeekdayHours?.map(
+      (hours) => hours * share,
+    ),
+    // The release carries its share of the person's overhead too
+    overhead: employee.overhead?.map((block) => ({
+      ...block,
+      hoursPerDay: block.hoursPerDay * share,
+    })),
+  };
+}
+
+// Moves per-release employees into the roster. Records with the same name
+// become one member whose capacity periods are merged, and tasks and work
+// logs are pointed at that member.
+export function migrateLegacyEmployees(data: ProjectData): ProjectData {
+  const roster = [...(data.roster || [])];
+  const byKey = new Map(roster.map((e) => [getPersonKey(e), e]));
+
+  const releases = data.releases.map((legacy: LegacyRelease) => {
+    const { employees, ...release } = legacy;
+    const members = [...(release.members || [])];
+    if (!employees) return { ...release, members };
+
+    const idMap = new Map<string, string>();
+    for (const employee of employees) {
+      const key = getPersonKey(employee);
+      let member = byKey.get(key);
+      if (!member) {
+        member = {
+          ...employee,
+          capacityPeriods: [...(employee.capacityPeriods || [])],
+        };
+        roster.push(member);
+        byKey.set(key, member);
+      } else {
+        for (const period of employee.capacityPeriods || []) {
+          const duplicate = member.capacityPeriods.some(
+            (p) =>
+              p.startDate === period.startDate &&
+              p.endDate === period.endDate &&
+              p.hoursPerDay === period.hoursPerDay &&
+              p.weekdayHours?.join() === period.weekdayHours?.join(),
+          );
+          if (!duplicate) member.capacityPeriods.push(period);
+        }
+      }
+
+      idMap.set(employee.id, member.id);
+      if (!members.some((m) => m.employeeId === member.id)) {
+        members.push({ employeeId: member.id, allocationPercent: 100 });
+      }
+    }
+
+    const remap = (employeeId: string | null) =>
+      employeeId ? (idMap.get(employeeId) ?? employeeId) : null;
+    return {
+      ...release,
+      members,
+      tasks: (release.tasks || []).map((task) => ({
+        ...task,
+        assignedEmployeeId: remap(task.assignedEmployeeId),
+        ...(task.workLog && {
+          workLog: task.workLog.map((entry) => ({
+            ...entry,
+            employeeId: remap(entry.employeeId),
+          })),
+        }),
+      })),
+    };
+  });
+
+  return { ...data, roster, releases };
+}
@@ -0,0 +1,108 @@
+import type { Employee, Release, ScenarioChanges, Task } from "@/lib/types";
+
+// The release and roster as a scenario sees them
+export interface ScenarioPlan {
+  release: Release;
+  roster: Employee[];
+}
+
+export function createScenarioChanges(): ScenarioChanges {
+  return {
+    addedEmployees: [],
+    removedEmployeeIds: [],
+    addedCapacityPeriods: [],
+    taskUpdates: [],
+    removedTaskIds: [],
+    addedHolidays: [],
+    removedHolidays: [],
+  };
+}
+
+// Changed people, tasks and holidays, counted once each
+export function countScenarioChanges(changes: ScenarioChanges): number {
+  return (
+    changes.addedEmployees.length +
+    changes.removedEmployeeIds.length +
+    changes.addedCapacityPeriods.length +
+    changes.taskUpdates.length +
+    changes.removedTaskIds.length +
+    changes.addedHolidays.length +
+    changes.removedHolidays.length
+  );
+}
+
+// The release keeps its id, so it can stand in for the original wherever
+// releases are scheduled together. Changes to people and tasks that no
+// longer exist are skipped.
+export function applyScenario(
+  release: Release,
+  roster: Employee[],
+  changes: ScenarioChanges,
+): ScenarioPlan {
+  const removedEmployees = new Set(changes.removedEmployeeIds);
+  const members = release.members
+    .filter((m) => !removedEmployees.has(m.employeeId))
+    .concat(
+      changes.addedEmployees
+        .filter((e) => !removedEmployees.has(e.id))
+        .map((e) => ({ employeeId: e.id, allocationPercent: 100 })),
+    );
+
+  const withPeriods = (employee: Employee): Employee => {
+    const periods = changes.addedCapacityPeriods
+      .filter((p) => p.employeeId === employee.id)
+      .map((p) => p.period);
+    return periods.length > 0
+      ? {
+          ...employee,
+          capacityPeriods: [...employee.capacityPeriods, ...periods],
+        }
+      : employee;
+  };
+
+  const tasks = removeTasks(
+    release.tasks.map((task) => {
+      const update = changes.taskUpdates.find((u) => u.taskId === task.id);
+      if (!update) return task;
+      const { taskId, ...fields } = update;
+      return { ...task, ...fields, id: taskId };
+    }),
+    changes.removedTaskIds,
+  );
+
+  const removedHolidays = new Set(changes.removedHolidays);
+  const customHolidays = Array.from(
+    new Set([
+      ...release.customHolidays.filter((date) => !removedHolidays.has(date)),
+      ...changes.addedHolidays,
+    ]),
+  ).sort();
+
+  return {
+    release: { ...release, members, tasks, customHolidays },
+    roster: [...roster, ...changes.addedEmployees].map(withPeriods),
+  };
+}
+
+// As deleting them from the release would: children of a removed epic move
+// up to its parent and nothing waits on removed tasks any more
+export function removeTasks(tasks: Task[], taskIds: string[]): Task[] {
+  if (taskIds.length === 0) return tasks;
+  const removed = new Set(taskIds);
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const keptParent = (parentId: string | null | undefined) => {
+    while (parentId && removed.has(parentId)) {
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return parentId;
+  };
+
+  return tasks
+    .filter((t) => !removed.has(t.id))
+    .map((t) => ({
+      ...t,
+      parentId: keptParent(t.parentId),
+      blockerTaskIds: t.blockerTaskIds.filter((id) => !removed.has(id)),
+      dependencies: t.dependencies?.filter((d) => !removed.has(d.taskId)),
+    }));
+}
@@ -0,0 +1,161 @@
+import type { SchedulingStrategyId, Task } from "@/lib/types";
+import { getRemainingHours } from "@/lib/task-progress";
+
+// Negative when `a` should get capacity before `b`
+export type TaskComparator = (a: Task, b: Task) => number;
+
+// Decides which of the tasks whose blockers are all scheduled goes next, and
+// with it who gets contested capacity first. Blockers always come before the
+// tasks waiting on them, whatever the strategy.
+export interface SchedulingStrategy {
+  id: SchedulingStrategyId;
+  label: string;
+  description: string;
+  // Gets every task up front, for orders that depend on the whole graph
+  createComparator: (tasks: Task[]) => TaskComparator;
+}
+
+export const byPriority: TaskComparator = (a, b) => a.priority - b.priority;
+
+export const SCHEDULING_STRATEGIES: Record<
+  SchedulingStrategyId,
+  SchedulingStrategy
+> = {
+  priority: {
+    id: "priority",
+    label: "Priority first",
+    description: "Follows the order of the task list",
+    createComparator: () => byPriority,
+  },
+  "shortest-first": {
+    id: "shortest-first",
+    label: "Shortest task first",
+    description: "Least remaining work first, so more tasks finish early",
+    createComparator: () => (a, b) =>
+      getWorkHours(a) - getWorkHours(b) || byPriority(a, b),
+  },
+  "critical-path": {
+    id: "critical-path",
+    label: "Critical path first",
+    description: "Tasks with the longest chain of work after them first",
+    createComparator: (tasks) => {
+      const chainHours = getChainHours(tasks);
+      return (a, b) =>
+        (chainHours.get(b.id) ?? 0) - (chainHours.get(a.id) ?? 0) ||
+        byPriority(a, b);
+    },
+  },
+  "earliest-deadline": {
+    id: "earliest-deadline",
+    label: "Earliest deadline first",
+    description:
+      "Tasks whose own or a successor's deadline comes first; tasks without one last",
+    createComparator: (tasks) => {
+      const deadlines = getEffectiveDeadlines(tasks);
+      return (a, b) => {
+        const aDeadline = deadlines.get(a.id);
+        const bDeadline = deadlines.get(b.id);
+        if (aDeadline !== bDeadline) {
+          if (!aDeadline) return 1;
+          if (!bDeadline) return -1;
+          return aDeadline.localeCompare(bDeadline);
+        }
+        return byPriority(a, b);
+      };
+    },
+  },
+};
+
+export function isSchedulingStrategyId(
+  value: unknown,
+): value is SchedulingStrategyId {
+  return typeof value === "string" && value in SCHEDULING_STRATEGIES;
+}
+
+export function getSchedulingStrategy(
+  id: SchedulingStrategyId | undefined,
+): SchedulingStrategy {
+  return isSchedulingStrategyId(id)
+    ? SCHEDULING_STRATEGIES[id]
+    : SCHEDULING_STRATEGIES.priority;
+}
+
+function getWorkHours(task: Task): number {
+  return task.type === "milestone" ? 0 : getRemainingHours(task);
+}
+
+function getSuccessors(tasks: Task[]): Map<string, string[]> {
+  const ids = new Set(tasks.map((t) => t.id));
+  const successors = new Map<string, string[]>();
+  for (const task of tasks) {
+    for (const blockerId of task.blockerTaskIds || []) {
+      if (!ids.has(blockerId)) continue;
+      const list = successors.get(blockerId) || [];
+      list.push(task.id);
+      successors.set(blockerId, list);
+    }
+  }
+  return successors;
+}
+
+// Remaining hours of the task plus the longest chain of work waiting on it.
+// Edges closing a cycle are ignored.
+function getChainHours(tasks: Task[]): Map<string, number> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const successors = getSuccessors(tasks);
+  const chainHours = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (taskId: string): number => {
+    const known = chainHours.get(taskId);
+    if (known !== undefined) return known;
+    if (visiting.has(taskId)) return 0;
+    visiting.add(taskId);
+
+    let longestAfter = 0;
+    for (const successorId of successors.get(taskId) || []) {
+      longestAfter = Math.max(longestAfter, visit(successorId));
+    }
+    visiting.delete(taskId);
+
+    const hours = getWorkHours(byId.get(taskId)!) + longestAfter;
+    chainHours.set(taskId, hours);
+    return hours;
+  };
+
+  for (const task of tasks) visit(task.id);
+  return chainHours;
+}
+
+// The earliest deadline of the task or anything waiting on it, since a late
+// blocker makes its successors late too. Deadlines are finishNoLaterThan and
+// milestone target dates.
+function getEffectiveDeadlines(tasks: Task[]): Map<string, string | undefined> {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const successors = getSuccessors(tasks);
+  const deadlines = new Map<string, string | undefined>();
+  const visiting = new Set<string>();
+
+  const earlier = (a?: string, b?: string) => (!a || (b && b < a) ? b : a);
+
+  const visit = (taskId: string): string | undefined => {
+    if (deadlines.has(taskId)) return deadlines.get(taskId);
+    if (visiting.has(taskId)) return undefined;
+    visiting.add(taskId);
+
+    const task = byId.get(taskId)!;
+    let deadline =
+      task.finishNoLaterThan ??
+      (task.type === "milestone" ? task.targetDate : undefined);
+    for (const successorId of successors.get(taskId) || []) {
+      deadline = earlier(deadline, visit(successorId));
+    }
+    visiting.delete(taskId);
+
+    deadlines.set(taskId, deadline);
+    return deadline;
+  };
+
+  for (const task of tasks) visit(task.id);
+  return deadlines;
+}
@@ -0,0 +1,168 @@
+import type {
+  Employee,
+  HolidayCalendar,
+  Release,
+  Task,
+  ThreePointEstimate,
+} from "@/lib/types";
+import { toUTCDateOnly } from "@/lib/date-utils";
+import {
+  calculatePortfolioSchedule,
+  getReleasesScheduledBefore,
+} from "@/lib/portfolio";
+import { getRemainingHours } from "@/lib/task-progress";
+import { runToEnd, type Steps } from "@/lib/long-running";
+
+export interface ForecastBucket {
+  date: string; // ISO date string
+  count: number;
+  cumulative: number; // Share of completed runs finishing on or before date, 0-1
+}
+
+export interface ReleaseForecast {
+  iterations: number;
+  completedRuns: number; // Runs in which every task could be scheduled
+  p50: Date | null;
+  p80: Date | null;
+  p95: Date | null;
+  distribution: ForecastBucket[];
+  criticalProbability: Record<string, number>; // Task id -> share of runs, 0-1
+}
+
+export interface ForecastOptions {
+  iterations?: number;
+  random?: () => number;
+  today?: Date; // Passed through to calculatePortfolioSchedule
+  holidayCalendars?: HolidayCalendar[]; // Passed through to calculatePortfolioSchedule
+}
+
+export const DEFAULT_FORECAST_ITERATIONS = 300;
+// Every run is a full reschedule, so more runs are not worth the wait
+export const MAX_FORECAST_ITERATIONS = 1000;
+
+// Triangular distribution over the three-point estimate
+export function sampleEstimate(
+  estimate: ThreePointEstimate,
+  random: () => number = Math.random,
+): number {
+  const low = Math.min(estimate.optimisticHours, estimate.pessimisticHours);
+  const high = Math.max(estimate.optimisticHours, estimate.pessimisticHours);
+  const mode = Math.min(Math.max(estimate.mostLikelyHours, low), high);
+  if (high === low) return low;
+
+  const u = random();
+  const modeShare = (mode - low) / (high - low);
+  if (u < modeShare) {
+    return low + Math.sqrt(u * (high - low) * (mode - low));
+  }
+  return high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+}
+
+export function hasEstimateRange(release: Pick<Release, "tasks">): boolean {
+  return release.tasks.some((t) => t.estimateRange);
+}
+
+// The remaining work scaled by how the sample compares to the estimate, so
+// logged time and re-estimates still count. Completed work stays done.
+function sampleTask(task: Task, random: () => number): Task {
+  if (!task.estimateRange || task.status === "completed") return task;
+  const sample = sampleEstimate(task.estimateRange, random);
+  const remainingHours =
+    task.estimatedHours > 0
+      ? (getRemainingHours(task) * sample) / task.estimatedHours
+      : sample;
+  return { ...task, remainingHours: Math.round(remainingHours * 2) / 2 };
+}
+
+export function runReleaseForecast(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: ForecastOptions = {},
+): ReleaseForecast {
+  return runToEnd(forecastSteps(release, releases, roster, options));
+}
+
+// Each run reschedules the release with sampled hours among the releases it
+// shares people with, as the timeline does. Releases that get capacity after
+// it can't move it, so they are left out. Yields after every run.
+export function* forecastSteps(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: ForecastOptions = {},
+): Steps<ReleaseForecast> {
+  const iterations = Math.min(
+    options.iterations ?? DEFAULT_FORECAST_ITERATIONS,
+    MAX_FORECAST_ITERATIONS,
+  );
+  const random = options.random ?? Math.random;
+  const before = getReleasesScheduledBefore(releases, release.id);
+
+  const endTimes: number[] = [];
+  const criticalCounts = new Map<string, number>();
+
+  for (let run = 0; run < iterations; run++) {
+    const sampled: Release = {
+      ...release,
+      tasks: release.tasks.map((task) => sampleTask(task, random)),
+    };
+
+    const ganttData = calculatePortfolioSchedule([...before, sampled], roster, {
+      today: options.today,
+      holidayCalendars: options.holidayCalendars,
+    }).releases[release.id];
+    if (ganttData.releaseDate) {
+      endTimes.push(ganttData.releaseDate.getTime());
+      for (const taskId of ganttData.criticalPath) {
+        criticalCounts.set(taskId, (criticalCounts.get(taskId) || 0) + 1);
+      }
+    }
+    yield { done: run + 1, total: iterations };
+  }
+
+  endTimes.sort((a, b) => a - b);
+
+  const percentile = (p: number): Date | null => {
+    if (endTimes.length === 0) return null;
+    const index = Math.min(
+      endTimes.length - 1,
+      Math.max(0, Math.ceil(p * endTimes.length) - 1),
+    );
+    return new Date(endTimes[index]);
+  };
+
+  const counts = new Map<number, number>();
+  for (const time of endTimes) {
+    counts.set(time, (counts.get(time) || 0) + 1);
+  }
+  let seen = 0;
+  const distribution: ForecastBucket[] = Array.from(counts.entries()).map(
+    ([time, count]) => {
+      seen += count;
+      return {
+        date: toUTCDateOnly(new Date(time)),
+        count,
+        cumulative: seen / endTimes.length,
+      };
+    },
+  );
+
+  const criticalProbability: Record<string, number> = {};
+  for (const task of release.tasks) {
+    criticalProbability[task.id] =
+      endTimes.length > 0
+        ? (criticalCounts.get(task.id) || 0) / endTimes.length
+        : 0;
+  }
+
+  return {
+    iterations,
+    completedRuns: endTimes.length,
+    p50: percentile(0.5),
+    p80: percentile(0.8),
+    p95: percentile(0.95),
+    distribution,
+    criticalProbability,
+  };
+}
@@ -1,8 +1,30 @@
-import type { ProjectData, Release, Employee, Task } from "@/lib/types";
+import type {
+  ProjectData,
+  Release,
+  Employee,
+  HolidayCalendar,
+  Scenario,
+  ScenarioChanges,
+  Baseline,
+  Task,
+  WorkLogEntry,
+} from "@/lib/types";
 import { v4 } from "uuid";
+import { isDependencyType } from "@/lib/dependencies";
+import { applyWorkLogEntry } from "@/lib/task-progress";
+import { migrateLegacyEmployees } from "@/lib/roster";
+import { isWeekdayHours } from "@/lib/capacity";
+import { isSchedulingStrategyId } from "@/lib/scheduling-strategies";
+import {
+  applyScenario,
+  createScenarioChanges,
+  removeTasks,
+} from "@/lib/scenarios";
 const STORAGE_KEY = "release-flow-data";
 
 export const defaultProjectData: ProjectData = {
+  roster: [],
+  holidayCalendars: [],
   releases: [],
   activeReleaseId: null,
 };
@@ -15,10 +37,12 @@ export function loadProjectData(): ProjectData {
     if (!stored) return defaultProjectData;
 
     const parsed = JSON.parse(stored) as ProjectData;
-    return {
+    return migrateLegacyEmployees({
+      roster: parsed.roster || [],
+      holidayCalendars: parsed.holidayCalendars || [],
       releases: parsed.releases || [],
       activeReleaseId: parsed.activeReleaseId || null,
-    };
+    });
   } catch (error) {
     console.error("Failed to load project data:", error);
     return defaultProjectData;
@@ -42,26 +66,127 @@ export function exportProjectData(): string {
 
 export function importProjectData(jsonString: string): boolean {
   try {
-    const data = JSON.parse(jsonString) as ProjectData;
+    const parsed = JSON.parse(jsonString) as ProjectData;
 
     // Enhanced validation
-    if (!data || typeof data !== "object") {
+    if (!parsed || typeof parsed !== "object") {
       throw new Error("Invalid data format: must be a valid JSON object");
     }
 
-    if (!Array.isArray(data.releases)) {
+    if (!Array.isArray(parsed.releases)) {
       throw new Error("Invalid data format: releases must be an array");
     }
 
+    if (!Array.isArray(parsed.roster)) {
+      parsed.roster = [];
+    }
+
+    // Older exports keep employees inside each release
+    const legacyEmployees = parsed.releases.flatMap(
+      (release: Release & { employees?: Employee[] }) =>
+        Array.isArray(release.employees) ? release.employees : [],
+    );
+    for (const employee of [...legacyEmployees, ...parsed.roster]) {
+      if (!employee.id || !employee.name || !employee.position) {
+        throw new Error("Invalid employee format: missing required fields");
+      }
+    }
+    const data = migrateLegacyEmployees(parsed);
+
+    // Validate shared holiday calendars
+    data.holidayCalendars = (
+      Array.isArray(data.holidayCalendars) ? data.holidayCalendars : []
+    )
+      .filter((calendar) => calendar && calendar.id && calendar.name)
+      .map((calendar) => ({
+        id: calendar.id,
+        name: calendar.name,
+        holidays: (Array.isArray(calendar.holidays)
+          ? calendar.holidays
+          : []
+        ).filter((holiday) => holiday && typeof holiday.date === "string"),
+      }));
+
+    // Validate roster members
+    for (const employee of data.roster) {
+      if (!Array.isArray(employee.capacityPeriods)) {
+        employee.capacityPeriods = [];
+      }
+      if (
+        employee.defaultHoursPerDay !== undefined &&
+        !(
+          typeof employee.defaultHoursPerDay === "number" &&
+          employee.defaultHoursPerDay >= 0
+        )
+      ) {
+        delete employee.defaultHoursPerDay;
+      }
+      if (
+        employee.defaultWeekdayHours !== undefined &&
+        !isWeekdayHours(employee.defaultWeekdayHours)
+      ) {
+        delete employee.defaultWeekdayHours;
+      }
+      if (employee.holidayCalendarIds !== undefined) {
+        employee.holidayCalendarIds = (
+          Array.isArray(employee.holidayCalendarIds)
+            ? employee.holidayCalendarIds
+            : []
+        ).filter((id) => data.holidayCalendars.some((c) => c.id === id));
+      }
+      if (
+        employee.focusFactor !== undefined &&
+        !(
+          Number.isFinite(employee.focusFactor) &&
+          employee.focusFactor >= 0 &&
+          employee.focusFactor <= 1
+        )
+      ) {
+        delete employee.focusFactor;
+      }
+      if (Array.isArray(employee.overhead)) {
+        employee.overhead = employee.overhead.filter(
+          (block) =>
+            block &&
+            block.id &&
+            Array.isArray(block.weekdays) &&
+            Number.isFinite(block.hoursPerDay) &&
+            block.hoursPerDay >= 0,
+        );
+      } else {
+        delete employee.overhead;
+      }
+      if (Array.isArray(employee.skills)) {
+        employee.skills = employee.skills.filter(
+          (skill) => typeof skill === "string" && skill.trim(),
+        );
+      } else {
+        delete employee.skills;
+      }
+      for (const period of employee.capacityPeriods) {
+        if (
+          period.weekdayHours !== undefined &&
+          !isWeekdayHours(period.weekdayHours)
+        ) {
+          delete period.weekdayHours;
+        }
+      }
+    }
+
     // Validate each release structure
     for (const release of data.releases) {
       if (!release.id || !release.name || !release.startDate) {
         throw new Error("Invalid release format: missing required fields");
       }
 
-      if (!Array.isArray(release.employees)) {
-        release.employees = [];
-      }
+      release.members = (Array.isArray(release.members) ? release.members : [])
+        .filter((m) => data.roster.some((e) => e.id === m.employeeId))
+        .map((m) => ({
+          employeeId: m.employeeId,
+          allocationPercent: Number.isFinite(m.allocationPercent)
+            ? Math.min(Math.max(m.allocationPercent, 0), 100)
+            : 100,
+        }));
 
       if (!Array.isArray(release.tasks)) {
         release.tasks = [];
@@ -71,15 +196,46 @@ export function importProjectData(jsonString: string): boolean {
         release.customHolidays = [];
       }
 
-      // Validate employees
-      for (const employee of release.employees) {
-        if (!employee.id || !employee.name || !employee.position) {
-          throw new Error("Invalid employee format: missing required fields");
-        }
-        if (!Array.isArray(employee.capacityPeriods)) {
-          employee.capacityPeriods = [];
+      if (release.workingWeekdays !== undefined) {
+        const weekdays = Array.isArray(release.workingWeekdays)
+          ? release.workingWeekdays.filter(
+              (day) => Number.isInteger(day) && day >= 0 && day <= 6,
+            )
+          : [];
+        if (weekdays.length > 0) {
+          release.workingWeekdays = Array.from(new Set(weekdays)).sort(
+            (a, b) => a - b,
+          );
+        } else {
+          delete release.workingWeekdays;
         }
       }
+      if (release.holidayCalendarIds !== undefined) {
+        release.holidayCalendarIds = (
+          Array.isArray(release.holidayCalendarIds)
+            ? release.holidayCalendarIds
+            : []
+        ).filter((id) => data.holidayCalendars.some((c) => c.id === id));
+      }
+
+      if (
+        release.planningHorizonEnd !== undefined &&
+        typeof release.planningHorizonEnd !== "string"
+      ) {
+        delete release.planningHorizonEnd;
+      }
+      if (
+        release.priority !== undefined &&
+        !Number.isFinite(release.priority)
+      ) {
+        delete release.priority;
+      }
+      if (
+        release.schedulingStrategy !== undefined &&
+        !isSchedulingStrategyId(release.schedulingStrategy)
+      ) {
+        delete release.schedulingStrategy;
+      }
 
       // Validate tasks
       for (const task of release.tasks) {
@@ -89,6 +245,89 @@ export function importProjectData(jsonString: string): boolean {
         if (!Array.isArray(task.blockerTaskIds)) {
           task.blockerTaskIds = [];
         }
+        if (Array.isArray(task.dependencies)) {
+          task.dependencies = task.dependencies
+            .filter(
+              (d) =>
+                task.blockerTaskIds.includes(d.taskId) &&
+                isDependencyType(d.type),
+            )
+            .map((d) => ({
+              ...d,
+              lagDays: Number.isFinite(d.lagDays) ? Math.round(d.lagDays) : 0,
+            }));
+        } else {
+          delete task.dependencies;
+        }
+        if (
+          task.estimateRange &&
+          ![
+            task.estimateRange.optimisticHours,
+            task.estimateRange.mostLikelyHours,
+            task.estimateRange.pessimisticHours,
+          ].every((h) => typeof h === "number" && h >= 0)
+        ) {
+          delete task.estimateRange;
+        }
+        for (const key of [
+          "startNoEarlierThan",
+          "finishNoLaterThan",
+          "mustStartOn",
+          "actualStartDate",
+          "actualEndDate",
+          "targetDate",
+        ] as const) {
+          if (task[key] !== undefined && typeof task[key] !== "string") {
+            delete task[key];
+          }
+        }
+        if (Array.isArray(task.workLog)) {
+          task.workLog = task.workLog.filter(
+            (entry) =>
+              typeof entry.date === "string" &&
+              typeof entry.hours === "number" &&
+              entry.hours > 0,
+          );
+        } else {
+          delete task.workLog;
+        }
+        if (
+          task.remainingHours !== undefined &&
+          !(typeof task.remainingHours === "number" && task.remainingHours >= 0)
+        ) {
+          delete task.remainingHours;
+        }
+        if (task.type !== undefined && task.type !== "milestone") {
+          delete task.type;
+        }
+        if (Array.isArray(task.assignments)) {
+          task.assignments = task.assignments.filter(
+            (a) =>
+              typeof a.employeeId === "string" &&
+              Number.isFinite(a.sharePercent) &&
+              a.sharePercent >= 0,
+          );
+          if (task.assignments.length < 2) delete task.assignments;
+        } else {
+          delete task.assignments;
+        }
+        if (typeof task.splitByAvailability !== "boolean") {
+          delete task.splitByAvailability;
+        }
+        if (Array.isArray(task.requiredSkills)) {
+          task.requiredSkills = task.requiredSkills.filter(
+            (skill) => typeof skill === "string" && skill.trim(),
+          );
+        } else {
+          delete task.requiredSkills;
+        }
+        // Loops in the hierarchy are tolerated, the scheduler ignores them
+        if (
+          task.parentId != null &&
+          !release.tasks.some((t) => t.id === task.parentId)
+        ) {
+          delete task.parentId;
+        }
         if (typeof task.priority !== "number") {
           task.priority = 0;
         }
@@ -100,6 +339,72 @@ export function importProjectData(jsonString: string): boolean {
           task.status = "pending";
         }
       }
+
+      // Scenario changes are checked loosely; they only apply when promoted
+      if (Array.isArray(release.scenarios)) {
+        const arrayOf = <T>(value: T[] | undefined): T[] =>
+          Array.isArray(value) ? value : [];
+        const isString = (value: unknown): value is string =>
+          typeof value === "string";
+        release.scenarios = release.scenarios
+          .filter((s) => s && s.id && s.name && s.changes)
+          .map((s) => ({
+            ...s,
+            changes: {
+              addedEmployees: arrayOf(s.changes.addedEmployees).filter(
+                (e) =>
+                  e.id &&
+                  e.name &&
+                  e.position &&
+                  Array.isArray(e.capacityPeriods),
+              ),
+              removedEmployeeIds: arrayOf(s.changes.removedEmployeeIds).filter(
+                isString,
+              ),
+              addedCapacityPeriods: arrayOf(
+                s.changes.addedCapacityPeriods,
+              ).filter(
+                (p) =>
+                  isString(p.employeeId) &&
+                  p.period &&
+                  isString(p.period.startDate) &&
+                  isString(p.period.endDate) &&
+                  typeof p.period.hoursPerDay === "number",
+              ),
+              taskUpdates: arrayOf(s.changes.taskUpdates).filter((u) =>
+                isString(u.taskId),
+              ),
+              removedTaskIds: arrayOf(s.changes.removedTaskIds).filter(
+                isString,
+              ),
+              addedHolidays: arrayOf(s.changes.addedHolidays).filter(isString),
+              removedHolidays: arrayOf(s.changes.removedHolidays).filter(
+                isString,
+              ),
+            },
+          }));
+      } else {
+        delete release.scenarios;
+      }
+
+      // Baselines are snapshots; tasks without the fields slip causes need
+      // are dropped rather than repaired
+      if (Array.isArray(release.baselines)) {
+        release.baselines = release.baselines
+          .filter((b) => b && b.id && b.name && Array.isArray(b.tasks))
+          .map((b) => ({
+            ...b,
+            tasks: b.tasks.filter(
+              (t) =>
+                typeof t.taskId === "string" &&
+                typeof t.name === "string" &&
+                typeof t.estimatedHours === "number" &&
+                Array.isArray(t.blockerTaskIds),
+            ),
+          }));
+      } else {
+        delete release.baselines;
+      }
     }
 
     // Ensure activeReleaseId is valid
@@ -133,7 +438,7 @@ export function createRelease(
     description,
     startDate,
     customHolidays: [],
-    employees: [],
+    members: [],
     tasks: [],
     createdAt: now,
     updatedAt: now,
@@ -170,10 +475,72 @@ export function deleteRelease(releaseId: string): void {
   saveProjectData(data);
 }
 
+// Utility functions for working with holiday calendars
+export function createHolidayCalendar(
+  calendar: Omit<HolidayCalendar, "id">,
+): HolidayCalendar {
+  const data = loadProjectData();
+  const newCalendar: HolidayCalendar = {
+    id: v4(),
+    ...calendar,
+  };
+
+  data.holidayCalendars.push(newCalendar);
+  saveProjectData(data);
+  return newCalendar;
+}
+
+export function updateHolidayCalendar(
+  calendarId: string,
+  updates: Omit<HolidayCalendar, "id">,
+): void {
+  const data = loadProjectData();
+  const calendarIndex = data.holidayCalendars.findIndex(
+    (c) => c.id === calendarId,
+  );
+
+  if (calendarIndex === -1) return;
+
+  data.holidayCalendars[calendarIndex] = {
+    id: calendarId,
+    ...updates,
+  };
+
+  saveProjectData(data);
+}
+
+// Releases and people that used the calendar keep only their own holidays
+export function deleteHolidayCalendar(calendarId: string): void {
+  const data = loadProjectData();
+  data.holidayCalendars = data.holidayCalendars.filter(
+    (c) => c.id !== calendarId,
+  );
+
+  for (const employee of data.roster) {
+    if (employee.holidayCalendarIds?.includes(calendarId)) {
+      employee.holidayCalendarIds = employee.holidayCalendarIds.filter(
+        (id) => id !== calendarId,
+      );
+    }
+  }
+
+  for (const release of data.releases) {
+    if (release.holidayCalendarIds?.includes(calendarId)) {
+      release.holidayCalendarIds = release.holidayCalendarIds.filter(
+        (id) => id !== calendarId,
+      );
+      release.updatedAt = new Date().toISOString();
+    }
+  }
+
+  saveProjectData(data);
+}
+
 // Utility functions for working with employees
 export function addEmployeeToRelease(
   releaseId: string,
   employee: Omit<Employee, "id">,
+  allocationPercent: number,
 ): void {
   const data = loadProjectData();
   const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
@@ -185,49 +552,70 @@ export function addEmployeeToRelease(
     ...employee,
   };
 
-  data.releases[releaseIndex].employees.push(newEmployee);
+  data.roster.push(newEmployee);
+  data.releases[releaseIndex].members.push({
+    employeeId: newEmployee.id,
+    allocationPercent,
+  });
   data.releases[releaseIndex].updatedAt = new Date().toISOString();
 
   saveProjectData(data);
 }
 
-export function updateEmployeeInRelease(
-  releaseId: string,
+// Changes the roster record, i.e. for every release the person is in
+export function updateEmployee(
   employeeId: string,
   updates: Omit<Employee, "id">,
 ): void {
   const data = loadProjectData();
-  const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
-
-  if (releaseIndex === -1) return;
-
-  const employeeIndex = data.releases[releaseIndex].employees.findIndex(
-    (e) => e.id === employeeId,
-  );
+  const employeeIndex = data.roster.findIndex((e) => e.id === employeeId);
 
   if (employeeIndex === -1) return;
 
-  data.releases[releaseIndex].employees[employeeIndex] = {
+  data.roster[employeeIndex] = {
     id: employeeId,
     ...updates,
   };
-  data.releases[releaseIndex].updatedAt = new Date().toISOString();
 
   saveProjectData(data);
 }
 
-export function deleteEmployeeFromRelease(
+// Adds a roster member to the release, or changes their allocation there
+export function setReleaseMember(
   releaseId: string,
   employeeId: string,
+  allocationPercent: number,
 ): void {
   const data = loadProjectData();
   const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
 
   if (releaseIndex === -1) return;
 
-  data.releases[releaseIndex].employees = data.releases[
+  const release = data.releases[releaseIndex];
+  const member = release.members.find((m) => m.employeeId === employeeId);
+  if (member) {
+    member.allocationPercent = allocationPercent;
+  } else {
+    release.members.push({ employeeId, allocationPercent });
+  }
+  release.updatedAt = new Date().toISOString();
+
+  saveProjectData(data);
+}
+
+// The person stays on the roster for other releases
+export function removeMemberFromRelease(
+  releaseId: string,
+  employeeId: string,
+): void {
+  const data = loadProjectData();
+  const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
+
+  if (releaseIndex === -1) return;
+
+  data.releases[releaseIndex].members = data.releases[
     releaseIndex
-  ].employees.filter((e) => e.id !== employeeId);
+  ].members.filter((m) => m.employeeId !== employeeId);
   data.releases[releaseIndex].updatedAt = new Date().toISOString();
 
   saveProjectData(data);
@@ -279,20 +667,80 @@ export function updateTaskInRelease(
   saveProjectData(data);
 }
 
+// Applies accepted auto-assign proposals in one save
+export function assignTasks(
+  releaseId: string,
+  assignments: { taskId: string; employeeId: string }[],
+): void {
+  const data = loadProjectData();
+  const release = data.releases.find((r) => r.id === releaseId);
+
+  if (!release) return;
+
+  for (const { taskId, employeeId } of assignments) {
+    const task = release.tasks.find((t) => t.id === taskId);
+    if (task) task.assignedEmployeeId = employeeId;
+  }
+  release.updatedAt = new Date().toISOString();
+
+  saveProjectData(data);
+}
+
+export function logTaskTime(
+  releaseId: string,
+  taskId: string,
+  entry: Omit<WorkLogEntry, "id">,
+  remainingHours?: number,
+): void {
+  const data = loadProjectData();
+  const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
+
+  if (releaseIndex === -1) return;
+
+  const taskIndex = data.releases[releaseIndex].tasks.findIndex(
+    (t) => t.id === taskId,
+  );
+
+  if (taskIndex === -1) return;
+
+  const task = data.releases[releaseIndex].tasks[taskIndex];
+  data.releases[releaseIndex].tasks[taskIndex] = {
+    ...task,
+    ...applyWorkLogEntry(task, { id: v4(), ...entry }, remainingHours),
+  };
+  data.releases[releaseIndex].updatedAt = new Date().toISOString();
+
+  saveProjectData(data);
+}
+
 export function deleteTaskFromRelease(releaseId: string, taskId: string): void {
   const data = loadProjectData();
   const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
 
   if (releaseIndex === -1) return;
 
+  const deletedTask = data.releases[releaseIndex].tasks.find(
+    (t) => t.id === taskId,
+  );
+
   // Remove the task
   data.releases[releaseIndex].tasks = data.releases[releaseIndex].tasks.filter(
     (t) => t.id !== taskId,
   );
 
-  // Remove this task from any blocker dependencies
+  // Children of a deleted epic move up to its parent
   data.releases[releaseIndex].tasks.forEach((task) => {
-    task.blockerTaskIds = task.blockerTaskIds.filter((id) => id !== taskId);
+    if (task.parentId === taskId) {
+      task.parentId = deletedTask?.parentId;
+    }
+  });
+
+  // Remove this task from any blocker dependencies, other releases included
+  data.releases.forEach((release) => {
+    release.tasks.forEach((task) => {
+      task.blockerTaskIds = task.blockerTaskIds.filter((id) => id !== taskId);
+      task.dependencies = task.dependencies?.filter((d) => d.taskId !== taskId);
+    });
   });
 
   data.releases[releaseIndex].updatedAt = new Date().toISOString();
@@ -300,6 +748,30 @@ export function deleteTaskFromRelease(releaseId: string, taskId: string): void {
   saveProjectData(data);
 }
 
+export function removeTaskDependency(
+  releaseId: string,
+  taskId: string,
+  blockerTaskId: string,
+): void {
+  const data = loadProjectData();
+  const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
+
+  if (releaseIndex === -1) return;
+
+  const task = data.releases[releaseIndex].tasks.find((t) => t.id === taskId);
+  if (!task) return;
+
+  task.blockerTaskIds = task.blockerTaskIds.filter(
+    (id) => id !== blockerTaskId,
+  );
+  task.dependencies = task.dependencies?.filter(
+    (d) => d.taskId !== blockerTaskId,
+  );
+  data.releases[releaseIndex].updatedAt = new Date().toISOString();
+
+  saveProjectData(data);
+}
+
 export function reorderTasksInRelease(releaseId: string, tasks: Task[]): void {
   const data = loadProjectData();
   const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
@@ -311,3 +783,120 @@ export function reorderTasksInRelease(releaseId: string, tasks: Task[]): void {
 
   saveProjectData(data);
 }
+
+// Utility functions for working with scenarios
+export function createScenario(
+  releaseId: string,
+  name: string,
+  changes: ScenarioChanges = createScenarioChanges(),
+): Scenario {
+  const data = loadProjectData();
+  const release = data.releases.find((r) => r.id === releaseId);
+  const now = new Date().toISOString();
+  const scenario: Scenario = {
+    id: v4(),
+    name,
+    changes,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  if (!release) return scenario;
+
+  release.scenarios = [...(release.scenarios || []), scenario];
+  saveProjectData(data);
+  return scenario;
+}
+
+export function updateScenario(
+  releaseId: string,
+  scenarioId: string,
+  updates: { name: string; changes: ScenarioChanges },
+): void {
+  const data = loadProjectData();
+  const scenario = data.releases
+    .find((r) => r.id === releaseId)
+    ?.scenarios?.find((s) => s.id === scenarioId);
+
+  if (!scenario) return;
+
+  scenario.name = updates.name;
+  scenario.changes = updates.changes;
+  scenario.updatedAt = new Date().toISOString();
+
+  saveProjectData(data);
+}
+
+export function deleteScenario(releaseId: string, scenarioId: string): void {
+  const data = loadProjectData();
+  const release = data.releases.find((r) => r.id === releaseId);
+
+  if (!release?.scenarios) return;
+
+  release.scenarios = release.scenarios.filter((s) => s.id !== scenarioId);
+  saveProjectData(data);
+}
+
+// Makes the scenario the plan: its changes land in the release and the
+// roster, i.e. changed people change for every release they are in. Other
+// scenarios of the release stay, now on top of the new plan.
+export function promoteScenario(releaseId: string, scenarioId: string): void {
+  const data = loadProjectData();
+  const releaseIndex = data.releases.findIndex((r) => r.id === releaseId);
+
+  if (releaseIndex === -1) return;
+
+  const release = data.releases[releaseIndex];
+  const scenario = release.scenarios?.find((s) => s.id === scenarioId);
+  if (!scenario) return;
+
+  const plan = applyScenario(release, data.roster, scenario.changes);
+  data.roster = plan.roster;
+  data.releases = data.releases.map((r) =>
+    r.id === releaseId
+      ? {
+          ...plan.release,
+          scenarios: release.scenarios!.filter((s) => s.id !== scenarioId),
+          updatedAt: new Date().toISOString(),
+        }
+      : // Removed tasks no longer block tasks of other releases either
+        {
+          ...r,
+          tasks: removeTasks(r.tasks, scenario.changes.removedTaskIds),
+        },
+  );
+
+  saveProjectData(data);
+}
+
+// Utility functions for working with baselines
+export function saveBaseline(
+  releaseId: string,
+  name: string,
+  snapshot: Pick<Baseline, "releaseDate" | "tasks">,
+): Baseline {
+  const data = loadProjectData();
+  const release = data.releases.find((r) => r.id === releaseId);
+  const baseline: Baseline = {
+    id: v4(),
+    name,
+    ...snapshot,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!release) return baseline;
+
+  release.baselines = [...(release.baselines || []), baseline];
+  saveProjectData(data);
+  return baseline;
+}
+
+export function deleteBaseline(releaseId: string, baselineId: string): void {
+  const data = loadProjectData();
+  const release = data.releases.find((r) => r.id === releaseId);
+
+  if (!release?.baselines) return;
+
+  release.baselines = release.baselines.filter((b) => b.id !== baselineId);
+  saveProjectData(data);
+}
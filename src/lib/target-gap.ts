@@ -0,0 +1,296 @@
+import type { Employee, HolidayCalendar, Release, Task } from "@/lib/types";
+import { DEFAULT_WORKING_WEEKDAYS } from "@/lib/date-utils";
+import { scheduleInPortfolio } from "@/lib/portfolio";
+import { getAssigneeIds } from "@/lib/assignments";
+import { getChildrenMap } from "@/lib/task-hierarchy";
+import { getRemainingHours } from "@/lib/task-progress";
+import { removeTasks } from "@/lib/scenarios";
+import { runToEnd, type Steps } from "@/lib/long-running";
+
+// Where the release would end with one option applied
+export interface GapOutcome {
+  releaseDate: Date | null;
+  feasible: boolean;
+  daysLate: number | null; // Working days past the target, as in TargetAssessment
+}
+
+export interface ExtraHoursOption extends GapOutcome {
+  employeeId: string;
+  hoursPerWeek: number; // On top of their current weekly hours
+}
+
+export interface DescopeOption extends GapOutcome {
+  taskIds: string[]; // In the order they were picked
+}
+
+export interface BreakDependencyOption extends GapOutcome {
+  taskId: string;
+  blockerTaskId: string;
+}
+
+export interface TargetGapAnalysis {
+  targetDate: Date;
+  current: GapOutcome;
+  extraHours: ExtraHoursOption[]; // One per member with open work
+  descope: DescopeOption | null;
+  dependencies: BreakDependencyOption[]; // Best first
+}
+
+export interface TargetGapOptions {
+  today?: Date; // Passed through to calculatePortfolioSchedule
+  holidayCalendars?: HolidayCalendar[]; // Passed through to calculatePortfolioSchedule
+}
+
+const EXTRA_HOURS_STEP = 2; // Hours per week
+const MAX_EXTRA_HOURS = 20; // Hours per week
+const MAX_DESCOPED_TASKS = 5;
+// Every candidate is a portfolio reschedule, so only the likeliest are tried
+const MAX_DESCOPE_CANDIDATES = 8; // The critical tasks with the most hours left
+const MAX_DEPENDENCY_CANDIDATES = 8;
+const MAX_DEPENDENCY_OPTIONS = 5;
+
+export function analyzeTargetGap(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: TargetGapOptions = {},
+): TargetGapAnalysis | null {
+  return runToEnd(targetGapSteps(release, releases, roster, options));
+}
+
+// Options that bring a release ending after its target closer to it. Every
+// option is found by rescheduling the portfolio with a modified copy of the
+// release (or its people), so only ones that actually move the date are
+// returned. Returns null when there is no target, the target is met or the
+// release does not get a date at all. Yields after every reschedule.
+export function* targetGapSteps(
+  release: Release,
+  releases: Release[],
+  roster: Employee[],
+  options: TargetGapOptions = {},
+): Steps<TargetGapAnalysis | null> {
+  const schedule = (changed: Partial<Release>, people = roster) =>
+    scheduleInPortfolio({ ...release, ...changed }, releases, people, options);
+  const outcomeOf = (data: ReturnType<typeof schedule>): GapOutcome => ({
+    releaseDate: data.releaseDate,
+    feasible: data.target?.feasible ?? false,
+    daysLate: data.target?.daysLate ?? null,
+  });
+
+  const current = schedule({});
+  if (!current.target || current.target.feasible || !current.releaseDate) {
+    return null;
+  }
+  const currentTime = current.releaseDate.getTime();
+  const improves = (outcome: GapOutcome) =>
+    getTime(outcome.releaseDate) < currentTime;
+
+  const children = getChildrenMap(release.tasks);
+  const busy = new Set(
+    release.tasks
+      .filter((t) => t.status !== "completed" && !children.has(t.id))
+      .flatMap(getAssigneeIds),
+  );
+  const members = roster.filter(
+    (e) => busy.has(e.id) && release.members.some((m) => m.employeeId === e.id),
+  );
+  const critical = new Set(
+    current.tasks.filter((t) => t.isCritical).map((t) => t.id),
+  );
+  // Dependencies between two critical tasks that set when the task could
+  // start, so dropping one can pull it in
+  const scheduledById = new Map(current.tasks.map((t) => [t.id, t]));
+  const bindingDependencies = release.tasks
+    .filter((task) => critical.has(task.id))
+    .flatMap((task) => {
+      const blockerTaskId = scheduledById.get(task.id)?.trace?.bindingDependency
+        ?.taskId;
+      return blockerTaskId && critical.has(blockerTaskId)
+        ? [{ task, blockerTaskId }]
+        : [];
+    })
+    .slice(0, MAX_DEPENDENCY_CANDIDATES);
+
+  const extraHoursSteps = MAX_EXTRA_HOURS / EXTRA_HOURS_STEP;
+  const total =
+    1 +
+    members.length * (1 + Math.ceil(Math.log2(extraHoursSteps))) +
+    MAX_DESCOPED_TASKS * MAX_DESCOPE_CANDIDATES +
+    bindingDependencies.length;
+  let done = 1;
+  yield { done, total };
+
+  // Extra hours: the smallest weekly top-up that meets the target, or the
+  // most that was tried when even that falls short. More hours never make
+  // the release later, so the smallest is found by halving. The person gets
+  // them in every release they work on.
+  const extraHours: ExtraHoursOption[] = [];
+  for (const employee of members) {
+    const tryHours = (steps: number): ExtraHoursOption => {
+      const hoursPerWeek = steps * EXTRA_HOURS_STEP;
+      const boosted = addWeeklyHours(
+        employee,
+        hoursPerWeek,
+        release.workingWeekdays ?? DEFAULT_WORKING_WEEKDAYS,
+      );
+      return {
+        employeeId: employee.id,
+        hoursPerWeek,
+        ...outcomeOf(
+          schedule(
+            {},
+            roster.map((e) => (e.id === employee.id ? boosted : e)),
+          ),
+        ),
+      };
+    };
+
+    let best = tryHours(extraHoursSteps);
+    yield { done: ++done, total };
+    let low = 1;
+    let high = extraHoursSteps;
+    while (best.feasible && low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const option = tryHours(middle);
+      yield { done: ++done, total };
+      if (option.feasible) {
+        best = option;
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    if (improves(best)) extraHours.push(best);
+  }
+  extraHours.sort(
+    (a, b) =>
+      Number(b.feasible) - Number(a.feasible) ||
+      (a.feasible
+        ? a.hoursPerWeek - b.hoursPerWeek
+        : getTime(a.releaseDate) - getTime(b.releaseDate)),
+  );
+
+  // Descope: greedily drop critical tasks, the smallest one that meets the
+  // target or else the one that helps most, until the target is met or
+  // nothing helps any more
+  let descope: DescopeOption | null = null;
+  const descopedIds: string[] = [];
+  let tasks = release.tasks;
+  let scheduled = current;
+  for (let step = 0; step < MAX_DESCOPED_TASKS; step++) {
+    const taskChildren = getChildrenMap(tasks);
+    const candidates = tasks
+      .filter(
+        (t) =>
+          t.status !== "completed" &&
+          t.type !== "milestone" &&
+          !taskChildren.has(t.id) &&
+          scheduled.tasks.find((g) => g.id === t.id)?.isCritical,
+      )
+      .sort((a, b) => getRemainingHours(b) - getRemainingHours(a))
+      .slice(0, MAX_DESCOPE_CANDIDATES);
+
+    let pick: { task: Task; tasks: Task[]; data: typeof current } | null = null;
+    for (const task of candidates) {
+      const trial = removeTasks(tasks, [task.id]);
+      const data = schedule({ tasks: trial });
+      yield { done: ++done, total };
+      const feasible = data.target?.feasible ?? false;
+      const pickFeasible = pick?.data.target?.feasible ?? false;
+      const byDate =
+        getTime(data.releaseDate) - getTime(pick?.data.releaseDate);
+      const byHours = task.estimatedHours - (pick?.task.estimatedHours ?? 0);
+      if (
+        !pick ||
+        (feasible && !pickFeasible) ||
+        (feasible === pickFeasible &&
+          (feasible ? byHours || byDate : byDate || byHours) < 0)
+      ) {
+        pick = { task, tasks: trial, data };
+      }
+    }
+    if (
+      !pick ||
+      getTime(pick.data.releaseDate) >= getTime(scheduled.releaseDate)
+    ) {
+      break;
+    }
+
+    tasks = pick.tasks;
+    scheduled = pick.data;
+    descopedIds.push(pick.task.id);
+    descope = { taskIds: [...descopedIds], ...outcomeOf(pick.data) };
+    if (descope.feasible) break;
+  }
+
+  // Each binding dependency dropped on its own
+  const dependencies: BreakDependencyOption[] = [];
+  for (const { task, blockerTaskId } of bindingDependencies) {
+    const outcome = outcomeOf(
+      schedule({
+        tasks: release.tasks.map((t) =>
+          t.id === task.id ? withoutBlocker(t, blockerTaskId) : t,
+        ),
+      }),
+    );
+    yield { done: ++done, total };
+    if (improves(outcome)) {
+      dependencies.push({ taskId: task.id, blockerTaskId, ...outcome });
+    }
+  }
+  dependencies.sort((a, b) => getTime(a.releaseDate) - getTime(b.releaseDate));
+
+  return {
+    targetDate: current.target.targetDate,
+    current: outcomeOf(current),
+    extraHours,
+    descope,
+    dependencies: dependencies.slice(0, MAX_DEPENDENCY_OPTIONS),
+  };
+}
+
+function getTime(date: Date | null | undefined): number {
+  return date?.getTime() ?? Infinity;
+}
+
+// Spreads `hoursPerWeek` over the days the person already works; days off
+// and vacation periods stay free
+function addWeeklyHours(
+  employee: Employee,
+  hoursPerWeek: number,
+  workingWeekdays: number[],
+): Employee {
+  const perWorkingDay = hoursPerWeek / Math.max(workingWeekdays.length, 1);
+  const addToPattern = (pattern: number[]) => {
+    const worked = pattern.filter((hours) => hours > 0).length;
+    return pattern.map((hours) =>
+      hours > 0 ? hours + hoursPerWeek / worked : hours,
+    );
+  };
+  const addToDay = (hours: number) =>
+    hours > 0 ? hours + perWorkingDay : hours;
+
+  return {
+    ...employee,
+    capacityPeriods: employee.capacityPeriods.map((period) => ({
+      ...period,
+      hoursPerDay: addToDay(period.hoursPerDay),
+      weekdayHours: period.weekdayHours && addToPattern(period.weekdayHours),
+    })),
+    defaultHoursPerDay:
+      employee.defaultHoursPerDay !== undefined
+        ? addToDay(employee.defaultHoursPerDay)
+        : undefined,
+    defaultWeekdayHours:
+      employee.defaultWeekdayHours &&
+      addToPattern(employee.defaultWeekdayHours),
+  };
+}
+
+function withoutBlocker(task: Task, blockerTaskId: string): Task {
+  return {
+    ...task,
+    blockerTaskIds: task.blockerTaskIds.filter((id) => id !== blockerTaskId),
+    dependencies: task.dependencies?.filter((d) => d.taskId !== blockerTaskId),
+  };
+}
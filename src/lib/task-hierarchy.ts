@@ -0,0 +1,153 @@
+import type { Task, TaskDependency } from "@/lib/types";
+import { getTaskDependencies } from "@/lib/dependencies";
+
+// Parent links that point at a missing task or loop back on themselves are
+// ignored, so a broken hierarchy degrades to top-level tasks.
+export function getParentMap(tasks: Task[]): Map<string, string> {
+  const ids = new Set(tasks.map((t) => t.id));
+  const parents = new Map<string, string>();
+
+  for (const task of tasks) {
+    if (task.parentId && task.parentId !== task.id && ids.has(task.parentId)) {
+      parents.set(task.id, task.parentId);
+    }
+  }
+
+  const looping: string[] = [];
+  for (const task of tasks) {
+    const seen = new Set<string>([task.id]);
+    let current = parents.get(task.id);
+    while (current && !seen.has(current)) {
+      seen.add(current);
+      current = parents.get(current);
+    }
+    if (current === task.id) looping.push(task.id);
+  }
+  for (const id of looping) {
+    parents.delete(id);
+  }
+
+  return parents;
+}
+
+export function getChildrenMap(tasks: Task[]): Map<string, string[]> {
+  const children = new Map<string, string[]>();
+  for (const [childId, parentId] of getParentMap(tasks)) {
+    const list = children.get(parentId) || [];
+    list.push(childId);
+    children.set(parentId, list);
+  }
+  return children;
+}
+
+export function getAncestorIds(
+  taskId: string,
+  parents: Map<string, string>,
+): string[] {
+  const ancestors: string[] = [];
+  let current = parents.get(taskId);
+  while (current) {
+    ancestors.push(current);
+    current = parents.get(current);
+  }
+  return ancestors;
+}
+
+// Every task below `taskId`, children before grandchildren
+export function getDescendantIds(
+  taskId: string,
+  children: Map<string, string[]>,
+): string[] {
+  const descendants: string[] = [];
+  const queue = [...(children.get(taskId) || [])];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    descendants.push(current);
+    queue.push(...(children.get(current) || []));
+  }
+  return descendants;
+}
+
+// Tasks without children are the ones that carry work; epics only group them
+export function getLeafDescendantIds(
+  taskId: string,
+  children: Map<string, string[]>,
+): string[] {
+  return getDescendantIds(taskId, children).filter((id) => !children.has(id));
+}
+
+// Rewrites leaf tasks so the scheduler never sees an epic: a dependency on an
+// epic becomes one on each of its leaves ("after all its children"), and a
+// leaf inherits whatever its ancestors are blocked by.
+export function expandEpicDependencies(tasks: Task[]): Task[] {
+  const parents = getParentMap(tasks);
+  const children = getChildrenMap(tasks);
+  const tasksMap = new Map(tasks.map((t) => [t.id, t]));
+
+  return tasks
+    .filter((task) => !children.has(task.id))
+    .map((task) => {
+      const ancestors = getAncestorIds(task.id, parents);
+      const dependencies: TaskDependency[] = [];
+
+      const add = (dependency: TaskDependency, owner: string) => {
+        const targets = children.has(dependency.taskId)
+          ? getLeafDescendantIds(dependency.taskId, children)
+          : [dependency.taskId];
+        for (const targetId of targets) {
+          // Waiting on your own subtree or ancestor means nothing
+          if (targetId === task.id || ancestors.includes(dependency.taskId)) {
+            continue;
+          }
+          if (
+            owner !== task.id &&
+            getAncestorIds(targetId, parents).includes(owner)
+          ) {
+            continue;
+          }
+          if (dependencies.some((d) => d.taskId === targetId)) continue;
+          dependencies.push({ ...dependency, taskId: targetId });
+        }
+      };
+
+      for (const owner of [task.id, ...ancestors]) {
+        for (const dependency of getTaskDependencies(tasksMap.get(owner)!)) {
+          add(dependency, owner);
+        }
+      }
+
+      return {
+        ...task,
+        blockerTaskIds: dependencies.map((d) => d.taskId),
+        dependencies,
+      };
+    });
+}
+
+// Depth-first display order: each task right after its parent, siblings
+// keeping the order they came in
+export function orderTasksAsTree<T extends { id: string }>(
+  items: T[],
+  parents: Map<string, string>,
+): T[] {
+  const ids = new Set(items.map((i) => i.id));
+  const byParent = new Map<string | undefined, T[]>();
+  for (const item of items) {
+    const parentId = parents.get(item.id);
+    const key = parentId && ids.has(parentId) ? parentId : undefined;
+    const list = byParent.get(key) || [];
+    list.push(item);
+    byParent.set(key, list);
+  }
+
+  const ordered: T[] = [];
+  const visit = (parentId: string | undefined) => {
+    for (const item of byParent.get(parentId) || []) {
+      ordered.push(item);
+      visit(item.id);
+    }
+  };
+  visit(undefined);
+
+  return ordered;
+}
@@ -0,0 +1,154 @@
+import type { Task, WorkLogEntry } from "@/lib/types";
+import { getTaskAssignments } from "@/lib/assignments";
+
+type ActualDates = Pick<Task, "actualStartDate" | "actualEndDate">;
+
+// Keeps the recorded dates in step with a status change: starting stamps the
+// start, completing stamps the end, reopening clears what no longer applies.
+export function getActualDatesForStatus(
+  task: ActualDates,
+  status: Task["status"],
+  today: string,
+): ActualDates {
+  switch (status) {
+    case "completed":
+      return {
+        actualStartDate: task.actualStartDate || today,
+        actualEndDate: task.actualEndDate || today,
+      };
+    case "in-progress":
+      return {
+        actualStartDate: task.actualStartDate || today,
+        actualEndDate: undefined,
+      };
+    case "blocked":
+      // Blocked work may already have started
+      return {
+        actualStartDate: task.actualStartDate,
+        actualEndDate: undefined,
+      };
+    default:
+      return { actualStartDate: undefined, actualEndDate: undefined };
+  }
+}
+
+export interface WorkSummary {
+  estimatedHours: number;
+  loggedHours: number;
+  remainingHours: number;
+}
+
+export function getLoggedHours(task: Task): number {
+  return (task.workLog || []).reduce((sum, entry) => sum + entry.hours, 0);
+}
+
+// Work left to schedule. An explicit re-estimate wins over what the original
+// estimate minus logged time would suggest.
+export function getRemainingHours(task: Task): number {
+  if (task.status === "completed") return 0;
+  if (task.remainingHours !== undefined)
+    return Math.max(task.remainingHours, 0);
+  return Math.max(task.estimatedHours - getLoggedHours(task), 0);
+}
+
+export function getTaskProgress(task: Task): number {
+  if (task.status === "completed") return 100;
+
+  const logged = getLoggedHours(task);
+  const total = logged + getRemainingHours(task);
+  return total > 0 ? Math.round((logged / total) * 100) : 0;
+}
+
+// Epic progress: children weighted by their estimates, so a finished
+// two-hour chore doesn't count as much as a half-done week of work.
+export function getRolledUpProgress(tasks: Task[]): number {
+  if (tasks.length === 0) return 0;
+  const estimated = tasks.reduce((sum, t) => sum + t.estimatedHours, 0);
+  const progress =
+    estimated > 0
+      ? tasks.reduce(
+          (sum, t) => sum + getTaskProgress(t) * t.estimatedHours,
+          0,
+        ) / estimated
+      : tasks.reduce((sum, t) => sum + getTaskProgress(t), 0) / tasks.length;
+  return Math.round(progress);
+}
+
+// Appends a log entry. Logging against a pending task starts it, and an
+// explicit remaining estimate shrinks by the hours spent unless re-entered.
+export function applyWorkLogEntry(
+  task: Task,
+  entry: WorkLogEntry,
+  remainingHours?: number,
+): Partial<Task> {
+  const updates: Partial<Task> = {
+    workLog: [...(task.workLog || []), entry],
+  };
+
+  if (remainingHours !== undefined) {
+    updates.remainingHours = Math.max(remainingHours, 0);
+  } else if (task.remainingHours !== undefined) {
+    updates.remainingHours = Math.max(task.remainingHours - entry.hours, 0);
+  }
+
+  if (task.status === "pending") {
+    updates.status = "in-progress";
+  }
+  if (
+    task.status !== "completed" &&
+    (!task.actualStartDate || entry.date < task.actualStartDate)
+  ) {
+    updates.actualStartDate = entry.date;
+  }
+
+  return updates;
+}
+
+export function summarizeWork(tasks: Task[]): WorkSummary {
+  return tasks.reduce(
+    (summary, task) => ({
+      estimatedHours: summary.estimatedHours + task.estimatedHours,
+      loggedHours: summary.loggedHours + getLoggedHours(task),
+      remainingHours: summary.remainingHours + getRemainingHours(task),
+    }),
+    { estimatedHours: 0, loggedHours: 0, remainingHours: 0 },
+  );
+}
+
+// Estimates and remaining work count for the assignee, split by share when
+// several people work on the task; logged hours count for whoever logged
+// them.
+export function summarizeWorkByEmployee(
+  tasks: Task[],
+): Map<string | null, WorkSummary> {
+  const summaries = new Map<string | null, WorkSummary>();
+  const summaryFor = (employeeId: string | null) => {
+    let summary = summaries.get(employeeId);
+    if (!summary) {
+      summary = { estimatedHours: 0, loggedHours: 0, remainingHours: 0 };
+      summaries.set(employeeId, summary);
+    }
+    return summary;
+  };
+
+  for (const task of tasks) {
+    // Closed without logging anything: no actuals to compare against
+    if (task.status === "completed" && !task.workLog?.length) continue;
+
+    const assignments = getTaskAssignments(task);
+    const shares =
+      assignments.length > 0
+        ? assignments
+        : [{ employeeId: null, sharePercent: 100 }];
+    for (const { employeeId, sharePercent } of shares) {
+      const assignee = summaryFor(employeeId);
+      assignee.estimatedHours += (sharePercent / 100) * task.estimatedHours;
+      assignee.remainingHours += (sharePercent / 100) * getRemainingHours(task);
+    }
+    for (const entry of task.workLog || []) {
+      summaryFor(entry.employeeId).loggedHours += entry.hours;
+    }
+  }
+
+  return summaries;
+}
@@ -1,10 +1,38 @@
 // Core data models for the project management system
 
+// Member of the workspace roster, shared by every release they work on
 export interface Employee {
   id: string;
   name: string;
   position: string;
   capacityPeriods: CapacityPeriod[];
+  defaultHoursPerDay?: number; // Hours on days no period covers; unset means none
+  defaultWeekdayHours?: WeekdayHours; // Replaces defaultHoursPerDay when set
+  holidayCalendarIds?: string[]; // Public holidays where they are based, on top of the release's
+  focusFactor?: number; // Share of the hours left after overhead that can be planned, 0-1; defaults to 1
+  overhead?: OverheadBlock[];
+  skills?: string[]; // Free-form tags such as "frontend" or "ios"
+}
+
+// Time regularly lost to meetings, support or on-call duty, taken off the
+// plannable hours on each matching day
+export interface OverheadBlock {
+  id: string;
+  description: string;
+  weekdays: number[]; // Sunday = 0, as in Date.getDay()
+  hoursPerDay: number;
+  everyWeeks?: number; // 2 = every other week, counted from the week of startDate; defaults to 1
+  startDate?: string; // ISO date string
+  endDate?: string; // ISO date string
+}
+
+// Hours for each day of the week, Sunday first as in Date.getDay(). Days with
+// hours are worked even on weekends; the rest are days off.
+export type WeekdayHours = number[];
+
+export interface ReleaseMember {
+  employeeId: string; // Roster member
+  allocationPercent: number; // Share of their capacity this release may use, 0-100
 }
 
 export interface CapacityPeriod {
@@ -12,23 +40,75 @@ export interface CapacityPeriod {
   startDate: string; // ISO date string
   endDate: string; // ISO date string
   hoursPerDay: number; // 0 means vacation/unavailable
+  weekdayHours?: WeekdayHours; // Weekly pattern, replaces hoursPerDay when set
   description?: string;
 }
 
+export type DependencyType =
+  | "finish-to-start"
+  | "start-to-start"
+  | "finish-to-finish";
+
+export interface TaskDependency {
+  taskId: string; // Blocker task id (must also be listed in blockerTaskIds)
+  type: DependencyType;
+  lagDays: number; // Working days, negative values allow overlap
+}
+
+export interface ThreePointEstimate {
+  optimisticHours: number;
+  mostLikelyHours: number;
+  pessimisticHours: number;
+}
+
+export interface WorkLogEntry {
+  id: string;
+  date: string; // ISO date string
+  employeeId: string | null;
+  hours: number;
+}
+
+export type TaskType = "task" | "milestone";
+
+export interface TaskAssignment {
+  employeeId: string;
+  sharePercent: number; // Part of the task's hours this person does; scaled when shares don't add up to 100
+}
+
 export interface Task {
   id: string;
   name: string;
+  type?: TaskType; // Defaults to "task"; milestones take no time or capacity
+  targetDate?: string; // ISO date string, milestone date to hold (slip detection)
+  parentId?: string | null; // Epic this task is grouped under
   estimatedHours: number;
-  assignedEmployeeId: string | null;
+  estimateRange?: ThreePointEstimate; // Used by the release forecast simulation
+  assignedEmployeeId: string | null; // The first of `assignments` when the task is split
+  assignments?: TaskAssignment[]; // Several people sharing the task
+  splitByAvailability?: boolean; // Hours go to whichever assignee is free first instead of fixed shares
+  requiredSkills?: string[]; // Auto-assign only picks people with all of them
   blockerTaskIds: string[]; // Tasks that must be completed before this one
+  dependencies?: TaskDependency[]; // Type and lag per blocker; missing entries are finish-to-start without lag
   priority: number; // Lower number = higher priority (for drag-and-drop ordering)
   status: "pending" | "in-progress" | "completed" | "blocked";
   actualStartDate?: string; // ISO date string
   actualEndDate?: string; // ISO date string
+  workLog?: WorkLogEntry[]; // Hours spent so far
+  remainingHours?: number; // Re-estimate of the work left; defaults to estimate minus logged
+  startNoEarlierThan?: string; // ISO date string, e.g. waiting on a vendor drop
+  finishNoLaterThan?: string; // ISO date string, hard deadline
+  mustStartOn?: string; // ISO date string, fixed start
   calculatedStartDate?: string; // Auto-calculated based on dependencies and capacity
   calculatedEndDate?: string; // Auto-calculated based on dependencies and capacity
 }
 
+// How the scheduler picks among tasks whose blockers are all scheduled
+export type SchedulingStrategyId =
+  | "priority"
+  | "shortest-first"
+  | "critical-path"
+  | "earliest-deadline";
+
 export interface Release {
   id: string;
   name: string;
@@ -37,13 +117,85 @@ export interface Release {
   targetEndDate?: string; // User-defined target
   calculatedEndDate?: string; // Auto-calculated based on tasks and capacity
   customHolidays: string[]; // Array of ISO date strings for custom non-working days
-  employees: Employee[];
+  workingWeekdays?: number[]; // Sunday = 0; Monday to Friday when unset
+  holidayCalendarIds?: string[]; // Shared calendars whose holidays also apply
+  planningHorizonEnd?: string; // ISO date string; derived from capacity periods when unset
+  priority?: number; // Lower goes first when releases compete for the same people
+  schedulingStrategy?: SchedulingStrategyId; // Which ready task gets capacity first; "priority" when unset
+  members: ReleaseMember[];
   tasks: Task[];
+  scenarios?: Scenario[]; // What-if branches of this release
+  baselines?: Baseline[]; // Saved schedules, oldest first
   createdAt: string;
   updatedAt: string;
 }
 
+// The calculated schedule as it was when saved, to measure slippage against
+export interface Baseline {
+  id: string;
+  name: string;
+  releaseDate?: string; // ISO date string; unset when not everything was scheduled
+  tasks: BaselineTask[];
+  createdAt: string;
+}
+
+// A task's calculated dates plus the inputs that most often move them, so
+// changes since the baseline can be found and tried out
+export interface BaselineTask {
+  taskId: string;
+  name: string;
+  startDate?: string; // ISO date string
+  endDate?: string; // ISO date string
+  estimatedHours: number;
+  assignedEmployeeId: string | null;
+  blockerTaskIds: string[];
+}
+
+// A what-if branch of a release, kept as changes on top of it so the plan
+// stays untouched until the scenario is promoted
+export interface Scenario {
+  id: string;
+  name: string;
+  changes: ScenarioChanges;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScenarioChanges {
+  addedEmployees: Employee[]; // People only in the scenario, in the release at 100%
+  removedEmployeeIds: string[]; // Members left out of the scenario
+  addedCapacityPeriods: { employeeId: string; period: CapacityPeriod }[]; // Leave and the like
+  taskUpdates: ScenarioTaskUpdate[];
+  removedTaskIds: string[]; // Removed with their blocker links, as when deleted
+  addedHolidays: string[]; // ISO date strings, on top of the release's customHolidays
+  removedHolidays: string[]; // ISO date strings taken out of customHolidays
+}
+
+// Fields of a release task that differ in the scenario
+export type ScenarioTaskUpdate = { taskId: string } & Partial<Omit<Task, "id">>;
+
+// What the scheduler works on: members resolved against the roster, their
+// capacity already scaled by the release's allocation
+export interface StaffedRelease extends Omit<Release, "members"> {
+  employees: Employee[];
+}
+
+export interface Holiday {
+  date: string; // ISO date string
+  name?: string;
+}
+
+// Reusable set of non-working days, e.g. a country's public holidays or the
+// company calendar, that any release can reference
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  holidays: Holiday[];
+}
+
 export interface ProjectData {
+  roster: Employee[];
+  holidayCalendars: HolidayCalendar[];
   releases: Release[];
   activeReleaseId: string | null;
 }
@@ -52,23 +204,107 @@ export type UnscheduledReason =
   | "cycle"
   | "no_capacity"
   | "external_blocker"
+  | "beyond_horizon"
   | "unknown";
 
+// One dependency edge, stored on `taskId` as an entry of its blockerTaskIds
+export interface DependencyEdge {
+  taskId: string;
+  blockerTaskId: string;
+}
+
+export interface DependencyCycle {
+  componentTaskIds: string[]; // Strongly connected component of leaf tasks containing the cycle
+  path: string[]; // Ordered leaf task ids; each blocks the next, the last blocks the first
+  edges: DependencyEdge[]; // Edges as entered along `path`, possibly on epics; any of them breaks this loop
+}
+
+// Constraints the calculated schedule could not honor. Unlike
+// UnscheduledReason the task still gets dates.
+export type ScheduleViolation =
+  | "deadline_missed"
+  | "must_start_missed"
+  | "milestone_slipped";
+
+// What set a task's earliest possible start
+export type ScheduleDriver =
+  | "release_start"
+  | "blocker"
+  | "constraint"
+  | "today" // Open work is never planned in the past
+  | "target_date" // Milestone without blockers held at its target
+  | "actual_dates"; // Completed task fixed at its recorded dates
+
+// Explains why a scheduled task landed on its dates
+export interface ScheduleTrace {
+  earliestStart: Date; // Earliest date blockers and constraints allowed
+  driver: ScheduleDriver;
+  bindingDependency?: TaskDependency; // Blocker that bound the start (or finish, for FF)
+  bindingConstraint?: "startNoEarlierThan" | "mustStartOn";
+  nonWorkingDays: { date: string; reason: "weekend" | "holiday" }[];
+  fullyAllocatedDays: { date: string; taskIds: string[] }[]; // Assignee booked by earlier tasks
+  unavailableDays: string[]; // Working days without assignee capacity
+  capacityPeriods: { periodId: string; description?: string; hours: number }[];
+}
+
+// One person's part of a task split between several assignees
+export interface GanttAssigneeSegment {
+  employeeId: string;
+  employeeName: string;
+  color: string;
+  hours: number;
+  startDate: Date;
+  endDate: Date;
+}
+
 export interface GanttTask {
   id: string;
   name: string;
+  isMilestone?: boolean;
+  targetDate?: string; // ISO date string, milestones only
+  isEpic?: boolean; // Has children; hours, dates and progress are rolled up
+  parentId?: string;
+  depth?: number; // Nesting level below the top, 0 for top-level tasks
   estimatedHours: number;
   startDate?: Date;
   endDate?: Date;
   progress: number; // 0-100
   dependencies: string[];
+  dependencyLinks: TaskDependency[];
   assignedEmployee?: string;
   color?: string;
+  assigneeSegments?: GanttAssigneeSegment[]; // Per person, for split tasks
+
   unscheduledReason?: UnscheduledReason;
+  violations?: ScheduleViolation[];
+  trace?: ScheduleTrace;
+  totalFloat?: number; // Working days of slack before the release date moves
+  freeFloat?: number; // Working days of slack before any successor moves
+  isCritical?: boolean;
+  // Backward pass from the release's target end date, when it has one
+  latestStart?: Date; // Latest start that still meets the target
+  latestFinish?: Date;
+  latestStartPassed?: boolean; // Not started although its latest start is behind today
+}
+
+export interface TargetAssessment {
+  targetDate: Date; // Last working day on or before the release's targetEndDate
+  feasible: boolean;
+  // Working days past the target, negative with days to spare, null when the
+  // release date is unknown
+  daysLate: number | null;
 }
 
 export interface GanttData {
   tasks: GanttTask[];
   employees: { id: string; name: string; color: string }[];
   releaseDate: Date | null;
+  criticalPath: string[]; // Ids of tasks that drive releaseDate, by start date
+  cycles: DependencyCycle[];
+  target?: TargetAssessment; // Only for releases with a targetEndDate
+}
+
+export interface PortfolioSchedule {
+  releaseOrder: string[]; // Release ids in the order they got capacity
+  releases: Record<string, GanttData>; // By release id
 }